@@ -8,6 +8,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
 import { LoadingScreen } from "@/components/ui/loading-screen";
 import { useTheme } from "@/hooks/use-theme";
+import { usePresence } from "@/hooks/use-presence";
+import { useMessageDelivery } from "@/hooks/use-message-delivery";
 import { FirebaseNotificationProvider } from "@/components/notifications/FirebaseNotificationProvider";
 import { ErrorBoundary } from "@/components/ui/error-boundary";
 
@@ -21,6 +23,11 @@ const Messages = lazy(() => import("./pages/Messages"));
 const Notifications = lazy(() => import("./pages/Notifications"));
 const Profile = lazy(() => import("./pages/Profile"));
 const Settings = lazy(() => import("./pages/Settings"));
+const TagPosts = lazy(() => import("./pages/TagPosts"));
+const PostDetail = lazy(() => import("./pages/PostDetail"));
+const Saved = lazy(() => import("./pages/Saved"));
+const RecentlyDeleted = lazy(() => import("./pages/RecentlyDeleted"));
+const Search = lazy(() => import("./pages/Search"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 // Components
@@ -41,6 +48,8 @@ const App = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const { theme, colorTheme, setTheme, setColorTheme } = useTheme();
+  const connectPresence = usePresence(state => state.connect);
+  const disconnectPresence = usePresence(state => state.disconnect);
   
   useEffect(() => {
     // Apply theme immediately on mount
@@ -125,6 +134,17 @@ const App = () => {
     };
   }, []);
   
+  // Signed in users show as online on every page, not just in Messages
+  const userId = session?.user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    connectPresence(userId);
+    return () => disconnectPresence();
+  }, [userId, connectPresence, disconnectPresence]);
+
+  useMessageDelivery(userId);
+  
   if (loading) {
     return <LoadingScreen />;
   }
@@ -202,6 +222,46 @@ const App = () => {
                       </AuthGuard>
                     } 
                   />
+                  <Route 
+                    path="/tags/:tag" 
+                    element={
+                      <AuthGuard>
+                        <TagPosts />
+                      </AuthGuard>
+                    } 
+                  />
+                  <Route 
+                    path="/post/:id" 
+                    element={
+                      <AuthGuard>
+                        <PostDetail />
+                      </AuthGuard>
+                    } 
+                  />
+                  <Route 
+                    path="/saved" 
+                    element={
+                      <AuthGuard>
+                        <Saved />
+                      </AuthGuard>
+                    } 
+                  />
+                  <Route 
+                    path="/settings/deleted" 
+                    element={
+                      <AuthGuard>
+                        <RecentlyDeleted />
+                      </AuthGuard>
+                    } 
+                  />
+                  <Route 
+                    path="/search" 
+                    element={
+                      <AuthGuard>
+                        <Search />
+                      </AuthGuard>
+                    } 
+                  />
                   
                   {/* 404 Route */}
                   <Route path="*" element={<NotFound />} />
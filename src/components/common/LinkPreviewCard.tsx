@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { Link2 } from 'lucide-react';
+import { LinkPreview, fetchLinkPreview } from '@/utils/linkUtils';
+
+interface LinkPreviewCardProps {
+  // Normalized link, see getFirstUrl
+  url: string;
+  className?: string;
+}
+
+export function LinkPreviewCard({ url, className = '' }: LinkPreviewCardProps) {
+  const [preview, setPreview] = useState<LinkPreview | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+
+    fetchLinkPreview(url)
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(error => console.error('Error fetching link preview:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  // Links without a usable preview stay as plain links in the text
+  if (!preview) return null;
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      onClick={(e) => e.stopPropagation()}
+      className={`block rounded-lg border overflow-hidden bg-background/60 text-foreground hover:bg-muted/30 transition-colors duration-300 ${className}`}
+    >
+      {preview.image_url && (
+        <img
+          src={preview.image_url}
+          alt=""
+          className="w-full max-h-48 object-cover"
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          onError={(e) => {
+            e.currentTarget.style.display = 'none';
+          }}
+        />
+      )}
+      <div className="p-3 space-y-1">
+        <p className="flex items-center gap-1 font-pixelated text-[10px] text-muted-foreground truncate">
+          <Link2 className="h-3 w-3 flex-shrink-0" />
+          {preview.site_name}
+        </p>
+        {preview.title && (
+          <p className="font-pixelated text-xs font-medium line-clamp-2">{preview.title}</p>
+        )}
+        {preview.description && (
+          <p className="font-pixelated text-[10px] text-muted-foreground line-clamp-2">{preview.description}</p>
+        )}
+      </div>
+    </a>
+  );
+}
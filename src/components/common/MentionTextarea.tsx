@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Textarea, TextareaProps } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { supabase } from '@/integrations/supabase/client';
+import { MentionProfile } from '@/utils/mentionUtils';
+
+// `@query` being typed right before the caret
+const MENTION_QUERY_REGEX = /(^|\s)@([A-Za-z0-9_]{1,30})$/;
+const MAX_SUGGESTIONS = 5;
+
+interface MentionTextareaProps extends TextareaProps {
+  // Classes for the wrapper, e.g. `flex-1` inside a flex row
+  containerClassName?: string;
+}
+
+interface MentionQuery {
+  start: number;
+  text: string;
+}
+
+/**
+ * Drop-in `Textarea` that suggests usernames while typing `@`.
+ * Picking a suggestion inserts `@username`; serialize with `serializeMentions` before saving.
+ */
+export function MentionTextarea({ containerClassName, onChange, onKeyDown, onBlur, ...props }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<MentionQuery | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionProfile[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+
+    const searchUsers = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id, name, username, avatar')
+          .or(`name.ilike.%${query.text}%,username.ilike.%${query.text}%`)
+          .limit(MAX_SUGGESTIONS);
+
+        if (error) throw error;
+        setSuggestions(data || []);
+        setActiveIndex(0);
+      } catch (error) {
+        console.error('Error searching users to mention:', error);
+      }
+    };
+
+    const debounceTimer = setTimeout(searchUsers, 300);
+    return () => clearTimeout(debounceTimer);
+  }, [query]);
+
+  const detectQuery = (textarea: HTMLTextAreaElement) => {
+    const beforeCaret = textarea.value.slice(0, textarea.selectionStart);
+    const match = beforeCaret.match(MENTION_QUERY_REGEX);
+
+    if (!match) {
+      setQuery(null);
+      return;
+    }
+
+    const text = match[2];
+    const start = beforeCaret.length - text.length - 1;
+    setQuery(prev => (prev?.start === start && prev.text === text ? prev : { start, text }));
+  };
+
+  const closeSuggestions = () => {
+    setQuery(null);
+    setSuggestions([]);
+  };
+
+  const selectSuggestion = (profile: MentionProfile) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !query) return;
+
+    const caret = textarea.selectionStart;
+    const mention = `@${profile.username} `;
+    const nextValue = textarea.value.slice(0, query.start) + mention + textarea.value.slice(caret);
+
+    // Go through the native setter so the parent's onChange sees the update
+    const setValue = Object.getOwnPropertyDescriptor(HTMLTextAreaElement.prototype, 'value')?.set;
+    setValue?.call(textarea, nextValue);
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+
+    const nextCaret = query.start + mention.length;
+    textarea.focus();
+    textarea.setSelectionRange(nextCaret, nextCaret);
+    closeSuggestions();
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange?.(e);
+    detectQuery(e.target);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex(prev => (prev + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectSuggestion(suggestions[activeIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        closeSuggestions();
+        return;
+      }
+    }
+
+    onKeyDown?.(e);
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLTextAreaElement>) => {
+    // Let a click on a suggestion land before the list goes away
+    setTimeout(closeSuggestions, 150);
+    onBlur?.(e);
+  };
+
+  return (
+    <div className={`relative ${containerClassName ?? ''}`}>
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        onClick={(e) => detectQuery(e.currentTarget)}
+      />
+
+      {suggestions.length > 0 && (
+        <div className="absolute bottom-full left-0 z-50 mb-1 w-64 max-w-full rounded-md border bg-popover shadow-md animate-fade-in">
+          {suggestions.map((profile, index) => (
+            <button
+              key={profile.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectSuggestion(profile)}
+              className={`flex w-full items-center gap-2 px-2 py-1.5 text-left transition-colors ${
+                index === activeIndex ? 'bg-muted' : 'hover:bg-muted/50'
+              }`}
+            >
+              <Avatar className="w-6 h-6">
+                {profile.avatar ? (
+                  <AvatarImage src={profile.avatar} alt={profile.name} />
+                ) : (
+                  <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-xs">
+                    {profile.name.substring(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                )}
+              </Avatar>
+              <div className="min-w-0">
+                <p className="font-pixelated text-xs font-medium truncate">{profile.name}</p>
+                <p className="font-pixelated text-xs text-muted-foreground truncate">@{profile.username}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React, { useEffect } from 'react';
+import { usePresence } from '@/hooks/use-presence';
+import { formatLastSeen } from '@/utils/presenceUtils';
+import { cn } from '@/lib/utils';
+
+interface PresenceDotProps {
+  userId: string;
+  // Place inside a relatively positioned wrapper around the avatar
+  className?: string;
+}
+
+// Keeps the user's presence channel joined while it's on screen
+const useWatchPresence = (userId: string) => {
+  const watch = usePresence(state => state.watch);
+  useEffect(() => watch(userId), [watch, userId]);
+};
+
+export function PresenceDot({ userId, className = '' }: PresenceDotProps) {
+  useWatchPresence(userId);
+  const online = usePresence(state => state.onlineUserIds.has(userId));
+
+  if (!online) return null;
+
+  return (
+    <span
+      className={cn('absolute bottom-0 right-0 block h-3 w-3 rounded-full bg-social-green border-2 border-background', className)}
+      aria-label="Online"
+      title="Online"
+    />
+  );
+}
+
+interface PresenceStatusProps {
+  userId: string;
+  lastSeenAt: string | null | undefined;
+  className?: string;
+}
+
+// "Online" while the user is connected, otherwise when they were last seen if they share it
+export function PresenceStatus({ userId, lastSeenAt, className = '' }: PresenceStatusProps) {
+  useWatchPresence(userId);
+  const online = usePresence(state => state.onlineUserIds.has(userId));
+  const label = online ? 'Online' : formatLastSeen(lastSeenAt);
+
+  if (!label) return null;
+
+  return (
+    <p className={`font-pixelated text-xs ${online ? 'text-social-green' : 'text-muted-foreground'} ${className}`}>
+      {label}
+    </p>
+  );
+}
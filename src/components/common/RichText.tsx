@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { HASHTAG_REGEX, normalizeTag } from '@/utils/hashtagUtils';
+import {
+  MENTION_TOKEN_REGEX,
+  MentionProfile,
+  fetchMentionProfiles,
+  getCachedMentionProfiles,
+  getMentionedUserIds
+} from '@/utils/mentionUtils';
+import { URL_REGEX } from '@/utils/linkUtils';
+
+interface RichTextProps {
+  content: string;
+  className?: string;
+  // Opens the mentioned user's profile; mentions render as plain text without it
+  onMentionClick?: (userId: string) => void;
+}
+
+interface Token {
+  start: number;
+  end: number;
+  node: (key: string) => React.ReactNode;
+}
+
+export function RichText({ content, className, onMentionClick }: RichTextProps) {
+  const mentionedIds = useMemo(() => getMentionedUserIds(content), [content]);
+  const [profiles, setProfiles] = useState<Record<string, MentionProfile>>(
+    () => getCachedMentionProfiles(mentionedIds)
+  );
+
+  useEffect(() => {
+    if (mentionedIds.length === 0) return;
+
+    let cancelled = false;
+    fetchMentionProfiles(mentionedIds)
+      .then(result => {
+        if (!cancelled) setProfiles(result);
+      })
+      .catch(error => console.error('Error fetching mentioned profiles:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mentionedIds]);
+
+  const tokens: Token[] = [];
+
+  for (const match of content.matchAll(HASHTAG_REGEX)) {
+    // Keep the leading whitespace as plain text, link only the #tag
+    const start = match.index + match[1].length;
+    const tag = match[2];
+
+    tokens.push({
+      start,
+      end: start + tag.length + 1,
+      node: (key) => (
+        <Link
+          key={key}
+          to={`/tags/${encodeURIComponent(normalizeTag(tag))}`}
+          className="text-social-blue hover:underline"
+          onClick={(e) => e.stopPropagation()}
+        >
+          #{tag}
+        </Link>
+      )
+    });
+  }
+
+  for (const match of content.matchAll(MENTION_TOKEN_REGEX)) {
+    const userId = match[2].toLowerCase();
+    // Current username wins over the one stored when the mention was written
+    const username = profiles[userId]?.username ?? match[1];
+
+    tokens.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      node: (key) => onMentionClick ? (
+        <button
+          key={key}
+          type="button"
+          className="text-social-blue hover:underline"
+          onClick={(e) => {
+            e.stopPropagation();
+            onMentionClick(userId);
+          }}
+        >
+          @{username}
+        </button>
+      ) : (
+        <span key={key} className="text-social-blue">@{username}</span>
+      )
+    });
+  }
+
+  for (const match of content.matchAll(URL_REGEX)) {
+    const url = match[0];
+
+    tokens.push({
+      start: match.index,
+      end: match.index + url.length,
+      node: (key) => (
+        <a
+          key={key}
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="text-social-blue hover:underline break-all"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {url}
+        </a>
+      )
+    });
+  }
+
+  tokens.sort((a, b) => a.start - b.start);
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  tokens.forEach(token => {
+    // A hashtag inside a mention label is part of the mention
+    if (token.start < lastIndex) return;
+
+    if (token.start > lastIndex) {
+      parts.push(content.slice(lastIndex, token.start));
+    }
+    parts.push(token.node(`${token.start}`));
+    lastIndex = token.end;
+  });
+
+  if (lastIndex < content.length) {
+    parts.push(content.slice(lastIndex));
+  }
+
+  return (
+    <p className={className}>
+      {parts}
+    </p>
+  );
+}
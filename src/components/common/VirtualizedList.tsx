@@ -0,0 +1,219 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import {
+  AutoSizer,
+  CellMeasurer,
+  CellMeasurerCache,
+  List,
+  ListRowProps,
+  WindowScroller,
+} from 'react-virtualized';
+
+interface ScrollPosition {
+  scrollTop: number;
+  scrollHeight: number;
+  clientHeight: number;
+}
+
+interface VirtualizedListProps<T> {
+  items: T[];
+  getItemKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  estimatedItemHeight?: number;
+  // Scrolling ancestor (e.g. a ScrollArea viewport). When omitted the list scrolls itself and fills its parent.
+  scrollElement?: Element | null;
+  scrollToIndex?: number;
+  scrollToAlignment?: 'auto' | 'start' | 'end' | 'center';
+  onScroll?: (position: ScrollPosition) => void;
+  // Keep the anchor even when scrolled to the very top, for lists that load older items upwards
+  anchorAtTop?: boolean;
+  rowClassName?: string;
+  className?: string;
+}
+
+interface MeasuredRowProps {
+  onResize: () => void;
+  children: React.ReactNode;
+}
+
+// Re-measures a row whenever its content changes size (images loading, comments expanding)
+function MeasuredRow({ onResize, children }: MeasuredRowProps) {
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = rowRef.current;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+
+    let lastHeight = element.offsetHeight;
+    const observer = new ResizeObserver(() => {
+      if (element.offsetHeight !== lastHeight) {
+        lastHeight = element.offsetHeight;
+        onResize();
+      }
+    });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onResize]);
+
+  return <div ref={rowRef}>{children}</div>;
+}
+
+export function VirtualizedList<T>({
+  items,
+  getItemKey,
+  renderItem,
+  estimatedItemHeight = 120,
+  scrollElement,
+  scrollToIndex,
+  scrollToAlignment = 'auto',
+  onScroll,
+  anchorAtTop = false,
+  rowClassName,
+  className,
+}: VirtualizedListProps<T>) {
+  const listRef = useRef<List>(null);
+  const windowScrollerRef = useRef<WindowScroller>(null);
+  const itemsRef = useRef(items);
+  const getItemKeyRef = useRef(getItemKey);
+  const keysRef = useRef<string[]>([]);
+  const scrollTopRef = useRef(0);
+  const widthRef = useRef(0);
+
+  itemsRef.current = items;
+  getItemKeyRef.current = getItemKey;
+
+  // Heights are cached per item key so they survive items being prepended
+  const cache = useMemo(
+    () =>
+      new CellMeasurerCache({
+        fixedWidth: true,
+        defaultHeight: estimatedItemHeight,
+        keyMapper: (rowIndex: number) => {
+          const item = itemsRef.current[rowIndex];
+          return item ? getItemKeyRef.current(item) : rowIndex;
+        },
+      }),
+    [estimatedItemHeight]
+  );
+
+  // Keep the visible content in place when new items arrive at the top
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    const previousKeys = keysRef.current;
+    const keys = items.map(getItemKeyRef.current);
+    keysRef.current = keys;
+
+    if (!list) return;
+    list.recomputeRowHeights();
+
+    if (previousKeys.length === 0 || (scrollTopRef.current <= 0 && !anchorAtTop)) return;
+
+    // Leading rows can stay put while items are inserted below them (a date header
+    // over older messages of the same day), so anchor on the first row that moved
+    let anchor = 0;
+    while (anchor < previousKeys.length && previousKeys[anchor] === keys[anchor]) {
+      anchor++;
+    }
+    if (anchor >= previousKeys.length) return;
+
+    const shiftedTo = keys.indexOf(previousKeys[anchor]);
+    if (shiftedTo <= anchor) return;
+
+    const addedHeight =
+      list.getOffsetForRow({ alignment: 'start', index: shiftedTo }) -
+      list.getOffsetForRow({ alignment: 'start', index: anchor });
+
+    if (scrollElement) {
+      scrollElement.scrollTop += addedHeight;
+    } else {
+      list.scrollToPosition(scrollTopRef.current + addedHeight);
+    }
+  }, [items, scrollElement, anchorAtTop]);
+
+  // Content above the list can change height (composer, stories), so keep the offset fresh
+  useEffect(() => {
+    const content = scrollElement?.firstElementChild;
+    if (!content || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => windowScrollerRef.current?.updatePosition());
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, [scrollElement]);
+
+  const handleResize = ({ width }: { width: number }) => {
+    if (widthRef.current !== width) {
+      widthRef.current = width;
+      cache.clearAll();
+      listRef.current?.recomputeRowHeights();
+    }
+  };
+
+  const rowRenderer = ({ index, key, parent, style }: ListRowProps) => (
+    <CellMeasurer cache={cache} columnIndex={0} key={key} parent={parent} rowIndex={index}>
+      {({ measure, registerChild }) => (
+        <div ref={registerChild as (element: HTMLDivElement | null) => void} style={style} className={rowClassName}>
+          <MeasuredRow onResize={measure}>
+            {renderItem(items[index], index)}
+          </MeasuredRow>
+        </div>
+      )}
+    </CellMeasurer>
+  );
+
+  if (scrollElement !== undefined) {
+    return (
+      <WindowScroller ref={windowScrollerRef} scrollElement={scrollElement ?? undefined}>
+        {({ height, isScrolling, registerChild, onChildScroll, scrollTop }) => (
+          <AutoSizer disableHeight onResize={handleResize}>
+            {({ width }) => (
+              <div ref={registerChild} className={className}>
+                <List
+                  ref={listRef}
+                  autoHeight
+                  height={height || 0}
+                  width={width}
+                  isScrolling={isScrolling}
+                  scrollTop={scrollTop}
+                  onScroll={(position: ScrollPosition) => {
+                    scrollTopRef.current = position.scrollTop;
+                    onChildScroll(position);
+                    onScroll?.(position);
+                  }}
+                  rowCount={items.length}
+                  rowHeight={cache.rowHeight}
+                  deferredMeasurementCache={cache}
+                  rowRenderer={rowRenderer}
+                  overscanRowCount={3}
+                />
+              </div>
+            )}
+          </AutoSizer>
+        )}
+      </WindowScroller>
+    );
+  }
+
+  return (
+    <AutoSizer onResize={handleResize}>
+      {({ width, height }) => (
+        <List
+          ref={listRef}
+          className={className}
+          height={height}
+          width={width}
+          onScroll={(position: ScrollPosition) => {
+            scrollTopRef.current = position.scrollTop;
+            onScroll?.(position);
+          }}
+          scrollToIndex={scrollToIndex}
+          scrollToAlignment={scrollToAlignment}
+          rowCount={items.length}
+          rowHeight={cache.rowHeight}
+          deferredMeasurementCache={cache}
+          rowRenderer={rowRenderer}
+          overscanRowCount={5}
+        />
+      )}
+    </AutoSizer>
+  );
+}
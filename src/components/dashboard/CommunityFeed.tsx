@@ -2,17 +2,23 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
-import { Heart, MessageCircle, Send, MoreVertical, Edit, Trash2, ArrowUp, ChevronDown, ChevronUp, MessageSquareOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Heart, MessageCircle, Send, MoreVertical, Edit, Trash2, ArrowUp, ChevronDown, ChevronUp, MessageSquareOff, Globe, Users, Reply, Link2, Lock, SearchX, Bookmark as BookmarkIcon, BookmarkX, FolderPlus, Repeat2, Quote, AlertTriangle } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { ImageViewer } from '@/components/ui/image-viewer';
+import { ToastAction } from '@/components/ui/toast';
+import { ImageViewer, ViewerImage } from '@/components/ui/image-viewer';
 import { UserProfileDialog } from '@/components/user/UserProfileDialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -25,35 +31,75 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { useLocation } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useInView } from 'react-intersection-observer';
+import { VirtualizedList } from '@/components/common/VirtualizedList';
+import { PostVideo } from '@/components/dashboard/PostVideo';
+import { PostImageCarousel, PostImage } from '@/components/dashboard/PostImageCarousel';
+import { PostPoll, Poll } from '@/components/dashboard/PostPoll';
+import { SharedPostCard, SharedPost } from '@/components/dashboard/SharedPostCard';
+import { QuotePostDialog } from '@/components/dashboard/QuotePostDialog';
+import { PostHistoryDialog } from '@/components/dashboard/PostHistoryDialog';
+import { ContentWarning, SensitiveMediaCover } from '@/components/dashboard/ContentWarning';
+import { RichText } from '@/components/common/RichText';
+import { LinkPreviewCard } from '@/components/common/LinkPreviewCard';
+import { MentionTextarea } from '@/components/common/MentionTextarea';
+import { serializeMentions, mentionsToPlainText } from '@/utils/mentionUtils';
+import { NewCollectionDialog } from '@/components/dashboard/NewCollectionDialog';
+import { useBookmarkCollections } from '@/hooks/use-bookmark-collections';
+import { useSensitiveContent } from '@/hooks/use-sensitive-content';
+import { ReactionPicker } from '@/components/dashboard/ReactionPicker';
+import { ReactionsDialog } from '@/components/dashboard/ReactionsDialog';
+import { ReactionType, getReactionSummary } from '@/utils/reactionUtils';
+import { getFirstUrl } from '@/utils/linkUtils';
+import type { Json } from '@/integrations/supabase/types';
 
 interface Post {
   id: string;
   content: string;
   image_url: string | null;
+  images: Json;
+  video_url: string | null;
+  video_poster_url: string | null;
   created_at: string;
+  // Set by the database on every content edit
+  edited_at: string | null;
+  // Short label the post is collapsed behind, null when it is not sensitive
+  content_warning: string | null;
   user_id: string;
   comments_disabled: boolean;
+  visibility: string;
+  likes_count: number;
+  reaction_counts: Json;
+  comments_count: number;
   profiles: {
     name: string;
     username: string;
     avatar: string | null;
   };
-  likes: { id: string; user_id: string }[];
-  comments: {
-    id: string;
-    content: string;
-    created_at: string;
-    user_id: string;
-    profiles: {
-      name: string;
-      avatar: string | null;
-    };
-  }[];
-  _count?: {
-    likes: number;
-    comments: number;
-  };
+  polls: Poll | null;
+  // Reposts and quotes keep their share_type after the original is deleted
+  share_type: string | null;
+  shared_post_id: string | null;
+  // Set while the shared post is in its author's trash, it is hidden but not purged yet
+  shared_post_deleted: boolean;
+  shared_post: SharedPost | null;
+  my_reaction: ReactionType | null;
+  saved_by_me: boolean;
+  // Option ids the current user voted for when the post has a poll
+  my_poll_votes: string[];
+  // Loaded on demand when the comments section is expanded
+  comments?: Comment[];
+  // Set when the feed lists the user's saved posts
+  bookmark?: Bookmark;
+  // Saved post the viewer can no longer see, e.g. after the author restricted it
+  unavailable?: boolean;
+}
+
+interface Bookmark {
+  id: string;
+  created_at: string;
+  collection_id: string | null;
 }
 
 interface Comment {
@@ -61,41 +107,418 @@ interface Comment {
   content: string;
   created_at: string;
   user_id: string;
+  parent_id: string | null;
+  likes_count: number;
+  replies_count: number;
   profiles: {
     name: string;
     avatar: string | null;
   };
+  liked_by_me: boolean;
+  // Loaded a page at a time when the thread is expanded
+  replies?: Comment[];
+  has_more_replies?: boolean;
+}
+
+const PAGE_SIZE = 10;
+const REPLY_PAGE_SIZE = 3;
+// Replies below this depth join their parent's thread instead of nesting further
+const MAX_THREAD_DEPTH = 2;
+
+// Post columns and embeds, the tagged and saved selects build on it so every feed gets new columns
+const POST_SELECT = `
+  id,
+  content,
+  image_url,
+  images,
+  video_url,
+  video_poster_url,
+  created_at,
+  user_id,
+  comments_disabled,
+  visibility,
+  likes_count,
+  reaction_counts,
+  comments_count,
+  edited_at,
+  content_warning,
+  share_type,
+  shared_post_deleted,
+  shared_post_id,
+  profiles:user_id (
+    name,
+    username,
+    avatar
+  ),
+  shared_post:shared_post_id (
+    id,
+    content,
+    image_url,
+    images,
+    video_url,
+    video_poster_url,
+    created_at,
+    user_id,
+    visibility,
+    content_warning,
+    profiles:user_id (
+      name,
+      username,
+      avatar
+    )
+  ),
+  polls (
+    id,
+    allow_multiple,
+    hide_results,
+    closes_at,
+    poll_options (
+      id,
+      position,
+      label,
+      poll_option_results (
+        votes_count
+      )
+    )
+  )
+`;
+
+// Same columns, inner-joined to hashtags so a tag filter can be applied
+const TAGGED_POST_SELECT = `
+  ${POST_SELECT},
+  post_hashtags!inner (
+    tag
+  )
+`;
+
+// The user's bookmarks with the post embedded, the post is null when RLS hides it
+const SAVED_POST_SELECT = `
+  id,
+  post_id,
+  collection_id,
+  created_at,
+  posts (
+    ${POST_SELECT}
+  )
+`;
+
+const COMMENT_SELECT = `
+  id,
+  content,
+  created_at,
+  user_id,
+  parent_id,
+  likes_count,
+  replies_count,
+  profiles!comments_user_id_fkey (
+    name,
+    avatar
+  )
+`;
+
+// Ordered images for a post, falling back to the single image_url of older posts
+const getPostImages = (post: Post): PostImage[] => {
+  if (Array.isArray(post.images) && post.images.length > 0) {
+    return (post.images as unknown as PostImage[]).filter(image => image?.url);
+  }
+  return post.image_url ? [{ url: post.image_url, alt: '' }] : [];
+};
+
+const isSensitivePost = (post: Post) =>
+  !!post.content_warning || getPostImages(post).some(image => image.sensitive);
+
+const updateCommentInTree = (
+  comments: Comment[],
+  commentId: string,
+  update: (comment: Comment) => Comment
+): Comment[] =>
+  comments.map(comment => {
+    if (comment.id === commentId) return update(comment);
+    if (comment.replies) {
+      return { ...comment, replies: updateCommentInTree(comment.replies, commentId, update) };
+    }
+    return comment;
+  });
+
+const removeCommentFromTree = (comments: Comment[], commentId: string): Comment[] =>
+  comments
+    .filter(comment => comment.id !== commentId)
+    .map(comment =>
+      comment.replies
+        ? { ...comment, replies: removeCommentFromTree(comment.replies, commentId) }
+        : comment
+    );
+
+// Put a comment back at its old position, under its parent when it was a reply
+const insertCommentInTree = (
+  comments: Comment[],
+  parentId: string | null,
+  index: number,
+  inserted: Comment
+): Comment[] => {
+  if (!parentId) {
+    const next = comments.filter(comment => comment.id !== inserted.id);
+    next.splice(Math.min(index, next.length), 0, inserted);
+    return next;
+  }
+
+  return updateCommentInTree(comments, parentId, parent => ({
+    ...parent,
+    replies: parent.replies && insertCommentInTree(parent.replies, null, index, inserted),
+    replies_count: parent.replies_count + 1
+  }));
+};
+
+const findCommentInTree = (comments: Comment[], commentId: string): Comment | undefined => {
+  for (const comment of comments) {
+    if (comment.id === commentId) return comment;
+    const match = comment.replies && findCommentInTree(comment.replies, commentId);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+// Replace a poll's vote counts, options missing from the results go back to hidden
+const withPollResults = (poll: Poll, results: { option_id: string; votes_count: number }[]): Poll => {
+  const votesByOption = new Map(results.map(result => [result.option_id, result.votes_count]));
+  return {
+    ...poll,
+    poll_options: poll.poll_options.map(option => ({
+      ...option,
+      poll_option_results: votesByOption.has(option.id) ? { votes_count: votesByOption.get(option.id) } : null
+    }))
+  };
+};
+
+interface CommunityFeedProps {
+  // Only show posts carrying this hashtag (lowercase, without the #)
+  tag?: string;
+  // Show this single post with its comments open, e.g. on its permalink page
+  postId?: string;
+  // List the current user's saved posts instead, newest bookmark first
+  saved?: boolean;
+  // Narrow the saved posts to one collection
+  collectionId?: string;
 }
 
-export function CommunityFeed() {
+// Placeholder for a bookmark whose post the viewer can't load anymore
+const unavailablePost = (postId: string, bookmark: Bookmark): Post => ({
+  id: postId,
+  content: '',
+  image_url: null,
+  images: [],
+  video_url: null,
+  video_poster_url: null,
+  created_at: bookmark.created_at,
+  edited_at: null,
+  content_warning: null,
+  user_id: '',
+  comments_disabled: true,
+  visibility: 'friends',
+  likes_count: 0,
+  reaction_counts: {},
+  comments_count: 0,
+  profiles: null,
+  polls: null,
+  share_type: null,
+  shared_post_id: null,
+  shared_post_deleted: false,
+  shared_post: null,
+  my_reaction: null,
+  saved_by_me: true,
+  my_poll_votes: [],
+  bookmark,
+  unavailable: true
+});
+
+export function CommunityFeed({ tag, postId: singlePostId, saved, collectionId }: CommunityFeedProps = {}) {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  // Scrolling doesn't retry a failed page on its own, the sentinel offers a retry instead
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [viewerState, setViewerState] = useState<{ images: ViewerImage[]; index: number } | null>(null);
   const [commentInputs, setCommentInputs] = useState<{ [key: string]: string }>({});
   const [submittingComments, setSubmittingComments] = useState<{ [key: string]: boolean }>({});
   const [editingPost, setEditingPost] = useState<string | null>(null);
   const [editContent, setEditContent] = useState('');
+  const [editWarning, setEditWarning] = useState('');
+  const [revealedPosts, setRevealedPosts] = useState<{ [key: string]: boolean }>({});
   const [deletePostId, setDeletePostId] = useState<string | null>(null);
   const [deleteCommentId, setDeleteCommentId] = useState<string | null>(null);
   const [deleteCommentContext, setDeleteCommentContext] = useState<{ postId: string; isPostOwner: boolean } | null>(null);
   const [showScrollTop, setShowScrollTop] = useState(false);
   const [likingPosts, setLikingPosts] = useState<{ [key: string]: boolean }>({});
+  const [likingComments, setLikingComments] = useState<{ [key: string]: boolean }>({});
+  const [expandedReplies, setExpandedReplies] = useState<{ [key: string]: boolean }>({});
+  const [loadingReplies, setLoadingReplies] = useState<{ [key: string]: boolean }>({});
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyInputs, setReplyInputs] = useState<{ [key: string]: string }>({});
+  const [submittingReplies, setSubmittingReplies] = useState<{ [key: string]: boolean }>({});
   const [expandedComments, setExpandedComments] = useState<{ [key: string]: boolean }>({});
   const [showCommentBox, setShowCommentBox] = useState<{ [key: string]: boolean }>({});
   const [selectedUser, setSelectedUser] = useState<any>(null);
   const [showUserDialog, setShowUserDialog] = useState(false);
+  const [scrollElement, setScrollElement] = useState<Element | null>(null);
+  const [missingPost, setMissingPost] = useState<'not_found' | 'no_access' | null>(null);
+  const [savingPosts, setSavingPosts] = useState<{ [key: string]: boolean }>({});
+  const [newCollectionPostId, setNewCollectionPostId] = useState<string | null>(null);
+  const [reactionsPostId, setReactionsPostId] = useState<string | null>(null);
+  const [votingPolls, setVotingPolls] = useState<{ [key: string]: boolean }>({});
+  const [repostingPosts, setRepostingPosts] = useState<{ [key: string]: boolean }>({});
+  const [quotedPost, setQuotedPost] = useState<SharedPost | null>(null);
+  const [historyPostId, setHistoryPostId] = useState<string | null>(null);
+  const { collections, fetchCollections } = useBookmarkCollections();
+  const { preference: sensitivePreference, fetchPreference: fetchSensitivePreference } = useSensitiveContent();
   const feedRef = useRef<HTMLDivElement>(null);
+  const postsRef = useRef<Post[]>([]);
+  const openedPostRef = useRef<string | null>(null);
+  // Post of each of the user's likes, unlike events only carry the like id
+  const likePostIdsRef = useRef(new Map<string, string>());
   const location = useLocation();
+  const navigate = useNavigate();
   const { toast } = useToast();
+  const { ref: loadMoreRef, inView: loadMoreInView } = useInView({ rootMargin: '400px' });
 
   const isHomePage = location.pathname === '/dashboard';
 
-  const toggleComments = (postId: string) => {
-    setExpandedComments(prev => ({
-      ...prev,
-      [postId]: !prev[postId]
+  useEffect(() => {
+    postsRef.current = posts;
+  }, [posts]);
+
+  const updatePostComments = useCallback((postId: string, update: (comments: Comment[]) => Comment[]) => {
+    setPosts(prevPosts =>
+      prevPosts.map(post =>
+        post.id === postId && post.comments
+          ? { ...post, comments: update(post.comments) }
+          : post
+      )
+    );
+  }, []);
+
+  // Attach the current user's like state to a batch of comments in one query
+  const withCommentLikeState = useCallback(async (rows: Omit<Comment, 'liked_by_me'>[]): Promise<Comment[]> => {
+    if (!currentUser || rows.length === 0) {
+      return rows.map(comment => ({ ...comment, liked_by_me: false }));
+    }
+
+    const { data: myLikes } = await supabase
+      .from('comment_likes')
+      .select('comment_id')
+      .eq('user_id', currentUser.id)
+      .in('comment_id', rows.map(comment => comment.id));
+
+    const likedCommentIds = new Set((myLikes || []).map(like => like.comment_id));
+
+    return rows.map(comment => ({
+      ...comment,
+      liked_by_me: likedCommentIds.has(comment.id)
     }));
+  }, [currentUser]);
+
+  // Top-level comments only, replies are paged in per thread
+  const fetchComments = useCallback(async (postId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('comments')
+        .select(COMMENT_SELECT)
+        .eq('post_id', postId)
+        .is('parent_id', null)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const comments = await withCommentLikeState(data || []);
+
+      setPosts(prevPosts =>
+        prevPosts.map(post =>
+          post.id === postId ? { ...post, comments } : post
+        )
+      );
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    }
+  }, [withCommentLikeState]);
+
+  const fetchReplies = useCallback(async (postId: string, parentId: string, offset: number) => {
+    try {
+      setLoadingReplies(prev => ({ ...prev, [parentId]: true }));
+
+      // Ask for one extra row to learn whether another page exists
+      const { data, error } = await supabase
+        .from('comments')
+        .select(COMMENT_SELECT)
+        .eq('parent_id', parentId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + REPLY_PAGE_SIZE);
+
+      if (error) throw error;
+
+      const rows = data || [];
+      const replies = await withCommentLikeState(rows.slice(0, REPLY_PAGE_SIZE));
+
+      updatePostComments(postId, comments =>
+        updateCommentInTree(comments, parentId, comment => {
+          const existing = comment.replies || [];
+          const existingIds = new Set(existing.map(reply => reply.id));
+          return {
+            ...comment,
+            replies: [...existing, ...replies.filter(reply => !existingIds.has(reply.id))],
+            has_more_replies: rows.length > REPLY_PAGE_SIZE
+          };
+        })
+      );
+    } catch (error) {
+      console.error('Error fetching replies:', error);
+    } finally {
+      setLoadingReplies(prev => ({ ...prev, [parentId]: false }));
+    }
+  }, [withCommentLikeState, updatePostComments]);
+
+  // Single comment lookup for rows announced over realtime
+  const fetchComment = useCallback(async (commentId: string): Promise<Comment | null> => {
+    const { data, error } = await supabase
+      .from('comments')
+      .select(COMMENT_SELECT)
+      .eq('id', commentId)
+      .maybeSingle();
+
+    if (error || !data) return null;
+
+    const [comment] = await withCommentLikeState([data]);
+    return comment;
+  }, [withCommentLikeState]);
+
+  const toggleReplies = (postId: string, comment: Comment) => {
+    if (expandedReplies[comment.id]) {
+      setExpandedReplies(prev => ({ ...prev, [comment.id]: false }));
+      return;
+    }
+
+    setExpandedReplies(prev => ({ ...prev, [comment.id]: true }));
+    if (!comment.replies) {
+      fetchReplies(postId, comment.id, 0);
+    }
+  };
+
+  const expandComments = (postId: string) => {
+    setExpandedComments(prev => ({ ...prev, [postId]: true }));
+
+    const post = posts.find(p => p.id === postId);
+    if (post && !post.comments) {
+      fetchComments(postId);
+    }
+  };
+
+  const toggleComments = (postId: string) => {
+    if (expandedComments[postId]) {
+      setExpandedComments(prev => ({ ...prev, [postId]: false }));
+    } else {
+      expandComments(postId);
+    }
   };
 
   const toggleCommentBox = (postId: string) => {
@@ -106,13 +529,9 @@ export function CommunityFeed() {
     
     // Auto-expand comments when showing comment box
     if (!showCommentBox[postId]) {
-      setExpandedComments(prev => ({
-        ...prev,
-        [postId]: true
-      }));
+      expandComments(postId);
     }
   };
-
   const handleUserClick = async (userId: string, username: string) => {
     try {
       const { data: userProfile, error } = await supabase
@@ -137,105 +556,152 @@ export function CommunityFeed() {
     }
   };
 
-  // Silent background fetch without loading states
-  const fetchPostsInBackground = useCallback(async () => {
-    try {
-      const { data, error } = await supabase
+  // Attach the current user's reaction, saved state and poll votes to a page of posts
+  const withViewerState = useCallback(async (rows: Omit<Post, 'my_reaction' | 'saved_by_me' | 'my_poll_votes'>[], userId: string | undefined): Promise<Post[]> => {
+    if (!userId || rows.length === 0) {
+      return rows.map(post => ({ ...post, my_reaction: null, saved_by_me: false, my_poll_votes: [] }));
+    }
+
+    const postIds = rows.map(post => post.id);
+    const pollIds = rows.filter(post => post.polls).map(post => post.polls.id);
+    const [{ data: myLikes }, { data: myBookmarks }, { data: myVotes }] = await Promise.all([
+      supabase
+        .from('likes')
+        .select('id, post_id, reaction_type')
+        .eq('user_id', userId)
+        .in('post_id', postIds),
+      supabase
+        .from('bookmarks')
+        .select('post_id')
+        .eq('user_id', userId)
+        .in('post_id', postIds),
+      pollIds.length > 0
+        ? supabase
+            .from('poll_votes')
+            .select('poll_id, option_id')
+            .eq('user_id', userId)
+            .in('poll_id', pollIds)
+        : Promise.resolve({ data: [] })
+    ]);
+
+    const myReactions = new Map((myLikes || []).map(like => [like.post_id, like.reaction_type as ReactionType]));
+    (myLikes || []).forEach(like => likePostIdsRef.current.set(like.id, like.post_id));
+    const savedPostIds = new Set((myBookmarks || []).map(bookmark => bookmark.post_id));
+
+    return rows.map(post => ({
+      ...post,
+      my_reaction: myReactions.get(post.id) ?? null,
+      saved_by_me: savedPostIds.has(post.id),
+      my_poll_votes: (myVotes || [])
+        .filter(vote => vote.poll_id === post.polls?.id)
+        .map(vote => vote.option_id)
+    }));
+  }, []);
+
+  // Keyset pagination over the user's bookmarks on (created_at, id), newest first
+  const fetchSavedPage = useCallback(async (cursor: Post | null, userId: string | undefined) => {
+    if (!userId) return [];
+
+    let query = supabase
+      .from('bookmarks')
+      .select(SAVED_POST_SELECT)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (collectionId) {
+      query = query.eq('collection_id', collectionId);
+    }
+
+    if (cursor?.bookmark) {
+      query = query.or(
+        `created_at.lt."${cursor.bookmark.created_at}",and(created_at.eq."${cursor.bookmark.created_at}",id.lt.${cursor.bookmark.id})`
+      );
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const rows = data || [];
+    const visiblePosts = await withViewerState(
+      rows.filter(row => row.posts).map(row => row.posts),
+      userId
+    );
+    const postsById = new Map(visiblePosts.map(post => [post.id, post]));
+
+    return rows.map(row => {
+      const bookmark = { id: row.id, created_at: row.created_at, collection_id: row.collection_id };
+      const post = postsById.get(row.post_id);
+      return post ? { ...post, bookmark } : unavailablePost(row.post_id, bookmark);
+    });
+  }, [collectionId, withViewerState]);
+
+  // Posts shown by this feed, narrowed to the tag or single post when one is given
+  const selectPosts = useCallback(() => {
+    if (tag) {
+      return supabase
         .from('posts')
-        .select(`
-          id,
-          content,
-          image_url,
-          created_at,
-          user_id,
-          comments_disabled,
-          profiles:user_id (
-            name,
-            username,
-            avatar
-          ),
-          likes (
-            id,
-            user_id
-          ),
-          comments (
-            id,
-            content,
-            created_at,
-            user_id,
-            profiles:user_id (
-              name,
-              avatar
-            )
-          )
-        `)
-        .order('created_at', { ascending: false });
+        .select(TAGGED_POST_SELECT)
+        .eq('post_hashtags.tag', tag);
+    }
 
-      if (error) throw error;
+    if (singlePostId) {
+      return supabase
+        .from('posts')
+        .select(POST_SELECT)
+        .eq('id', singlePostId);
+    }
 
-      const formattedPosts = data?.map(post => ({
-        ...post,
-        _count: {
-          likes: post.likes?.length || 0,
-          comments: post.comments?.length || 0
-        }
-      })) || [];
+    return supabase
+      .from('posts')
+      .select(POST_SELECT);
+  }, [tag, singlePostId]);
 
-      // Smoothly update posts without any loading indicators
-      setPosts(formattedPosts);
-    } catch (error) {
-      console.error('Background fetch error:', error);
-      // Don't show error toast for background updates to avoid interrupting user
+  // Keyset pagination on (created_at, id), newest first
+  const fetchPage = useCallback(async (cursor: Post | null, userId: string | undefined) => {
+    if (saved) {
+      return fetchSavedPage(cursor, userId);
+    }
+
+    let query = selectPosts()
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (cursor) {
+      query = query.or(
+        `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+      );
     }
-  }, []);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return withViewerState(data || [], userId);
+  }, [saved, fetchSavedPage, selectPosts, withViewerState]);
 
   // Initial fetch with loading state (only on first load)
   const fetchPosts = useCallback(async () => {
     try {
       setLoading(true);
 
-      const { data, error } = await supabase
-        .from('posts')
-        .select(`
-          id,
-          content,
-          image_url,
-          created_at,
-          user_id,
-          comments_disabled,
-          profiles:user_id (
-            name,
-            username,
-            avatar
-          ),
-          likes (
-            id,
-            user_id
-          ),
-          comments (
-            id,
-            content,
-            created_at,
-            user_id,
-            profiles:user_id (
-              name,
-              avatar
-            )
-          )
-        `)
-        .order('created_at', { ascending: false });
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUser(user);
 
-      if (error) throw error;
+      const firstPage = await fetchPage(null, user?.id);
 
-      const formattedPosts = data?.map(post => ({
-        ...post,
-        _count: {
-          likes: post.likes?.length || 0,
-          comments: post.comments?.length || 0
-        }
-      })) || [];
+      setPosts(firstPage);
+      setHasMore(!singlePostId && firstPage.length === PAGE_SIZE);
+      setLoadMoreFailed(false);
 
-      setPosts(formattedPosts);
+      if (singlePostId && firstPage.length === 0) {
+        // RLS hides posts the viewer can't see, ask whether it exists at all
+        const { data: exists } = await supabase.rpc('post_exists', { post_uuid: singlePostId });
+        setMissingPost(exists ? 'no_access' : 'not_found');
+      }
     } catch (error) {
       console.error('Error fetching posts:', error);
       toast({
@@ -246,86 +712,294 @@ export function CommunityFeed() {
     } finally {
       setLoading(false);
     }
-  }, [toast]);
+  }, [fetchPage, singlePostId, toast]);
 
-  const getCurrentUser = useCallback(async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    setCurrentUser(user);
-  }, []);
+  // Silent fetch of the next page when the user nears the end of the feed
+  const fetchMorePosts = useCallback(async () => {
+    const cursor = postsRef.current[postsRef.current.length - 1];
+    if (!cursor) return;
+
+    try {
+      setLoadingMore(true);
+      setLoadMoreFailed(false);
+
+      const nextPage = await fetchPage(cursor, currentUser?.id);
+
+      setPosts(prevPosts => {
+        const existingIds = new Set(prevPosts.map(post => post.id));
+        return [...prevPosts, ...nextPage.filter(post => !existingIds.has(post.id))];
+      });
+      setHasMore(nextPage.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching more posts:', error);
+      setLoadMoreFailed(true);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, currentUser]);
+
+  // Fetch a single new post and put it at the top without refetching the feed
+  const prependPost = useCallback(async (postId: string) => {
+    // New posts are never saved yet
+    if (saved || postsRef.current.some(post => post.id === postId)) return;
+
+    try {
+      const { data, error } = await selectPosts()
+        .eq('id', postId)
+        .maybeSingle();
+
+      if (error) throw error;
+      // Not visible to the current user (RLS), outside this feed or already deleted
+      if (!data) return;
+
+      const [post] = await withViewerState([data], currentUser?.id);
 
-  const handleLike = async (postId: string) => {
+      setPosts(prevPosts =>
+        prevPosts.some(p => p.id === post.id) ? prevPosts : [post, ...prevPosts]
+      );
+    } catch (error) {
+      console.error('Error fetching new post:', error);
+    }
+  }, [saved, selectPosts, withViewerState, currentUser]);
+
+  // Trashing a post hides it from other viewers before they get its realtime update, so a failed
+  // interaction checks whether the post is still there and drops it when it isn't
+  const dropIfUnavailable = async (postId: string) => {
+    const { data, error } = await supabase
+      .from('posts')
+      .select('id')
+      .eq('id', postId)
+      .maybeSingle();
+
+    if (error || data) return false;
+
+    setPosts(prevPosts =>
+      saved
+        ? prevPosts.map(post => post.id === postId && post.bookmark ? unavailablePost(postId, post.bookmark) : post)
+        : prevPosts.filter(post => post.id !== postId)
+    );
+    toast({
+      variant: 'destructive',
+      title: 'Post unavailable',
+      description: 'This post was deleted or is no longer shared with you'
+    });
+    return true;
+  };
+
+  const handleReact = async (postId: string, type: ReactionType) => {
     if (!currentUser || likingPosts[postId]) return;
 
+    const post = posts.find(p => p.id === postId);
+    if (!post) return;
+
+    const previousReaction = post.my_reaction;
+    // Picking the current reaction again removes it
+    const nextReaction = previousReaction === type ? null : type;
+
+    const applyReaction = (from: ReactionType | null, to: ReactionType | null) => {
+      setPosts(prevPosts =>
+        prevPosts.map(p => {
+          if (p.id !== postId) return p;
+
+          const counts = { ...(p.reaction_counts as Record<string, number>) };
+          if (from) counts[from] = Math.max(0, (counts[from] || 0) - 1);
+          if (to) counts[to] = (counts[to] || 0) + 1;
+
+          return {
+            ...p,
+            my_reaction: to,
+            reaction_counts: counts,
+            likes_count: Math.max(0, p.likes_count + (to ? 1 : 0) - (from ? 1 : 0))
+          };
+        })
+      );
+    };
+
     try {
       setLikingPosts(prev => ({ ...prev, [postId]: true }));
 
-      const post = posts.find(p => p.id === postId);
-      if (!post) return;
-
-      const existingLike = post.likes.find(like => like.user_id === currentUser.id);
+      // Optimistic update, the realtime post update carries the real counts
+      applyReaction(previousReaction, nextReaction);
 
-      if (existingLike) {
-        // Unlike
+      if (!nextReaction) {
         const { error } = await supabase
           .from('likes')
           .delete()
-          .eq('id', existingLike.id);
+          .eq('post_id', postId)
+          .eq('user_id', currentUser.id);
 
         if (error) throw error;
+      } else if (previousReaction) {
+        const { error } = await supabase
+          .from('likes')
+          .update({ reaction_type: nextReaction })
+          .eq('post_id', postId)
+          .eq('user_id', currentUser.id);
 
-        // Optimistic update
-        setPosts(prevPosts =>
-          prevPosts.map(p =>
-            p.id === postId
-              ? {
-                  ...p,
-                  likes: p.likes.filter(like => like.id !== existingLike.id),
-                  _count: {
-                    ...p._count,
-                    likes: (p._count?.likes || 0) - 1
-                  }
-                }
-              : p
-          )
-        );
+        if (error) throw error;
       } else {
-        // Like
-        const { data, error } = await supabase
+        const { data: like, error } = await supabase
           .from('likes')
           .insert({
             post_id: postId,
-            user_id: currentUser.id
+            user_id: currentUser.id,
+            reaction_type: nextReaction
           })
-          .select()
+          .select('id')
           .single();
 
         if (error) throw error;
+        likePostIdsRef.current.set(like.id, postId);
+      }
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      applyReaction(nextReaction, previousReaction);
+      if (await dropIfUnavailable(postId)) return;
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update reaction'
+      });
+    } finally {
+      setLikingPosts(prev => ({ ...prev, [postId]: false }));
+    }
+  };
 
-        // Optimistic update
-        setPosts(prevPosts =>
-          prevPosts.map(p =>
-            p.id === postId
-              ? {
-                  ...p,
-                  likes: [...p.likes, { id: data.id, user_id: currentUser.id }],
-                  _count: {
-                    ...p._count,
-                    likes: (p._count?.likes || 0) + 1
-                  }
-                }
-              : p
-          )
-        );
+  // Results become readable once the viewer has voted or the poll has closed
+  const refreshPollResults = async (postId: string, pollId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('poll_option_results')
+        .select('option_id, votes_count')
+        .eq('poll_id', pollId);
+
+      if (error) throw error;
+
+      setPosts(prevPosts =>
+        prevPosts.map(post =>
+          post.id === postId && post.polls
+            ? { ...post, polls: withPollResults(post.polls, data || []) }
+            : post
+        )
+      );
+    } catch (error) {
+      console.error('Error fetching poll results:', error);
+    }
+  };
+
+  const handleVote = async (postId: string, optionId: string) => {
+    if (!currentUser || votingPolls[postId]) return;
+
+    const post = posts.find(p => p.id === postId);
+    if (!post?.polls) return;
+
+    const poll = post.polls;
+    const previousVotes = post.my_poll_votes;
+    // Picking a voted option again takes the vote back
+    const removing = previousVotes.includes(optionId);
+    const nextVotes = removing
+      ? previousVotes.filter(id => id !== optionId)
+      : poll.allow_multiple ? [...previousVotes, optionId] : [optionId];
+    // Single-choice polls only accept a new vote once the old one is gone
+    const staleVotes = removing ? [optionId] : poll.allow_multiple ? [] : previousVotes;
+
+    const applyVotes = (votes: string[]) => {
+      setPosts(prevPosts =>
+        prevPosts.map(p => (p.id === postId ? { ...p, my_poll_votes: votes } : p))
+      );
+    };
+
+    try {
+      setVotingPolls(prev => ({ ...prev, [postId]: true }));
+      applyVotes(nextVotes);
+
+      if (staleVotes.length > 0) {
+        const { error } = await supabase
+          .from('poll_votes')
+          .delete()
+          .eq('poll_id', poll.id)
+          .eq('user_id', currentUser.id)
+          .in('option_id', staleVotes);
+
+        if (error) throw error;
+      }
+
+      if (!removing) {
+        const { error } = await supabase
+          .from('poll_votes')
+          .insert({
+            poll_id: poll.id,
+            option_id: optionId,
+            user_id: currentUser.id
+          });
+
+        if (error) throw error;
       }
     } catch (error) {
-      console.error('Error toggling like:', error);
+      console.error('Error voting in poll:', error);
+      applyVotes(previousVotes);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to record your vote'
+      });
+    } finally {
+      await refreshPollResults(postId, poll.id);
+      setVotingPolls(prev => ({ ...prev, [postId]: false }));
+    }
+  };
+
+  const handleCommentLike = async (postId: string, commentId: string, wasLiked: boolean) => {
+    if (!currentUser || likingComments[commentId]) return;
+
+    const applyCommentLikeState = (liked: boolean) => {
+      updatePostComments(postId, comments =>
+        updateCommentInTree(comments, commentId, comment =>
+          comment.liked_by_me !== liked
+            ? {
+                ...comment,
+                liked_by_me: liked,
+                likes_count: Math.max(0, comment.likes_count + (liked ? 1 : -1))
+              }
+            : comment
+        )
+      );
+    };
+
+    try {
+      setLikingComments(prev => ({ ...prev, [commentId]: true }));
+
+      // Optimistic update, the realtime comment update carries the real count
+      applyCommentLikeState(!wasLiked);
+
+      if (wasLiked) {
+        const { error } = await supabase
+          .from('comment_likes')
+          .delete()
+          .eq('comment_id', commentId)
+          .eq('user_id', currentUser.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('comment_likes')
+          .insert({
+            comment_id: commentId,
+            user_id: currentUser.id
+          });
+
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.error('Error toggling comment like:', error);
+      applyCommentLikeState(wasLiked);
       toast({
         variant: 'destructive',
         title: 'Error',
         description: 'Failed to update like'
       });
     } finally {
-      setLikingPosts(prev => ({ ...prev, [postId]: false }));
+      setLikingComments(prev => ({ ...prev, [commentId]: false }));
     }
   };
 
@@ -333,26 +1007,28 @@ export function CommunityFeed() {
     const content = commentInputs[postId]?.trim();
     if (!content || !currentUser || submittingComments[postId]) return;
 
+    const adjustCommentCount = (delta: number) => {
+      setPosts(prevPosts =>
+        prevPosts.map(post =>
+          post.id === postId
+            ? { ...post, comments_count: Math.max(0, post.comments_count + delta) }
+            : post
+        )
+      );
+    };
+
     try {
       setSubmittingComments(prev => ({ ...prev, [postId]: true }));
+      adjustCommentCount(1);
 
       const { data, error } = await supabase
         .from('comments')
         .insert({
           post_id: postId,
           user_id: currentUser.id,
-          content
+          content: await serializeMentions(content)
         })
-        .select(`
-          id,
-          content,
-          created_at,
-          user_id,
-          profiles:user_id (
-            name,
-            avatar
-          )
-        `)
+        .select(COMMENT_SELECT)
         .single();
 
       if (error) throw error;
@@ -360,16 +1036,8 @@ export function CommunityFeed() {
       // Update posts with new comment
       setPosts(prevPosts =>
         prevPosts.map(post =>
-          post.id === postId
-            ? {
-                ...post,
-                comments: [...post.comments, data],
-                _count: {
-                  ...post._count,
-                  likes: post._count?.likes || 0,
-                  comments: (post._count?.comments || 0) + 1
-                }
-              }
+          post.id === postId && post.comments && !post.comments.some(c => c.id === data.id)
+            ? { ...post, comments: [...post.comments, { ...data, liked_by_me: false }] }
             : post
         )
       );
@@ -377,132 +1045,490 @@ export function CommunityFeed() {
       setCommentInputs(prev => ({ ...prev, [postId]: '' }));
       
       // Auto-expand comments when user adds a comment
-      setExpandedComments(prev => ({ ...prev, [postId]: true }));
+      expandComments(postId);
     } catch (error) {
       console.error('Error adding comment:', error);
+      adjustCommentCount(-1);
+      if (await dropIfUnavailable(postId)) return;
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to add comment'
+      });
+    } finally {
+      setSubmittingComments(prev => ({ ...prev, [postId]: false }));
+    }
+  };
+  const handleReply = async (postId: string, parent: Comment, depth: number) => {
+    const content = replyInputs[parent.id]?.trim();
+    if (!content || !currentUser || submittingReplies[parent.id]) return;
+
+    const parentId = depth >= MAX_THREAD_DEPTH && parent.parent_id ? parent.parent_id : parent.id;
+
+    const adjustCounts = (delta: number) => {
+      setPosts(prevPosts =>
+        prevPosts.map(post =>
+          post.id === postId
+            ? {
+                ...post,
+                comments_count: Math.max(0, post.comments_count + delta),
+                comments: post.comments && updateCommentInTree(post.comments, parentId, comment => ({
+                  ...comment,
+                  replies_count: Math.max(0, comment.replies_count + delta)
+                }))
+              }
+            : post
+        )
+      );
+    };
+
+    try {
+      setSubmittingReplies(prev => ({ ...prev, [parent.id]: true }));
+      adjustCounts(1);
+
+      const { data, error } = await supabase
+        .from('comments')
+        .insert({
+          post_id: postId,
+          parent_id: parentId,
+          user_id: currentUser.id,
+          content: await serializeMentions(content)
+        })
+        .select(COMMENT_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      const threadParent = postsRef.current
+        .find(post => post.id === postId)?.comments;
+      const loadedParent = threadParent && findCommentInTree(threadParent, parentId);
+
+      // Append only to fully loaded threads, partial ones pick the reply up when paging
+      if (loadedParent?.replies && !loadedParent.has_more_replies) {
+        updatePostComments(postId, comments =>
+          updateCommentInTree(comments, parentId, comment =>
+            comment.replies?.some(reply => reply.id === data.id)
+              ? comment
+              : { ...comment, replies: [...(comment.replies || []), { ...data, liked_by_me: false }] }
+          )
+        );
+      } else if (!loadedParent?.replies) {
+        fetchReplies(postId, parentId, 0);
+      }
+
+      setExpandedReplies(prev => ({ ...prev, [parentId]: true }));
+      setReplyInputs(prev => ({ ...prev, [parent.id]: '' }));
+      setReplyingTo(null);
+    } catch (error) {
+      console.error('Error adding reply:', error);
+      adjustCounts(-1);
+      if (await dropIfUnavailable(postId)) return;
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to add reply'
+      });
+    } finally {
+      setSubmittingReplies(prev => ({ ...prev, [parent.id]: false }));
+    }
+  };
+
+  const handleEditPost = async (postId: string) => {
+    if (!editContent.trim()) return;
+
+    try {
+      const content = await serializeMentions(editContent.trim());
+      const contentWarning = editWarning.trim() || null;
+      const { data, error } = await supabase
+        .from('posts')
+        .update({ content, content_warning: contentWarning })
+        .eq('id', postId)
+        .select('edited_at')
+        .single();
+
+      if (error) throw error;
+
+      setPosts(prevPosts =>
+        prevPosts.map(post =>
+          post.id === postId
+            ? { ...post, content, content_warning: contentWarning, edited_at: data.edited_at }
+            : post
+        )
+      );
+
+      setEditingPost(null);
+      setEditContent('');
+      setEditWarning('');
+
+      toast({
+        title: 'Post updated',
+        description: 'Your post has been updated successfully'
+      });
+    } catch (error) {
+      console.error('Error updating post:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update post'
+      });
+    }
+  };
+
+  const restorePost = async (deletedPost: Post, index: number) => {
+    try {
+      const { error } = await supabase.rpc('restore_post', { post_uuid: deletedPost.id });
+
+      if (error) throw error;
+
+      setPosts(prevPosts => {
+        const next = prevPosts.filter(post => post.id !== deletedPost.id);
+        next.splice(Math.min(index, next.length), 0, deletedPost);
+        return next;
+      });
+
+      toast({
+        title: 'Post restored',
+        description: 'Your post is back in the feed'
+      });
+    } catch (error) {
+      console.error('Error restoring post:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to restore post'
+      });
+    }
+  };
+
+  // Deleted posts stay restorable from Settings for 30 days
+  const handleDeletePost = async (postId: string) => {
+    const index = posts.findIndex(post => post.id === postId);
+    const deletedPost = posts[index];
+
+    try {
+      const { error } = await supabase.rpc('soft_delete_post', { post_uuid: postId });
+
+      if (error) throw error;
+
+      setPosts(prevPosts => prevPosts.filter(post => post.id !== postId));
+      setDeletePostId(null);
+
+      toast({
+        title: 'Post deleted',
+        description: 'You can restore it from Recently Deleted in Settings',
+        action: deletedPost && (
+          <ToastAction altText="Undo delete" onClick={() => restorePost(deletedPost, index)}>
+            Undo
+          </ToastAction>
+        )
+      });
+
+      // Nothing left to show on the post's own page
+      if (postId === singlePostId) {
+        navigate('/dashboard');
+      }
+    } catch (error) {
+      console.error('Error deleting post:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to delete post'
+      });
+    }
+  };
+
+  const restoreComment = async (postId: string, deletedComment: Comment, index: number) => {
+    try {
+      const { error } = await supabase.rpc('restore_comment', { comment_uuid: deletedComment.id });
+
+      if (error) throw error;
+
+      setPosts(prevPosts =>
+        prevPosts.map(post =>
+          post.id === postId
+            ? {
+                ...post,
+                comments: post.comments && insertCommentInTree(post.comments, deletedComment.parent_id, index, deletedComment),
+                comments_count: post.comments_count + 1
+              }
+            : post
+        )
+      );
+
+      toast({
+        title: 'Comment restored',
+        description: 'The comment is back on the post'
+      });
+    } catch (error) {
+      console.error('Error restoring comment:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to restore comment'
+      });
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string, postId: string) => {
+    const previousPost = posts.find(post => post.id === postId);
+
+    try {
+      const deletedComment = previousPost?.comments && findCommentInTree(previousPost.comments, commentId);
+      const parentId = deletedComment?.parent_id;
+      const siblings = parentId
+        ? findCommentInTree(previousPost.comments, parentId)?.replies
+        : previousPost?.comments;
+      const index = siblings?.findIndex(comment => comment.id === commentId) ?? -1;
+
+      // Optimistically remove the comment, restored below if the delete fails
+      setPosts(prevPosts =>
+        prevPosts.map(post => {
+          if (post.id !== postId) return post;
+
+          let comments = post.comments && removeCommentFromTree(post.comments, commentId);
+          if (comments && parentId) {
+            comments = updateCommentInTree(comments, parentId, comment => ({
+              ...comment,
+              replies_count: Math.max(0, comment.replies_count - 1)
+            }));
+          }
+
+          return {
+            ...post,
+            comments,
+            comments_count: Math.max(0, post.comments_count - 1)
+          };
+        })
+      );
+
+      const { error } = await supabase.rpc('soft_delete_comment', { comment_uuid: commentId });
+
+      if (error) throw error;
+
+      setDeleteCommentId(null);
+      setDeleteCommentContext(null);
+
+      const isPostOwner = deleteCommentContext?.isPostOwner;
+      toast({
+        title: 'Comment deleted',
+        description: isPostOwner 
+          ? 'The comment has been removed from your post'
+          : 'Your comment has been deleted successfully',
+        action: deletedComment && index >= 0 && (
+          <ToastAction altText="Undo delete" onClick={() => restoreComment(postId, deletedComment, index)}>
+            Undo
+          </ToastAction>
+        )
+      });
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      if (previousPost) {
+        setPosts(prevPosts =>
+          prevPosts.map(post => (post.id === postId ? previousPost : post))
+        );
+      }
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to delete comment'
+      });
+    }
+  };
+
+  const toggleCommentsDisabled = async (postId: string, currentState: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('posts')
+        .update({ comments_disabled: !currentState })
+        .eq('id', postId);
+
+      if (error) throw error;
+
+      setPosts(prevPosts =>
+        prevPosts.map(post =>
+          post.id === postId
+            ? { ...post, comments_disabled: !currentState }
+            : post
+        )
+      );
+
+      toast({
+        title: !currentState ? 'Comments disabled' : 'Comments enabled',
+        description: !currentState 
+          ? 'Comments have been disabled for this post' 
+          : 'Comments have been enabled for this post'
+      });
+    } catch (error) {
+      console.error('Error toggling comments:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update comment settings'
+      });
+    }
+  };
+
+  const handleSave = async (postId: string, targetCollectionId: string | null) => {
+    if (!currentUser || savingPosts[postId]) return;
+
+    const post = posts.find(p => p.id === postId);
+    if (!post) return;
+
+    const wasSaved = post.saved_by_me;
+
+    const applySavedState = (isSaved: boolean, collection: string | null) => {
+      setPosts(prevPosts =>
+        prevPosts.map(p =>
+          p.id === postId
+            ? {
+                ...p,
+                saved_by_me: isSaved,
+                bookmark: p.bookmark && { ...p.bookmark, collection_id: collection }
+              }
+            : p
+        )
+      );
+    };
+
+    try {
+      setSavingPosts(prev => ({ ...prev, [postId]: true }));
+      applySavedState(true, targetCollectionId);
+
+      // Saving an already saved post moves it to the chosen collection
+      const { error } = await supabase
+        .from('bookmarks')
+        .upsert(
+          { user_id: currentUser.id, post_id: postId, collection_id: targetCollectionId },
+          { onConflict: 'user_id,post_id' }
+        );
+
+      if (error) throw error;
+
+      // Moved out of the collection being viewed
+      if (saved && collectionId && targetCollectionId !== collectionId) {
+        setPosts(prevPosts => prevPosts.filter(p => p.id !== postId));
+      }
+
+      // Read from the store, the collection may have been created just now
+      const collectionName = useBookmarkCollections.getState().collections
+        .find(c => c.id === targetCollectionId)?.name;
+      toast({
+        title: wasSaved ? 'Post moved' : 'Post saved',
+        description: collectionName ? `Saved to ${collectionName}` : 'Find it any time on your Saved page'
+      });
+    } catch (error) {
+      console.error('Error saving post:', error);
+      applySavedState(wasSaved, post.bookmark?.collection_id ?? null);
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: 'Failed to add comment'
+        description: 'Failed to save post'
       });
     } finally {
-      setSubmittingComments(prev => ({ ...prev, [postId]: false }));
+      setSavingPosts(prev => ({ ...prev, [postId]: false }));
     }
   };
 
-  const handleEditPost = async (postId: string) => {
-    if (!editContent.trim()) return;
+  const handleUnsave = async (postId: string) => {
+    if (!currentUser || savingPosts[postId]) return;
 
     try {
+      setSavingPosts(prev => ({ ...prev, [postId]: true }));
+
       const { error } = await supabase
-        .from('posts')
-        .update({ content: editContent.trim() })
-        .eq('id', postId);
+        .from('bookmarks')
+        .delete()
+        .eq('user_id', currentUser.id)
+        .eq('post_id', postId);
 
       if (error) throw error;
 
-      setPosts(prevPosts =>
-        prevPosts.map(post =>
-          post.id === postId
-            ? { ...post, content: editContent.trim() }
-            : post
-        )
-      );
-
-      setEditingPost(null);
-      setEditContent('');
+      if (saved) {
+        setPosts(prevPosts => prevPosts.filter(p => p.id !== postId));
+      } else {
+        setPosts(prevPosts =>
+          prevPosts.map(p => (p.id === postId ? { ...p, saved_by_me: false } : p))
+        );
+      }
 
       toast({
-        title: 'Post updated',
-        description: 'Your post has been updated successfully'
+        title: 'Removed from Saved',
+        description: 'The post is no longer in your saved posts'
       });
     } catch (error) {
-      console.error('Error updating post:', error);
+      console.error('Error removing saved post:', error);
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: 'Failed to update post'
+        description: 'Failed to remove saved post'
       });
+    } finally {
+      setSavingPosts(prev => ({ ...prev, [postId]: false }));
     }
   };
 
-  const handleDeletePost = async (postId: string) => {
+  const handleRepost = async (target: SharedPost) => {
+    if (!currentUser || repostingPosts[target.id]) return;
+
     try {
-      const { error } = await supabase
+      setRepostingPosts(prev => ({ ...prev, [target.id]: true }));
+
+      // Reposts keep the original's audience, check_shared_post rejects anything wider
+      const { data: newPost, error } = await supabase
         .from('posts')
-        .delete()
-        .eq('id', postId);
+        .insert({
+          content: '',
+          user_id: currentUser.id,
+          visibility: target.visibility,
+          share_type: 'repost',
+          shared_post_id: target.id
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
-      setPosts(prevPosts => prevPosts.filter(post => post.id !== postId));
-      setDeletePostId(null);
-
+      window.dispatchEvent(new CustomEvent('postCreated', { detail: { id: newPost.id } }));
       toast({
-        title: 'Post deleted',
-        description: 'Your post has been deleted successfully'
+        title: 'Reposted',
+        description: 'The post has been shared to your feed'
       });
     } catch (error) {
-      console.error('Error deleting post:', error);
+      console.error('Error reposting:', error);
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: 'Failed to delete post'
+        description: (error as { code?: string })?.code === '23505'
+          ? 'You already reposted this post'
+          : 'Failed to repost'
       });
+    } finally {
+      setRepostingPosts(prev => ({ ...prev, [target.id]: false }));
     }
   };
 
-  const handleDeleteComment = async (commentId: string, postId: string) => {
+  const copyPostLink = async (postId: string) => {
     try {
-      const { error } = await supabase
-        .from('comments')
-        .delete()
-        .eq('id', commentId);
-
-      if (error) throw error;
-
-      // Update posts to remove the deleted comment
-      setPosts(prevPosts =>
-        prevPosts.map(post =>
-          post.id === postId
-            ? {
-                ...post,
-                comments: post.comments.filter(comment => comment.id !== commentId),
-                _count: {
-                  ...post._count,
-                  likes: post._count?.likes || 0,
-                  comments: Math.max(0, (post._count?.comments || 0) - 1)
-                }
-              }
-            : post
-        )
-      );
-
-      setDeleteCommentId(null);
-      setDeleteCommentContext(null);
-
-      const isPostOwner = deleteCommentContext?.isPostOwner;
+      await navigator.clipboard.writeText(`${window.location.origin}/post/${postId}`);
       toast({
-        title: 'Comment deleted',
-        description: isPostOwner 
-          ? 'The comment has been removed from your post'
-          : 'Your comment has been deleted successfully'
+        title: 'Link copied',
+        description: 'The post link is on your clipboard'
       });
     } catch (error) {
-      console.error('Error deleting comment:', error);
+      console.error('Error copying post link:', error);
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: 'Failed to delete comment'
+        description: 'Failed to copy link'
       });
     }
   };
 
-  const toggleCommentsDisabled = async (postId: string, currentState: boolean) => {
+  const changeVisibility = async (postId: string, visibility: string) => {
     try {
       const { error } = await supabase
         .from('posts')
-        .update({ comments_disabled: !currentState })
+        .update({ visibility })
         .eq('id', postId);
 
       if (error) throw error;
@@ -510,65 +1536,163 @@ export function CommunityFeed() {
       setPosts(prevPosts =>
         prevPosts.map(post =>
           post.id === postId
-            ? { ...post, comments_disabled: !currentState }
+            ? { ...post, visibility }
             : post
         )
       );
 
       toast({
-        title: !currentState ? 'Comments disabled' : 'Comments enabled',
-        description: !currentState 
-          ? 'Comments have been disabled for this post' 
-          : 'Comments have been enabled for this post'
+        title: 'Audience updated',
+        description: visibility === 'friends'
+          ? 'Only your friends can see this post now'
+          : 'Everyone can see this post now'
       });
     } catch (error) {
-      console.error('Error toggling comments:', error);
+      console.error('Error changing post visibility:', error);
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: 'Failed to update comment settings'
+        description: 'Failed to update post audience'
       });
     }
   };
 
   const scrollToTop = () => {
-    if (feedRef.current) {
-      feedRef.current.scrollTo({ top: 0, behavior: 'smooth' });
+    if (scrollElement) {
+      scrollElement.scrollTo({ top: 0, behavior: 'smooth' });
     }
   };
 
   const handleScroll = useCallback(() => {
-    if (feedRef.current) {
-      const { scrollTop } = feedRef.current;
-      setShowScrollTop(scrollTop > 300);
+    if (scrollElement) {
+      setShowScrollTop(scrollElement.scrollTop > 300);
     }
-  }, []);
+  }, [scrollElement]);
 
   useEffect(() => {
-    getCurrentUser();
     fetchPosts();
+  }, [fetchPosts]);
 
-    // Set up real-time subscriptions for seamless background updates
+  useEffect(() => {
+    if (currentUser) {
+      fetchCollections();
+      fetchSensitivePreference();
+    }
+  }, [currentUser, fetchCollections, fetchSensitivePreference]);
+
+  // The permalink page opens with the post's comments showing
+  useEffect(() => {
+    if (!singlePostId || openedPostRef.current === singlePostId) return;
+    if (!posts.some(post => post.id === singlePostId)) return;
+
+    openedPostRef.current = singlePostId;
+    setExpandedComments(prev => ({ ...prev, [singlePostId]: true }));
+    fetchComments(singlePostId);
+  }, [singlePostId, posts, fetchComments]);
+
+  useEffect(() => {
+    if (loadMoreInView && hasMore && !loading && !loadingMore && !loadMoreFailed) {
+      fetchMorePosts();
+    }
+  }, [loadMoreInView, hasMore, loading, loadingMore, loadMoreFailed, fetchMorePosts]);
+
+  useEffect(() => {
+    // Posts created from the composer show up immediately, before realtime delivers them
+    const handlePostCreated = (event: Event) => {
+      const { id } = (event as CustomEvent<{ id: string }>).detail;
+      prependPost(id);
+    };
+
+    window.addEventListener('postCreated', handlePostCreated);
+    return () => window.removeEventListener('postCreated', handlePostCreated);
+  }, [prependPost]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    // Set up real-time subscriptions that patch the loaded posts in place
     const postsChannel = supabase
       .channel('posts-realtime')
       .on('postgres_changes', 
         { event: '*', schema: 'public', table: 'posts' }, 
         (payload) => {
           console.log('Post change detected:', payload);
-          // Use background fetch to avoid loading indicators
-          fetchPostsInBackground();
+
+          if (payload.eventType === 'INSERT') {
+            prependPost(payload.new.id);
+          } else if (payload.eventType === 'UPDATE' && payload.new.deleted_at) {
+            // Moved to the trash, RLS usually withholds this event so failed interactions re-check too
+            setPosts(prevPosts => prevPosts.filter(post => post.id !== payload.new.id));
+          } else if (payload.eventType === 'UPDATE') {
+            // Row carries the trigger-maintained like and comment counts
+            setPosts(prevPosts =>
+              prevPosts.map(post =>
+                post.id === payload.new.id ? { ...post, ...payload.new } : post
+              )
+            );
+          } else if (payload.eventType === 'DELETE') {
+            setPosts(prevPosts => prevPosts.filter(post => post.id !== payload.old.id));
+          }
         }
       )
       .subscribe();
 
+    // Only the current user's reactions matter here, counts come from the posts row
     const likesChannel = supabase
       .channel('likes-realtime')
       .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'likes' }, 
+        { event: '*', schema: 'public', table: 'likes', filter: `user_id=eq.${currentUser.id}` }, 
         (payload) => {
           console.log('Like change detected:', payload);
-          // Use background fetch to avoid loading indicators
-          fetchPostsInBackground();
+          const removed = payload.eventType === 'DELETE';
+          let postId: string | undefined;
+
+          if (removed) {
+            // Delete events skip the filter and only carry the id, anything not ours is unknown
+            postId = likePostIdsRef.current.get(payload.old.id);
+            if (!postId) return;
+            likePostIdsRef.current.delete(payload.old.id);
+          } else {
+            postId = payload.new.post_id;
+            likePostIdsRef.current.set(payload.new.id, postId);
+          }
+
+          const reaction = removed ? null : payload.new.reaction_type as ReactionType;
+
+          setPosts(prevPosts =>
+            prevPosts.map(post =>
+              post.id === postId ? { ...post, my_reaction: reaction } : post
+            )
+          );
+        }
+      )
+      .subscribe();
+
+    // RLS only delivers results to viewers allowed to see them
+    const pollResultsChannel = supabase
+      .channel('poll-results-realtime')
+      .on('postgres_changes', 
+        { event: 'UPDATE', schema: 'public', table: 'poll_option_results' }, 
+        (payload) => {
+          const result = payload.new as { option_id: string; poll_id: string; votes_count: number };
+
+          setPosts(prevPosts =>
+            prevPosts.map(post =>
+              post.polls?.id === result.poll_id
+                ? {
+                    ...post,
+                    polls: {
+                      ...post.polls,
+                      poll_options: post.polls.poll_options.map(option =>
+                        option.id === result.option_id
+                          ? { ...option, poll_option_results: { votes_count: result.votes_count } }
+                          : option
+                      )
+                    }
+                  }
+                : post
+            )
+          );
         }
       )
       .subscribe();
@@ -579,8 +1703,68 @@ export function CommunityFeed() {
         { event: '*', schema: 'public', table: 'comments' }, 
         (payload) => {
           console.log('Comment change detected:', payload);
-          // Use background fetch to avoid loading indicators
-          fetchPostsInBackground();
+
+          if (payload.eventType === 'UPDATE') {
+            // Row carries the trigger-maintained like and reply counts
+            const { id, post_id, content, likes_count, replies_count } = payload.new;
+            updatePostComments(post_id, comments =>
+              updateCommentInTree(comments, id, comment => ({ ...comment, content, likes_count, replies_count }))
+            );
+          } else if (payload.eventType === 'DELETE') {
+            const { id } = payload.old;
+            setPosts(prevPosts =>
+              prevPosts.map(post =>
+                post.comments && findCommentInTree(post.comments, id)
+                  ? { ...post, comments: removeCommentFromTree(post.comments, id) }
+                  : post
+              )
+            );
+          } else if (payload.eventType === 'INSERT') {
+            const { id, post_id, parent_id } = payload.new;
+            const loadedComments = postsRef.current.find(post => post.id === post_id)?.comments;
+            if (!loadedComments || findCommentInTree(loadedComments, id)) return;
+
+            // Only extend lists that are already loaded to the end
+            const parent = parent_id ? findCommentInTree(loadedComments, parent_id) : null;
+            if (parent_id && (!parent?.replies || parent.has_more_replies)) return;
+
+            fetchComment(id).then(comment => {
+              if (!comment) return;
+
+              updatePostComments(post_id, comments => {
+                if (findCommentInTree(comments, id)) return comments;
+                if (!parent_id) return [...comments, comment];
+
+                return updateCommentInTree(comments, parent_id, existing => ({
+                  ...existing,
+                  replies: [...(existing.replies || []), comment]
+                }));
+              });
+            });
+          }
+        }
+      )
+      .subscribe();
+
+    const commentLikesChannel = supabase
+      .channel('comment-likes-realtime')
+      .on('postgres_changes', 
+        { event: '*', schema: 'public', table: 'comment_likes', filter: `user_id=eq.${currentUser.id}` }, 
+        (payload) => {
+          console.log('Comment like change detected:', payload);
+          const liked = payload.eventType === 'INSERT';
+          const commentId = liked ? payload.new.comment_id : payload.old.comment_id;
+
+          setPosts(prevPosts =>
+            prevPosts.map(post =>
+              post.comments && findCommentInTree(post.comments, commentId)
+                ? {
+                    ...post,
+                    comments: updateCommentInTree(post.comments, commentId, comment => ({ ...comment, liked_by_me: liked }))
+                  }
+                : post
+            )
+          );
         }
       )
       .subscribe();
@@ -588,17 +1772,657 @@ export function CommunityFeed() {
     return () => {
       supabase.removeChannel(postsChannel);
       supabase.removeChannel(likesChannel);
+      supabase.removeChannel(pollResultsChannel);
       supabase.removeChannel(commentsChannel);
+      supabase.removeChannel(commentLikesChannel);
     };
-  }, [getCurrentUser, fetchPosts, fetchPostsInBackground]);
+  }, [currentUser, prependPost, fetchComment, updatePostComments]);
+
+  // The feed scrolls inside the page's ScrollArea, so virtualize against its viewport
+  useEffect(() => {
+    if (!loading) {
+      setScrollElement(feedRef.current?.closest('[data-radix-scroll-area-viewport]') ?? null);
+    }
+  }, [loading]);
 
   useEffect(() => {
-    const feedElement = feedRef.current;
-    if (feedElement) {
-      feedElement.addEventListener('scroll', handleScroll);
-      return () => feedElement.removeEventListener('scroll', handleScroll);
+    if (scrollElement) {
+      scrollElement.addEventListener('scroll', handleScroll);
+      return () => scrollElement.removeEventListener('scroll', handleScroll);
+    }
+  }, [scrollElement, handleScroll]);
+
+  const renderComment = (post: Post, comment: Comment, depth: number) => {
+    const repliesExpanded = expandedReplies[comment.id];
+    const replyBoxVisible = replyingTo === comment.id;
+
+    return (
+      <div key={comment.id} className="space-y-2">
+        <div className="flex gap-2">
+          <Avatar 
+            className="h-6 w-6 cursor-pointer hover:scale-105 transition-transform duration-300 story-avatar"
+            onClick={() => handleUserClick(comment.user_id, '')}
+          >
+            {comment.profiles?.avatar ? (
+              <AvatarImage src={comment.profiles.avatar} className="story-image" />
+            ) : (
+              <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-xs story-fallback">
+                {comment.profiles?.name?.substring(0, 2).toUpperCase() || 'U'}
+              </AvatarFallback>
+            )}
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <div className="bg-muted/50 rounded-lg p-2 hover:bg-muted/70 transition-colors duration-300">
+              <div className="flex items-center justify-between mb-1">
+                <div className="flex items-center gap-2">
+                  <span 
+                    className="font-pixelated text-xs font-medium cursor-pointer hover:text-social-green transition-colors duration-300"
+                    onClick={() => handleUserClick(comment.user_id, '')}
+                  >
+                    {comment.profiles?.name}
+                  </span>
+                  <span className="font-pixelated text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                  </span>
+                </div>
+
+                {/* Delete comment button - for comment owner or post owner */}
+                {(comment.user_id === currentUser?.id || post.user_id === currentUser?.id) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setDeleteCommentId(comment.id);
+                      setDeleteCommentContext({
+                        postId: post.id,
+                        isPostOwner: post.user_id === currentUser?.id && comment.user_id !== currentUser?.id
+                      });
+                    }}
+                    className="h-5 w-5 hover:bg-destructive/10 hover:text-destructive transition-colors duration-300"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              <RichText
+                content={comment.content}
+                className="font-pixelated text-xs leading-relaxed"
+                onMentionClick={(userId) => handleUserClick(userId, '')}
+              />
+            </div>
+
+            <div className="flex items-center gap-1 mt-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleCommentLike(post.id, comment.id, comment.liked_by_me)}
+                disabled={likingComments[comment.id]}
+                className={`h-6 px-1 font-pixelated text-xs hover:bg-social-magenta/10 transition-all duration-300 ${
+                  comment.liked_by_me ? 'text-social-magenta' : 'text-muted-foreground'
+                }`}
+              >
+                <Heart className={`h-3 w-3 mr-1 transition-all duration-300 ${comment.liked_by_me ? 'fill-current' : ''}`} />
+                {comment.likes_count}
+              </Button>
+
+              {!post.comments_disabled && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setReplyingTo(replyBoxVisible ? null : comment.id)}
+                  className="h-6 px-1 font-pixelated text-xs text-muted-foreground hover:bg-social-blue/10 transition-all duration-300"
+                >
+                  <Reply className="h-3 w-3 mr-1" />
+                  Reply
+                </Button>
+              )}
+
+              {comment.replies_count > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => toggleReplies(post.id, comment)}
+                  className="h-6 px-1 font-pixelated text-xs text-muted-foreground hover:bg-muted/50 transition-all duration-300"
+                >
+                  {repliesExpanded ? (
+                    <ChevronUp className="h-3 w-3 mr-1" />
+                  ) : (
+                    <ChevronDown className="h-3 w-3 mr-1" />
+                  )}
+                  {repliesExpanded
+                    ? 'Hide replies'
+                    : `${comment.replies_count} ${comment.replies_count === 1 ? 'reply' : 'replies'}`}
+                </Button>
+              )}
+            </div>
+
+            {replyBoxVisible && !post.comments_disabled && (
+              <div className="mt-2 flex gap-2 animate-fade-in">
+                <MentionTextarea
+                  containerClassName="flex-1"
+                  placeholder={`Reply to ${comment.profiles?.name || 'comment'}...`}
+                  value={replyInputs[comment.id] || ''}
+                  onChange={(e) => setReplyInputs(prev => ({ ...prev, [comment.id]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleReply(post.id, comment, depth);
+                    }
+                  }}
+                  className="min-h-[40px] max-h-[100px] font-pixelated text-xs resize-none input-focus"
+                  disabled={submittingReplies[comment.id]}
+                  autoFocus
+                />
+                <Button
+                  onClick={() => handleReply(post.id, comment, depth)}
+                  disabled={!replyInputs[comment.id]?.trim() || submittingReplies[comment.id]}
+                  size="sm"
+                  className="bg-social-green hover:bg-social-light-green text-white font-pixelated text-xs self-end btn-hover micro-bounce"
+                >
+                  <Send className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Replies - Collapsible thread */}
+        {repliesExpanded && (
+          <div className="ml-8 pl-3 border-l border-border/50 space-y-2 animate-fade-in">
+            {comment.replies?.map(reply => renderComment(post, reply, depth + 1))}
+
+            {loadingReplies[comment.id] ? (
+              <p className="font-pixelated text-xs text-muted-foreground animate-pulse">
+                Loading replies...
+              </p>
+            ) : comment.has_more_replies && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => fetchReplies(post.id, comment.id, comment.replies?.length || 0)}
+                className="h-6 px-1 font-pixelated text-xs text-social-blue hover:bg-social-blue/10"
+              >
+                View more replies
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderPost = (post: Post) => {
+    if (post.unavailable) {
+      return (
+        <Card className="card-gradient animate-fade-in card-entrance">
+          <CardContent className="p-4 flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <Lock className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+              <div>
+                <p className="font-pixelated text-xs font-medium">This post is no longer available</p>
+                <p className="font-pixelated text-xs text-muted-foreground">
+                  The author has limited who can see it.
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleUnsave(post.id)}
+              disabled={savingPosts[post.id]}
+              className="font-pixelated text-xs hover:bg-destructive/10 hover:text-destructive"
+            >
+              Remove
+            </Button>
+          </CardContent>
+        </Card>
+      );
     }
-  }, [handleScroll]);
+
+    const reactionSummary = getReactionSummary(post.reaction_counts);
+    const isOwner = post.user_id === currentUser?.id;
+    const hasComments = post.comments_count > 0;
+    const commentsExpanded = expandedComments[post.id];
+    const commentBoxVisible = showCommentBox[post.id];
+    const postImages = getPostImages(post);
+    const isRepost = post.share_type === 'repost';
+    const sharedPostDeleted = !!post.share_type && (!post.shared_post_id || post.shared_post_deleted);
+    const sensitiveCovered = sensitivePreference !== 'show' && !revealedPosts[post.id];
+    const warningCovered = !!post.content_warning && sensitiveCovered;
+    const revealPost = () => setRevealedPosts(prev => ({ ...prev, [post.id]: true }));
+    // Posts with their own media or an embedded post don't need a link card as well
+    const previewUrl = !post.share_type && postImages.length === 0 && !post.video_url && !post.polls
+      ? getFirstUrl(post.content)
+      : null;
+    // Reposting a repost shares the original instead
+    const shareTarget: SharedPost | null = isRepost
+      ? (sharedPostDeleted ? null : post.shared_post)
+      : post;
+
+    return (
+      <Card className="card-gradient animate-fade-in shadow-lg hover:shadow-xl transition-all duration-300 card-entrance gpu-accelerated">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Avatar 
+                className="h-10 w-10 border-2 border-social-green/20 cursor-pointer hover:scale-105 transition-transform duration-300 story-avatar gpu-accelerated"
+                onClick={() => handleUserClick(post.user_id, post.profiles?.username)}
+              >
+                {post.profiles?.avatar ? (
+                  <AvatarImage src={post.profiles.avatar} alt={post.profiles.name} className="story-image" />
+                ) : (
+                  <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-xs story-fallback">
+                    {post.profiles?.name?.substring(0, 2).toUpperCase() || 'U'}
+                  </AvatarFallback>
+                )}
+              </Avatar>
+              <div>
+                <div className="flex items-center gap-2">
+                  <p 
+                    className="font-pixelated text-xs font-medium cursor-pointer hover:text-social-green transition-colors duration-300"
+                    onClick={() => handleUserClick(post.user_id, post.profiles?.username)}
+                  >
+                    {post.profiles?.name}
+                  </p>
+                  {isRepost && (
+                    <span className="flex items-center gap-1 font-pixelated text-xs text-muted-foreground">
+                      <Repeat2 className="h-3 w-3" />
+                      reposted
+                    </span>
+                  )}
+                  <Badge
+                    variant="outline"
+                    className="h-4 px-1 gap-1 font-pixelated text-[10px] text-muted-foreground"
+                    title={post.visibility === 'friends' ? 'Visible to friends only' : 'Visible to everyone'}
+                  >
+                    {post.visibility === 'friends' ? (
+                      <Users className="h-2.5 w-2.5" />
+                    ) : (
+                      <Globe className="h-2.5 w-2.5" />
+                    )}
+                    {post.visibility === 'friends' ? 'Friends' : 'Public'}
+                  </Badge>
+                </div>
+                <p 
+                  className="font-pixelated text-xs text-muted-foreground cursor-pointer hover:text-social-green transition-colors duration-300"
+                  onClick={() => handleUserClick(post.user_id, post.profiles?.username)}
+                >
+                  @{post.profiles?.username} • {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
+                  {post.edited_at && (
+                    <>
+                      {' • '}
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setHistoryPostId(post.id);
+                        }}
+                        className="underline-offset-2 hover:underline"
+                        title={`Edited ${formatDistanceToNow(new Date(post.edited_at), { addSuffix: true })}`}
+                      >
+                        edited
+                      </button>
+                    </>
+                  )}
+                </p>
+              </div>
+            </div>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-muted/50 btn-hover">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem
+                  onClick={() => copyPostLink(post.id)}
+                  className="font-pixelated text-xs"
+                >
+                  <Link2 className="h-3 w-3 mr-2" />
+                  Copy Link
+                </DropdownMenuItem>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger className="font-pixelated text-xs" disabled={savingPosts[post.id]}>
+                    <BookmarkIcon className={`h-3 w-3 mr-2 ${post.saved_by_me ? 'fill-current' : ''}`} />
+                    {post.saved_by_me ? 'Move to' : 'Save'}
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuItem
+                      onClick={() => handleSave(post.id, null)}
+                      className="font-pixelated text-xs"
+                    >
+                      All Saved
+                    </DropdownMenuItem>
+                    {collections.map(collection => (
+                      <DropdownMenuItem
+                        key={collection.id}
+                        onClick={() => handleSave(post.id, collection.id)}
+                        className="font-pixelated text-xs"
+                      >
+                        {collection.name}
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={() => setNewCollectionPostId(post.id)}
+                      className="font-pixelated text-xs"
+                    >
+                      <FolderPlus className="h-3 w-3 mr-2" />
+                      New Collection...
+                    </DropdownMenuItem>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                {post.saved_by_me && (
+                  <DropdownMenuItem
+                    onClick={() => handleUnsave(post.id)}
+                    className="font-pixelated text-xs"
+                  >
+                    <BookmarkX className="h-3 w-3 mr-2" />
+                    Remove from Saved
+                  </DropdownMenuItem>
+                )}
+                {isOwner && (
+                  <>
+                    {!isRepost && (
+                      <DropdownMenuItem
+                        onClick={() => {
+                          setEditingPost(post.id);
+                          setEditContent(mentionsToPlainText(post.content));
+                          setEditWarning(post.content_warning || '');
+                        }}
+                        className="font-pixelated text-xs"
+                      >
+                        <Edit className="h-3 w-3 mr-2" />
+                        Edit Post
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem
+                      onClick={() => toggleCommentsDisabled(post.id, post.comments_disabled)}
+                      className="font-pixelated text-xs"
+                    >
+                      <MessageSquareOff className="h-3 w-3 mr-2" />
+                      {post.comments_disabled ? 'Enable Comments' : 'Disable Comments'}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => changeVisibility(post.id, post.visibility === 'friends' ? 'public' : 'friends')}
+                      className="font-pixelated text-xs"
+                    >
+                      {post.visibility === 'friends' ? (
+                        <Globe className="h-3 w-3 mr-2" />
+                      ) : (
+                        <Users className="h-3 w-3 mr-2" />
+                      )}
+                      {post.visibility === 'friends' ? 'Make Public' : 'Friends Only'}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setDeletePostId(post.id)}
+                      className="font-pixelated text-xs text-destructive"
+                    >
+                      <Trash2 className="h-3 w-3 mr-2" />
+                      Delete Post
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </CardHeader>
+
+        <CardContent className="pt-0">
+          {editingPost === post.id ? (
+            <div className="space-y-3">
+              <MentionTextarea
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                className="font-pixelated text-xs input-focus"
+                placeholder="Edit your post..."
+              />
+              <Input
+                value={editWarning}
+                onChange={(e) => setEditWarning(e.target.value)}
+                placeholder="Content warning (optional)"
+                maxLength={80}
+                className="h-8 font-pixelated text-xs"
+              />
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => handleEditPost(post.id)}
+                  size="sm"
+                  className="bg-social-green hover:bg-social-light-green text-white font-pixelated text-xs btn-hover"
+                >
+                  Save Changes
+                </Button>
+                <Button
+                  onClick={() => {
+                    setEditingPost(null);
+                    setEditContent('');
+                    setEditWarning('');
+                  }}
+                  size="sm"
+                  variant="outline"
+                  className="font-pixelated text-xs btn-hover"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {warningCovered ? (
+                <div className="mb-4">
+                  <ContentWarning label={post.content_warning} onShow={revealPost} />
+                </div>
+              ) : post.content_warning && (
+                <Badge
+                  variant="outline"
+                  className="mb-2 gap-1 border-amber-500/30 font-pixelated text-[10px] text-amber-600"
+                  title="Content warning"
+                >
+                  <AlertTriangle className="h-2.5 w-2.5" />
+                  {post.content_warning}
+                </Badge>
+              )}
+
+              {!isRepost && !warningCovered && (
+                <RichText
+                  content={post.content}
+                  className="font-pixelated text-xs mb-4 leading-relaxed whitespace-pre-wrap"
+                  onMentionClick={(userId) => handleUserClick(userId, '')}
+                />
+              )}
+
+              {previewUrl && !warningCovered && (
+                <LinkPreviewCard url={previewUrl} className="mb-4" />
+              )}
+
+              {post.share_type && !warningCovered && (
+                <div className="mb-4">
+                  <SharedPostCard post={post.shared_post} deleted={sharedPostDeleted} />
+                </div>
+              )}
+
+              {postImages.length > 0 && (
+                <div className="mb-4">
+                  <PostImageCarousel
+                    images={postImages}
+                    warning={post.content_warning}
+                    revealed={!sensitiveCovered}
+                    onReveal={revealPost}
+                    onImageClick={(index) =>
+                      setViewerState({
+                        images: postImages.map(image => ({ src: image.url, alt: image.alt || 'Post image' })),
+                        index
+                      })
+                    }
+                  />
+                </div>
+              )}
+
+              {post.video_url && (
+                <div className="mb-4">
+                  {warningCovered ? (
+                    <div className="relative h-60 rounded-lg overflow-hidden bg-black">
+                      {post.video_poster_url && (
+                        <img
+                          src={post.video_poster_url}
+                          alt=""
+                          className="w-full h-full object-cover blur-2xl scale-110"
+                        />
+                      )}
+                      <SensitiveMediaCover label={post.content_warning} onShow={revealPost} />
+                    </div>
+                  ) : (
+                    <PostVideo src={post.video_url} poster={post.video_poster_url} />
+                  )}
+                </div>
+              )}
+
+              {post.polls && !warningCovered && (
+                <div className="mb-4">
+                  <PostPoll
+                    poll={post.polls}
+                    myVotes={post.my_poll_votes}
+                    voting={!!votingPolls[post.id]}
+                    onVote={(optionId) => handleVote(post.id, optionId)}
+                    onShowResults={() => refreshPollResults(post.id, post.polls.id)}
+                  />
+                </div>
+              )}
+
+              {reactionSummary.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setReactionsPostId(post.id)}
+                  className="flex items-center gap-2 mb-2 font-pixelated text-xs text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  {reactionSummary.map(reaction => (
+                    <span key={reaction.type} className="flex items-center gap-0.5" title={reaction.label}>
+                      <span className="text-sm leading-none">{reaction.emoji}</span>
+                      {reaction.count}
+                    </span>
+                  ))}
+                </button>
+              )}
+
+              <div className="flex items-center gap-4 pt-3 border-t border-border/50">
+                <ReactionPicker
+                  myReaction={post.my_reaction}
+                  count={post.likes_count}
+                  disabled={likingPosts[post.id]}
+                  onReact={(type) => handleReact(post.id, type)}
+                />
+
+                {!post.comments_disabled && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => toggleCommentBox(post.id)}
+                    className="font-pixelated text-xs text-muted-foreground hover:bg-social-blue/10 transition-all duration-300 btn-hover micro-bounce"
+                  >
+                    <MessageCircle className="h-4 w-4 mr-1" />
+                    {post.comments_count}
+                  </Button>
+                )}
+
+                {post.comments_disabled && (
+                  <div className="flex items-center gap-1 text-muted-foreground">
+                    <MessageSquareOff className="h-4 w-4" />
+                    <span className="font-pixelated text-xs">Comments disabled</span>
+                  </div>
+                )}
+
+                {hasComments && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => toggleComments(post.id)}
+                    className="font-pixelated text-xs text-muted-foreground hover:bg-social-purple/10 transition-all duration-300 btn-hover micro-bounce"
+                  >
+                    {commentsExpanded ? 
+                      <ChevronUp className="h-4 w-4 mr-1" /> : 
+                      <ChevronDown className="h-4 w-4 mr-1" />
+                    }
+                    {commentsExpanded ? 'Hide' : 'Show'} Comments
+                  </Button>
+                )}
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!shareTarget || repostingPosts[shareTarget.id]}
+                      className="ml-auto font-pixelated text-xs text-muted-foreground hover:bg-social-green/10 transition-all duration-300 btn-hover micro-bounce"
+                    >
+                      <Repeat2 className="h-4 w-4 mr-1" />
+                      Share
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      onClick={() => handleRepost(shareTarget)}
+                      className="font-pixelated text-xs"
+                    >
+                      <Repeat2 className="h-3 w-3 mr-2" />
+                      Repost
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setQuotedPost(shareTarget)}
+                      className="font-pixelated text-xs"
+                    >
+                      <Quote className="h-3 w-3 mr-2" />
+                      Quote
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+
+              {/* Comments Section - Collapsible */}
+              {hasComments && commentsExpanded && (
+                <div className="mt-4 space-y-3 border-t border-border/50 pt-4 animate-fade-in scroll-reveal">
+                  {!post.comments && (
+                    <p className="font-pixelated text-xs text-muted-foreground animate-pulse">
+                      Loading comments...
+                    </p>
+                  )}
+                  {post.comments?.map((comment: Comment) => renderComment(post, comment, 0))}
+                </div>
+              )}
+
+              {/* Add Comment - Hidden by default, show when comment button is clicked */}
+              {commentBoxVisible && !post.comments_disabled && (
+                <div className="mt-4 flex gap-2 animate-fade-in">
+                  <MentionTextarea
+                    containerClassName="flex-1"
+                    placeholder="Write a comment..."
+                    value={commentInputs[post.id] || ''}
+                    onChange={(e) => setCommentInputs(prev => ({ ...prev, [post.id]: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        handleComment(post.id);
+                      }
+                    }}
+                    className="min-h-[60px] max-h-[120px] font-pixelated text-xs resize-none input-focus"
+                    disabled={submittingComments[post.id]}
+                  />
+                  <Button
+                    onClick={() => handleComment(post.id)}
+                    disabled={!commentInputs[post.id]?.trim() || submittingComments[post.id]}
+                    size="sm"
+                    className="bg-social-green hover:bg-social-light-green text-white font-pixelated text-xs self-end btn-hover micro-bounce"
+                  >
+                    <Send className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
 
   if (loading) {
     return (
@@ -624,6 +2448,11 @@ export function CommunityFeed() {
     );
   }
 
+  // People who chose to hide sensitive content still see their own posts and direct links
+  const visiblePosts = sensitivePreference === 'hide' && !singlePostId
+    ? posts.filter(post => post.user_id === currentUser?.id || !isSensitivePost(post))
+    : posts;
+
   return (
     <div ref={feedRef} className="space-y-4 relative scroll-container page-transition">
       {/* Scroll to Top Button - Only show on home page */}
@@ -641,7 +2470,39 @@ export function CommunityFeed() {
         </Button>
       )}
 
-      {posts.length === 0 ? (
+      {posts.length === 0 && singlePostId ? (
+        <Card className="text-center py-12 card-entrance">
+          <CardContent>
+            {missingPost === 'no_access' ? (
+              <>
+                <Lock className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                <h3 className="font-pixelated text-sm font-medium mb-2">This post is private</h3>
+                <p className="font-pixelated text-xs text-muted-foreground">
+                  Only the author's friends can see it.
+                </p>
+              </>
+            ) : (
+              <>
+                <SearchX className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                <h3 className="font-pixelated text-sm font-medium mb-2">Post not found</h3>
+                <p className="font-pixelated text-xs text-muted-foreground">
+                  It may have been deleted, or the link is wrong.
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ) : posts.length === 0 && saved ? (
+        <Card className="text-center py-12 card-entrance">
+          <CardContent>
+            <BookmarkIcon className="h-16 w-16 text-muted-foreground mx-auto mb-4 animate-float" />
+            <h3 className="font-pixelated text-sm font-medium mb-2">Nothing saved yet</h3>
+            <p className="font-pixelated text-xs text-muted-foreground">
+              Use Save in a post's menu to keep it here for later.
+            </p>
+          </CardContent>
+        </Card>
+      ) : posts.length === 0 ? (
         <Card className="text-center py-12 card-entrance">
           <CardContent>
             <MessageCircle className="h-16 w-16 text-muted-foreground mx-auto mb-4 animate-float" />
@@ -652,283 +2513,52 @@ export function CommunityFeed() {
           </CardContent>
         </Card>
       ) : (
-        posts.map((post, index) => {
-          const isLiked = post.likes.some(like => like.user_id === currentUser?.id);
-          const isOwner = post.user_id === currentUser?.id;
-          const hasComments = post.comments && post.comments.length > 0;
-          const commentsExpanded = expandedComments[post.id];
-          const commentBoxVisible = showCommentBox[post.id];
-
-          return (
-            <Card 
-              key={post.id} 
-              className="card-gradient animate-fade-in shadow-lg hover:shadow-xl transition-all duration-300 card-entrance gpu-accelerated content-visibility-auto"
-              style={{ animationDelay: `${index * 0.1}s` }}
-            >
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <Avatar 
-                      className="h-10 w-10 border-2 border-social-green/20 cursor-pointer hover:scale-105 transition-transform duration-300 story-avatar gpu-accelerated"
-                      onClick={() => handleUserClick(post.user_id, post.profiles?.username)}
-                    >
-                      {post.profiles?.avatar ? (
-                        <AvatarImage src={post.profiles.avatar} alt={post.profiles.name} className="story-image" />
-                      ) : (
-                        <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-xs story-fallback">
-                          {post.profiles?.name?.substring(0, 2).toUpperCase() || 'U'}
-                        </AvatarFallback>
-                      )}
-                    </Avatar>
-                    <div>
-                      <p 
-                        className="font-pixelated text-xs font-medium cursor-pointer hover:text-social-green transition-colors duration-300"
-                        onClick={() => handleUserClick(post.user_id, post.profiles?.username)}
-                      >
-                        {post.profiles?.name}
-                      </p>
-                      <p 
-                        className="font-pixelated text-xs text-muted-foreground cursor-pointer hover:text-social-green transition-colors duration-300"
-                        onClick={() => handleUserClick(post.user_id, post.profiles?.username)}
-                      >
-                        @{post.profiles?.username} • {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
-                      </p>
-                    </div>
-                  </div>
-                  
-                  {isOwner && (
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-muted/50 btn-hover">
-                          <MoreVertical className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem
-                          onClick={() => {
-                            setEditingPost(post.id);
-                            setEditContent(post.content);
-                          }}
-                          className="font-pixelated text-xs"
-                        >
-                          <Edit className="h-3 w-3 mr-2" />
-                          Edit Post
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          onClick={() => toggleCommentsDisabled(post.id, post.comments_disabled)}
-                          className="font-pixelated text-xs"
-                        >
-                          <MessageSquareOff className="h-3 w-3 mr-2" />
-                          {post.comments_disabled ? 'Enable Comments' : 'Disable Comments'}
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          onClick={() => setDeletePostId(post.id)}
-                          className="font-pixelated text-xs text-destructive"
-                        >
-                          <Trash2 className="h-3 w-3 mr-2" />
-                          Delete Post
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  )}
-                </div>
-              </CardHeader>
-              
-              <CardContent className="pt-0">
-                {editingPost === post.id ? (
-                  <div className="space-y-3">
-                    <Textarea
-                      value={editContent}
-                      onChange={(e) => setEditContent(e.target.value)}
-                      className="font-pixelated text-xs input-focus"
-                      placeholder="Edit your post..."
-                    />
-                    <div className="flex gap-2">
-                      <Button
-                        onClick={() => handleEditPost(post.id)}
-                        size="sm"
-                        className="bg-social-green hover:bg-social-light-green text-white font-pixelated text-xs btn-hover"
-                      >
-                        Save Changes
-                      </Button>
-                      <Button
-                        onClick={() => {
-                          setEditingPost(null);
-                          setEditContent('');
-                        }}
-                        size="sm"
-                        variant="outline"
-                        className="font-pixelated text-xs btn-hover"
-                      >
-                        Cancel
-                      </Button>
-                    </div>
-                  </div>
-                ) : (
-                  <>
-                    <p className="font-pixelated text-xs mb-4 leading-relaxed whitespace-pre-wrap">
-                      {post.content}
-                    </p>
-                    
-                    {post.image_url && (
-                      <div className="mb-4">
-                        <img
-                          src={post.image_url}
-                          alt="Post image"
-                          className="w-full max-h-96 object-cover rounded-lg cursor-pointer hover:opacity-90 transition-all duration-300 hover:scale-[1.02] gpu-accelerated"
-                          onClick={() => setSelectedImage(post.image_url)}
-                        />
-                      </div>
-                    )}
-                    
-                    <div className="flex items-center gap-4 pt-3 border-t border-border/50">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleLike(post.id)}
-                        disabled={likingPosts[post.id]}
-                        className={`font-pixelated text-xs hover:bg-social-magenta/10 transition-all duration-300 btn-hover micro-bounce ${
-                          isLiked ? 'text-social-magenta' : 'text-muted-foreground'
-                        }`}
-                      >
-                        <Heart className={`h-4 w-4 mr-1 transition-all duration-300 ${isLiked ? 'fill-current scale-110' : ''}`} />
-                        {post._count?.likes || 0}
-                      </Button>
-                      
-                      {!post.comments_disabled && (
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => toggleCommentBox(post.id)}
-                          className="font-pixelated text-xs text-muted-foreground hover:bg-social-blue/10 transition-all duration-300 btn-hover micro-bounce"
-                        >
-                          <MessageCircle className="h-4 w-4 mr-1" />
-                          {post._count?.comments || 0}
-                        </Button>
-                      )}
-
-                      {post.comments_disabled && (
-                        <div className="flex items-center gap-1 text-muted-foreground">
-                          <MessageSquareOff className="h-4 w-4" />
-                          <span className="font-pixelated text-xs">Comments disabled</span>
-                        </div>
-                      )}
+        <VirtualizedList
+          items={visiblePosts}
+          getItemKey={(post) => post.id}
+          renderItem={renderPost}
+          scrollElement={scrollElement}
+          estimatedItemHeight={260}
+          rowClassName="pb-4"
+        />
+      )}
 
-                      {hasComments && (
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => toggleComments(post.id)}
-                          className="font-pixelated text-xs text-muted-foreground hover:bg-social-purple/10 transition-all duration-300 btn-hover micro-bounce"
-                        >
-                          {commentsExpanded ? 
-                            <ChevronUp className="h-4 w-4 mr-1" /> : 
-                            <ChevronDown className="h-4 w-4 mr-1" />
-                          }
-                          {commentsExpanded ? 'Hide' : 'Show'} Comments
-                        </Button>
-                      )}
-                    </div>
-                    
-                    {/* Comments Section - Collapsible */}
-                    {hasComments && commentsExpanded && (
-                      <div className="mt-4 space-y-3 border-t border-border/50 pt-4 animate-fade-in scroll-reveal">
-                        {post.comments.map((comment: Comment) => (
-                          <div key={comment.id} className="flex gap-2">
-                            <Avatar 
-                              className="h-6 w-6 cursor-pointer hover:scale-105 transition-transform duration-300 story-avatar"
-                              onClick={() => handleUserClick(comment.user_id, '')}
-                            >
-                              {comment.profiles?.avatar ? (
-                                <AvatarImage src={comment.profiles.avatar} className="story-image" />
-                              ) : (
-                                <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-xs story-fallback">
-                                  {comment.profiles?.name?.substring(0, 2).toUpperCase() || 'U'}
-                                </AvatarFallback>
-                              )}
-                            </Avatar>
-                            <div className="flex-1 bg-muted/50 rounded-lg p-2 hover:bg-muted/70 transition-colors duration-300">
-                              <div className="flex items-center justify-between mb-1">
-                                <div className="flex items-center gap-2">
-                                  <span 
-                                    className="font-pixelated text-xs font-medium cursor-pointer hover:text-social-green transition-colors duration-300"
-                                    onClick={() => handleUserClick(comment.user_id, '')}
-                                  >
-                                    {comment.profiles?.name}
-                                  </span>
-                                  <span className="font-pixelated text-xs text-muted-foreground">
-                                    {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                                  </span>
-                                </div>
-                                
-                                {/* Delete comment button - for comment owner or post owner */}
-                                {(comment.user_id === currentUser?.id || post.user_id === currentUser?.id) && (
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    onClick={() => {
-                                      setDeleteCommentId(comment.id);
-                                      setDeleteCommentContext({
-                                        postId: post.id,
-                                        isPostOwner: post.user_id === currentUser?.id && comment.user_id !== currentUser?.id
-                                      });
-                                    }}
-                                    className="h-5 w-5 hover:bg-destructive/10 hover:text-destructive transition-colors duration-300"
-                                  >
-                                    <Trash2 className="h-3 w-3" />
-                                  </Button>
-                                )}
-                              </div>
-                              <p className="font-pixelated text-xs leading-relaxed">
-                                {comment.content}
-                              </p>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-                    
-                    {/* Add Comment - Hidden by default, show when comment button is clicked */}
-                    {commentBoxVisible && !post.comments_disabled && (
-                      <div className="mt-4 flex gap-2 animate-fade-in">
-                        <Textarea
-                          placeholder="Write a comment..."
-                          value={commentInputs[post.id] || ''}
-                          onChange={(e) => setCommentInputs(prev => ({ ...prev, [post.id]: e.target.value }))}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter' && !e.shiftKey) {
-                              e.preventDefault();
-                              handleComment(post.id);
-                            }
-                          }}
-                          className="flex-1 min-h-[60px] max-h-[120px] font-pixelated text-xs resize-none input-focus"
-                          disabled={submittingComments[post.id]}
-                        />
-                        <Button
-                          onClick={() => handleComment(post.id)}
-                          disabled={!commentInputs[post.id]?.trim() || submittingComments[post.id]}
-                          size="sm"
-                          className="bg-social-green hover:bg-social-light-green text-white font-pixelated text-xs self-end btn-hover micro-bounce"
-                        >
-                          <Send className="h-3 w-3" />
-                        </Button>
-                      </div>
-                    )}
-                  </>
-                )}
-              </CardContent>
-            </Card>
-          );
-        })
+      {/* Infinite scroll sentinel */}
+      {posts.length > 0 && !singlePostId && (
+        <div ref={loadMoreRef} className="py-4 text-center">
+          {loadingMore ? (
+            <p className="font-pixelated text-xs text-muted-foreground animate-pulse">
+              Loading more posts...
+            </p>
+          ) : loadMoreFailed ? (
+            <div className="space-y-2">
+              <p className="font-pixelated text-xs text-muted-foreground">
+                Couldn't load more posts
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={fetchMorePosts}
+                className="font-pixelated text-xs"
+              >
+                Try again
+              </Button>
+            </div>
+          ) : !hasMore && (
+            <p className="font-pixelated text-xs text-muted-foreground">
+              You're all caught up!
+            </p>
+          )}
+        </div>
       )}
 
       {/* Image Viewer */}
-      {selectedImage && (
+      {viewerState && (
         <ImageViewer
-          src={selectedImage}
-          alt="Post image"
-          isOpen={!!selectedImage}
-          onClose={() => setSelectedImage(null)}
+          images={viewerState.images}
+          initialIndex={viewerState.index}
+          isOpen={!!viewerState}
+          onClose={() => setViewerState(null)}
         />
       )}
 
@@ -939,13 +2569,39 @@ export function CommunityFeed() {
         user={selectedUser}
       />
 
+      {/* Who Reacted Dialog */}
+      <ReactionsDialog
+        postId={reactionsPostId}
+        reactionCounts={posts.find(post => post.id === reactionsPostId)?.reaction_counts ?? {}}
+        onOpenChange={(open) => !open && setReactionsPostId(null)}
+      />
+
+      {/* Edit History Dialog */}
+      <PostHistoryDialog
+        post={posts.find(post => post.id === historyPostId) ?? null}
+        onOpenChange={(open) => !open && setHistoryPostId(null)}
+      />
+
+      {/* Quote Post Dialog */}
+      <QuotePostDialog
+        post={quotedPost}
+        onOpenChange={(open) => !open && setQuotedPost(null)}
+      />
+
+      {/* New Bookmark Collection Dialog */}
+      <NewCollectionDialog
+        open={!!newCollectionPostId}
+        onOpenChange={(open) => !open && setNewCollectionPostId(null)}
+        onCreated={(collection) => newCollectionPostId && handleSave(newCollectionPostId, collection.id)}
+      />
+
       {/* Delete Post Confirmation Dialog */}
       <AlertDialog open={!!deletePostId} onOpenChange={() => setDeletePostId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle className="font-pixelated">Delete Post</AlertDialogTitle>
             <AlertDialogDescription className="font-pixelated text-xs">
-              Are you sure you want to delete this post? This action cannot be undone.
+              Are you sure you want to delete this post? You can restore it from Recently Deleted in Settings for 30 days.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -970,8 +2626,8 @@ export function CommunityFeed() {
             <AlertDialogTitle className="font-pixelated">Delete Comment</AlertDialogTitle>
             <AlertDialogDescription className="font-pixelated text-xs">
               {deleteCommentContext?.isPostOwner 
-                ? "Are you sure you want to remove this comment from your post? This action cannot be undone."
-                : "Are you sure you want to delete this comment? This action cannot be undone."
+                ? "Are you sure you want to remove this comment from your post? You can restore it from Recently Deleted in Settings for 30 days."
+                : "Are you sure you want to delete this comment? You can restore it from Recently Deleted in Settings for 30 days."
               }
             </AlertDialogDescription>
           </AlertDialogHeader>
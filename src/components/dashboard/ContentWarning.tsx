@@ -0,0 +1,52 @@
+import React from 'react';
+import { AlertTriangle, Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ContentWarningProps {
+  label: string;
+  onShow: () => void;
+}
+
+// Stands in for the text of a sensitive post until the viewer asks to see it
+export function ContentWarning({ label, onShow }: ContentWarningProps) {
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-amber-500/30 bg-amber-500/5 p-3">
+      <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-600" />
+      <div className="flex-1 min-w-0">
+        <p className="font-pixelated text-[10px] uppercase text-muted-foreground">Content warning</p>
+        <p className="font-pixelated text-xs break-words">{label}</p>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={(e) => {
+          e.stopPropagation();
+          onShow();
+        }}
+        className="h-7 font-pixelated text-xs flex-shrink-0"
+      >
+        <Eye className="h-3 w-3 mr-1" />
+        Show
+      </Button>
+    </div>
+  );
+}
+
+// Covers a blurred image or video; clicking anywhere on it reveals the media
+export function SensitiveMediaCover({ label, onShow }: ContentWarningProps) {
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        onShow();
+      }}
+      className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-black/40 text-white"
+      aria-label={`Show sensitive media: ${label}`}
+    >
+      <AlertTriangle className="h-5 w-5" />
+      <span className="font-pixelated text-xs px-4 text-center break-words">{label}</span>
+      <span className="font-pixelated text-[10px] underline underline-offset-2">Show</span>
+    </button>
+  );
+}
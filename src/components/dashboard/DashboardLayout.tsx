@@ -3,7 +3,7 @@ import { MobileHeader } from './MobileHeader';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Home, Users, Bell, MessageSquare, User } from 'lucide-react';
+import { Home, Users, Bell, MessageSquare, User, Search } from 'lucide-react';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -76,6 +76,13 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
                   >
                     <Home className="h-4 w-4" />
                   </TabsTrigger>
+                  <TabsTrigger 
+                    value="search" 
+                    onClick={() => handleTabClick('search')}
+                    className={`nav-tab ${currentRoute === 'search' ? 'active' : ''} font-pixelated p-2`}
+                  >
+                    <Search className="h-4 w-4" />
+                  </TabsTrigger>
                   <TabsTrigger 
                     value="friends" 
                     onClick={() => handleTabClick('friends')}
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { CalendarClock, FileText, Image as ImageIcon, Pencil, Trash2, Video } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { PostDraft, usePostDrafts } from '@/hooks/use-post-drafts';
+import { mentionsToPlainText } from '@/utils/mentionUtils';
+
+interface DraftsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onEdit: (draft: PostDraft) => void;
+}
+
+export function DraftsDialog({ open, onOpenChange, onEdit }: DraftsDialogProps) {
+  const [activeTab, setActiveTab] = useState('drafts');
+  const [deleting, setDeleting] = useState<{ [key: string]: boolean }>({});
+  const { drafts, fetchDrafts, deleteDraft } = usePostDrafts();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) fetchDrafts();
+  }, [open, fetchDrafts]);
+
+  const plainDrafts = drafts.filter(draft => !draft.scheduled_at);
+  const scheduledDrafts = drafts
+    .filter(draft => draft.scheduled_at)
+    .sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at));
+  const visibleDrafts = activeTab === 'drafts' ? plainDrafts : scheduledDrafts;
+
+  const handleDelete = async (draft: PostDraft) => {
+    try {
+      setDeleting(prev => ({ ...prev, [draft.id]: true }));
+      await deleteDraft(draft.id);
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to delete draft'
+      });
+    } finally {
+      setDeleting(prev => ({ ...prev, [draft.id]: false }));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-pixelated text-sm">Drafts</DialogTitle>
+        </DialogHeader>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="w-full">
+            <TabsTrigger value="drafts" className="flex-1 font-pixelated text-xs">
+              Drafts ({plainDrafts.length})
+            </TabsTrigger>
+            <TabsTrigger value="scheduled" className="flex-1 font-pixelated text-xs">
+              Scheduled ({scheduledDrafts.length})
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <ScrollArea className="max-h-96">
+          {visibleDrafts.length === 0 ? (
+            <p className="font-pixelated text-xs text-muted-foreground text-center py-6">
+              {activeTab === 'drafts' ? 'No drafts yet' : 'No scheduled posts'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {visibleDrafts.map(draft => {
+                const imageCount = Array.isArray(draft.images) ? draft.images.length : 0;
+                const text = mentionsToPlainText(draft.content).trim();
+
+                return (
+                  <div key={draft.id} className="flex items-start gap-3 rounded-lg border p-3">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className={`font-pixelated text-xs break-words line-clamp-2 ${text ? '' : 'text-muted-foreground'}`}>
+                        {text || 'No text'}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 font-pixelated text-[10px] text-muted-foreground">
+                        {draft.scheduled_at ? (
+                          <span className="flex items-center gap-1">
+                            <CalendarClock className="h-3 w-3" />
+                            {format(new Date(draft.scheduled_at), 'PPp')}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1">
+                            <FileText className="h-3 w-3" />
+                            Saved {formatDistanceToNow(new Date(draft.updated_at), { addSuffix: true })}
+                          </span>
+                        )}
+                        {imageCount > 0 && (
+                          <span className="flex items-center gap-1">
+                            <ImageIcon className="h-3 w-3" />
+                            {imageCount}
+                          </span>
+                        )}
+                        {draft.video_url && <Video className="h-3 w-3" />}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 flex-shrink-0"
+                      onClick={() => onEdit(draft)}
+                      title={draft.scheduled_at ? 'Edit and unschedule' : 'Edit draft'}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 flex-shrink-0 hover:bg-destructive/10 hover:text-destructive"
+                      onClick={() => handleDelete(draft)}
+                      disabled={deleting[draft.id]}
+                      title="Delete draft"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,7 +7,9 @@ import {
   Bell, 
   User,
   Menu,
-  LogOut
+  LogOut,
+  Bookmark,
+  Search
 } from 'lucide-react';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
@@ -129,6 +131,7 @@ export function MobileHeader() {
 
   const tabs: MobileTab[] = [
     { path: '/dashboard', label: 'Home', icon: <Home className="h-5 w-5" /> },
+    { path: '/search', label: 'Search', icon: <Search className="h-5 w-5" /> },
     { path: '/friends', label: 'Friends', icon: <Users className="h-5 w-5" /> },
     { path: '/messages', label: 'Messages', icon: <MessageSquare className="h-5 w-5" /> },
     { 
@@ -288,6 +291,12 @@ export function MobileHeader() {
                   Profile
                 </DropdownMenuItem>
               </Link>
+              <Link to="/saved">
+                <DropdownMenuItem className="font-pixelated hover-scale">
+                  <Bookmark className="mr-2 h-4 w-4" />
+                  Saved
+                </DropdownMenuItem>
+              </Link>
               <Link to="/notifications">
                 <DropdownMenuItem className="font-pixelated hover-scale">
                   <div className="flex items-center w-full">
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { BookmarkCollection, useBookmarkCollections } from '@/hooks/use-bookmark-collections';
+
+interface NewCollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (collection: BookmarkCollection) => void;
+}
+
+export function NewCollectionDialog({ open, onOpenChange, onCreated }: NewCollectionDialogProps) {
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const createCollection = useBookmarkCollections(state => state.createCollection);
+  const { toast } = useToast();
+
+  const handleCreate = async () => {
+    if (!name.trim() || creating) return;
+
+    try {
+      setCreating(true);
+      const collection = await createCollection(name);
+      setName('');
+      onOpenChange(false);
+      onCreated?.(collection);
+    } catch (error) {
+      console.error('Error creating collection:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: (error as { code?: string })?.code === '23505'
+          ? 'You already have a collection with that name'
+          : 'Failed to create collection'
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-pixelated text-sm">New Collection</DialogTitle>
+        </DialogHeader>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          placeholder="e.g. Recipes"
+          maxLength={50}
+          className="font-pixelated text-xs"
+          autoFocus
+        />
+        <Button
+          onClick={handleCreate}
+          disabled={!name.trim() || creating}
+          className="w-full bg-social-green hover:bg-social-light-green text-white font-pixelated text-xs btn-hover"
+        >
+          {creating ? 'Creating...' : 'Create'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
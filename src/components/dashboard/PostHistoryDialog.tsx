@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { supabase } from '@/integrations/supabase/client';
+import { diffWords } from '@/utils/diffUtils';
+import { mentionsToPlainText } from '@/utils/mentionUtils';
+
+interface Version {
+  content: string;
+  created_at: string;
+}
+
+interface PostHistoryDialogProps {
+  // The post whose history is shown, the dialog is open while it is set
+  post: {
+    id: string;
+    content: string;
+    created_at: string;
+    edited_at: string | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PostHistoryDialog({ post, onOpenChange }: PostHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<Version[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => {
+    if (!post?.id) return;
+
+    const fetchRevisions = async () => {
+      try {
+        setLoading(true);
+        setSelectedIndex(0);
+
+        const { data, error } = await supabase
+          .from('post_revisions')
+          .select('content, created_at')
+          .eq('post_id', post.id)
+          .order('replaced_at', { ascending: false });
+
+        if (error) throw error;
+        setRevisions(data || []);
+      } catch (error) {
+        console.error('Error fetching post history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [post?.id, post?.edited_at]);
+
+  // Newest first, each version is compared with the one it replaced
+  const versions: Version[] = post
+    ? [{ content: post.content, created_at: post.edited_at ?? post.created_at }, ...revisions]
+    : [];
+  const selected = versions[selectedIndex];
+  const previous = versions[selectedIndex + 1];
+  const parts = selected && previous
+    ? diffWords(mentionsToPlainText(previous.content), mentionsToPlainText(selected.content))
+    : [];
+
+  const versionLabel = (index: number) => {
+    if (index === 0) return 'Current';
+    if (index === versions.length - 1) return 'Original';
+    return `Edit ${versions.length - 1 - index}`;
+  };
+
+  return (
+    <Dialog open={!!post} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-pixelated text-sm">Edit History</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="font-pixelated text-xs text-muted-foreground text-center py-6 animate-pulse">
+            Loading history...
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {versions.map((version, index) => (
+                <button
+                  key={`${version.created_at}-${index}`}
+                  type="button"
+                  onClick={() => setSelectedIndex(index)}
+                  className={`rounded-full border px-3 py-1 font-pixelated text-xs transition-colors ${
+                    index === selectedIndex
+                      ? 'border-social-green bg-social-green/10 text-social-green'
+                      : 'text-muted-foreground hover:border-social-green/50'
+                  }`}
+                >
+                  {versionLabel(index)}
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <p className="font-pixelated text-xs text-muted-foreground">
+                {format(new Date(selected.created_at), 'PPp')}
+                {previous && ' • changes from the previous version'}
+              </p>
+            )}
+
+            <ScrollArea className="max-h-80">
+              <div className="rounded-lg border p-3 font-pixelated text-xs leading-relaxed whitespace-pre-wrap break-words">
+                {previous
+                  ? parts.map((part, index) => (
+                      <span
+                        key={index}
+                        className={
+                          part.type === 'added'
+                            ? 'bg-social-green/20 text-social-green'
+                            : part.type === 'removed'
+                              ? 'bg-destructive/10 text-destructive line-through'
+                              : undefined
+                        }
+                      >
+                        {part.value}
+                      </span>
+                    ))
+                  : mentionsToPlainText(selected?.content ?? '')}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
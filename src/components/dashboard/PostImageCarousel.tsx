@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { SensitiveMediaCover } from '@/components/dashboard/ContentWarning';
+
+export interface PostImage {
+  url: string;
+  alt: string;
+  // Marked by the author when only this image is sensitive
+  sensitive?: boolean;
+}
+
+interface PostImageCarouselProps {
+  images: PostImage[];
+  onImageClick: (index: number) => void;
+  // Content warning of the whole post, covers every image
+  warning?: string | null;
+  revealed?: boolean;
+  onReveal?: () => void;
+}
+
+export function PostImageCarousel({ images, onImageClick, warning, revealed = true, onReveal }: PostImageCarouselProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const handleSelect = () => setCurrent(api.selectedScrollSnap());
+    api.on('select', handleSelect);
+    return () => {
+      api.off('select', handleSelect);
+    };
+  }, [api]);
+
+  const coverLabel = (image: PostImage) =>
+    revealed ? null : warning || (image.sensitive ? 'Sensitive image' : null);
+
+  if (images.length === 1) {
+    const label = coverLabel(images[0]);
+
+    if (label) {
+      return (
+        <div className="relative rounded-lg overflow-hidden">
+          <img
+            src={images[0].url}
+            alt=""
+            className="w-full max-h-96 object-cover blur-2xl scale-110"
+          />
+          <SensitiveMediaCover label={label} onShow={onReveal} />
+        </div>
+      );
+    }
+
+    return (
+      <img
+        src={images[0].url}
+        alt={images[0].alt || 'Post image'}
+        className="w-full max-h-96 object-cover rounded-lg cursor-pointer hover:opacity-90 transition-all duration-300 hover:scale-[1.02] gpu-accelerated"
+        onClick={() => onImageClick(0)}
+      />
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Carousel setApi={setApi} className="rounded-lg overflow-hidden">
+        <CarouselContent className="ml-0">
+          {images.map((image, index) => (
+            <CarouselItem key={`${image.url}-${index}`} className="pl-0 relative overflow-hidden">
+              {coverLabel(image) ? (
+                <>
+                  <img
+                    src={image.url}
+                    alt=""
+                    className="w-full h-80 object-cover blur-2xl scale-110"
+                    loading="lazy"
+                  />
+                  <SensitiveMediaCover label={coverLabel(image)} onShow={onReveal} />
+                </>
+              ) : (
+                <img
+                  src={image.url}
+                  alt={image.alt || `Post image ${index + 1} of ${images.length}`}
+                  className="w-full h-80 object-cover cursor-pointer"
+                  onClick={() => onImageClick(index)}
+                  loading="lazy"
+                />
+              )}
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-2 h-7 w-7 bg-background/80 hidden sm:flex" />
+        <CarouselNext className="right-2 h-7 w-7 bg-background/80 hidden sm:flex" />
+      </Carousel>
+
+      <div className="absolute top-2 right-2 rounded-full bg-black/60 px-2 py-0.5 font-pixelated text-xs text-white">
+        {current + 1}/{images.length}
+      </div>
+
+      <div className="flex justify-center gap-1 mt-2">
+        {images.map((image, index) => (
+          <button
+            key={`${image.url}-dot-${index}`}
+            type="button"
+            aria-label={`Go to image ${index + 1}`}
+            onClick={() => api?.scrollTo(index)}
+            className={`h-1.5 rounded-full transition-all duration-300 ${
+              index === current ? 'w-4 bg-social-green' : 'w-1.5 bg-muted-foreground/40'
+            }`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
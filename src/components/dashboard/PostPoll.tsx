@@ -0,0 +1,112 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, Clock, EyeOff } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+export interface PollOption {
+  id: string;
+  position: number;
+  label: string;
+  // Null while RLS keeps the results hidden from this viewer
+  poll_option_results: { votes_count: number } | null;
+}
+
+export interface Poll {
+  id: string;
+  allow_multiple: boolean;
+  hide_results: boolean;
+  closes_at: string | null;
+  poll_options: PollOption[];
+}
+
+interface PostPollProps {
+  poll: Poll;
+  myVotes: string[];
+  voting: boolean;
+  onVote: (optionId: string) => void;
+  onShowResults: () => void;
+}
+
+const isPollClosed = (poll: Poll) =>
+  !!poll.closes_at && new Date(poll.closes_at).getTime() <= Date.now();
+
+export function PostPoll({ poll, myVotes, voting, onVote, onShowResults }: PostPollProps) {
+  const options = [...poll.poll_options].sort((a, b) => a.position - b.position);
+  const closed = isPollClosed(poll);
+  const resultsVisible = options.length > 0 && options.every(option => option.poll_option_results);
+  const totalVotes = resultsVisible
+    ? options.reduce((sum, option) => sum + option.poll_option_results.votes_count, 0)
+    : 0;
+  const leadingVotes = Math.max(0, ...options.map(option => option.poll_option_results?.votes_count ?? 0));
+
+  return (
+    <div className="space-y-2">
+      {options.map(option => {
+        const votedFor = myVotes.includes(option.id);
+        const votes = option.poll_option_results?.votes_count ?? 0;
+        const percent = totalVotes > 0 ? Math.round((votes / totalVotes) * 100) : 0;
+
+        return (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => onVote(option.id)}
+            disabled={closed || voting}
+            aria-pressed={votedFor}
+            className={`relative w-full overflow-hidden rounded-lg border px-3 py-2 text-left transition-colors duration-300 disabled:cursor-default ${
+              votedFor ? 'border-social-green' : 'border-border hover:border-social-green/50'
+            }`}
+          >
+            {resultsVisible && (
+              <span
+                className={`absolute inset-y-0 left-0 transition-all duration-500 ${
+                  closed && votes === leadingVotes && votes > 0 ? 'bg-social-green/30' : 'bg-social-green/15'
+                }`}
+                style={{ width: `${percent}%` }}
+              />
+            )}
+            <span className="relative flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2 min-w-0">
+                {votedFor && <Check className="h-3 w-3 shrink-0 text-social-green" />}
+                <span className="font-pixelated text-xs break-words">{option.label}</span>
+              </span>
+              {resultsVisible && (
+                <span className="font-pixelated text-xs text-muted-foreground shrink-0">{percent}%</span>
+              )}
+            </span>
+          </button>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 font-pixelated text-xs text-muted-foreground">
+        {resultsVisible ? (
+          <span>{totalVotes} {totalVotes === 1 ? 'vote' : 'votes'}</span>
+        ) : (
+          <span className="flex items-center gap-1">
+            <EyeOff className="h-3 w-3" />
+            {closed ? 'Results hidden' : 'Vote to see results'}
+          </span>
+        )}
+        {poll.allow_multiple && <span>Multiple choice</span>}
+        {poll.closes_at && (
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {closed
+              ? `Closed ${formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}`
+              : `Closes ${formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}`}
+          </span>
+        )}
+        {closed && !resultsVisible && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onShowResults}
+            className="h-6 px-2 font-pixelated text-xs text-social-green hover:bg-social-green/5"
+          >
+            Show results
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
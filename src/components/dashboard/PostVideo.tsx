@@ -0,0 +1,42 @@
+import React, { useEffect, useRef } from 'react';
+import { useInView } from 'react-intersection-observer';
+
+interface PostVideoProps {
+  src: string;
+  poster?: string | null;
+}
+
+// Plays muted while at least half of the video is on screen
+export function PostVideo({ src, poster }: PostVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { ref, inView } = useInView({ threshold: 0.5 });
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (inView) {
+      video.play().catch(() => {
+        // Autoplay can be blocked by the browser, the controls still work
+      });
+    } else {
+      video.pause();
+    }
+  }, [inView]);
+
+  return (
+    <div ref={ref} className="rounded-lg overflow-hidden bg-black">
+      <video
+        ref={videoRef}
+        src={src}
+        poster={poster ?? undefined}
+        muted
+        loop
+        playsInline
+        controls
+        preload="metadata"
+        className="w-full max-h-96 object-contain"
+      />
+    </div>
+  );
+}
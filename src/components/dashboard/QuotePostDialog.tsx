@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Send, Users } from 'lucide-react';
+import { MentionTextarea } from '@/components/common/MentionTextarea';
+import { SharedPostCard, SharedPost } from '@/components/dashboard/SharedPostCard';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { serializeMentions } from '@/utils/mentionUtils';
+
+interface QuotePostDialogProps {
+  // The post being quoted, the dialog is open while it is set
+  post: SharedPost | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function QuotePostDialog({ post, onOpenChange }: QuotePostDialogProps) {
+  const [content, setContent] = useState('');
+  const [friendsOnly, setFriendsOnly] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const { toast } = useToast();
+
+  // Friends-only posts can only be quoted to friends
+  const lockedToFriends = post?.visibility === 'friends';
+
+  useEffect(() => {
+    setContent('');
+    setFriendsOnly(lockedToFriends);
+  }, [post?.id, lockedToFriends]);
+
+  const handleQuote = async () => {
+    if (!post || !content.trim() || posting) return;
+
+    try {
+      setPosting(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: newPost, error } = await supabase
+        .from('posts')
+        .insert({
+          content: await serializeMentions(content.trim()),
+          user_id: user.id,
+          visibility: friendsOnly ? 'friends' : 'public',
+          share_type: 'quote',
+          shared_post_id: post.id
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      window.dispatchEvent(new CustomEvent('postCreated', { detail: { id: newPost.id } }));
+      onOpenChange(false);
+
+      toast({
+        title: 'Success',
+        description: 'Your quote has been shared!'
+      });
+    } catch (error) {
+      console.error('Error quoting post:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to share post'
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!post} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-pixelated text-sm">Quote Post</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <MentionTextarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Add your thoughts..."
+            className="min-h-[80px] max-h-[160px] font-pixelated text-xs resize-none input-focus"
+            disabled={posting}
+            autoFocus
+          />
+          <SharedPostCard post={post} deleted={false} />
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="quote-friends-only"
+              checked={friendsOnly}
+              onCheckedChange={setFriendsOnly}
+              disabled={posting || lockedToFriends}
+            />
+            <Label htmlFor="quote-friends-only" className="font-pixelated text-xs flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              {lockedToFriends ? 'Friends only, like the original post' : 'Friends only'}
+            </Label>
+          </div>
+          <Button
+            onClick={handleQuote}
+            disabled={!content.trim() || posting}
+            className="w-full bg-social-green hover:bg-social-light-green text-white font-pixelated text-xs btn-hover"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {posting ? 'Sharing...' : 'Share Quote'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
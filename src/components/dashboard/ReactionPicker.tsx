@@ -0,0 +1,72 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Heart, SmilePlus } from 'lucide-react';
+import { REACTIONS, ReactionType, getReaction } from '@/utils/reactionUtils';
+
+interface ReactionPickerProps {
+  myReaction: ReactionType | null;
+  count: number;
+  disabled?: boolean;
+  // Picking the current reaction again removes it
+  onReact: (type: ReactionType) => void;
+}
+
+export function ReactionPicker({ myReaction, count, disabled, onReact }: ReactionPickerProps) {
+  const current = myReaction ? getReaction(myReaction) : null;
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onReact(myReaction ?? 'like')}
+        disabled={disabled}
+        title={current ? `Remove ${current.label}` : 'Like'}
+        className={`font-pixelated text-xs hover:bg-social-magenta/10 transition-all duration-300 btn-hover micro-bounce pr-1 ${
+          current ? 'text-social-magenta' : 'text-muted-foreground'
+        }`}
+      >
+        {current ? (
+          <span className="mr-1 text-sm leading-none scale-110">{current.emoji}</span>
+        ) : (
+          <Heart className="h-4 w-4 mr-1 transition-all duration-300" />
+        )}
+        {count}
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={disabled}
+            aria-label="Choose a reaction"
+            className="h-8 w-6 text-muted-foreground hover:bg-social-magenta/10"
+          >
+            <SmilePlus className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" side="top" className="flex gap-1 p-1 min-w-0 rounded-full">
+          {REACTIONS.map(reaction => (
+            <DropdownMenuItem
+              key={reaction.type}
+              onClick={() => onReact(reaction.type)}
+              title={reaction.label}
+              className={`h-9 w-9 justify-center rounded-full p-0 text-xl cursor-pointer transition-transform duration-200 hover:scale-125 ${
+                reaction.type === myReaction ? 'bg-social-magenta/15' : ''
+              }`}
+            >
+              {reaction.emoji}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { getReaction, getReactionSummary } from '@/utils/reactionUtils';
+
+// Most recent reactors shown per post
+const REACTORS_LIMIT = 200;
+
+interface Reactor {
+  user_id: string;
+  reaction_type: string;
+  profiles: {
+    name: string;
+    username: string;
+    avatar: string | null;
+  } | null;
+}
+
+interface ReactionsDialogProps {
+  postId: string | null;
+  reactionCounts: Json;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReactionsDialog({ postId, reactionCounts, onOpenChange }: ReactionsDialogProps) {
+  const [reactors, setReactors] = useState<Reactor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState('all');
+
+  const summary = getReactionSummary(reactionCounts);
+  const total = summary.reduce((sum, reaction) => sum + reaction.count, 0);
+
+  useEffect(() => {
+    if (!postId) return;
+
+    const fetchReactors = async () => {
+      try {
+        setLoading(true);
+        setActiveTab('all');
+
+        const { data, error } = await supabase
+          .from('likes')
+          .select(`
+            user_id,
+            reaction_type,
+            profiles:user_id (
+              name,
+              username,
+              avatar
+            )
+          `)
+          .eq('post_id', postId)
+          .order('created_at', { ascending: false })
+          .limit(REACTORS_LIMIT);
+
+        if (error) throw error;
+        setReactors(data || []);
+      } catch (error) {
+        console.error('Error fetching reactions:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReactors();
+  }, [postId]);
+
+  const visibleReactors = activeTab === 'all'
+    ? reactors
+    : reactors.filter(reactor => reactor.reaction_type === activeTab);
+
+  return (
+    <Dialog open={!!postId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-pixelated text-sm">Reactions</DialogTitle>
+        </DialogHeader>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="w-full justify-start overflow-x-auto">
+            <TabsTrigger value="all" className="font-pixelated text-xs">
+              All {total}
+            </TabsTrigger>
+            {summary.map(reaction => (
+              <TabsTrigger key={reaction.type} value={reaction.type} className="font-pixelated text-xs gap-1">
+                <span>{reaction.emoji}</span>
+                {reaction.count}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <ScrollArea className="h-72">
+          {loading ? (
+            <p className="font-pixelated text-xs text-muted-foreground text-center py-8 animate-pulse">
+              Loading reactions...
+            </p>
+          ) : visibleReactors.length === 0 ? (
+            <p className="font-pixelated text-xs text-muted-foreground text-center py-8">
+              No reactions yet
+            </p>
+          ) : (
+            <div className="space-y-2 pr-3">
+              {visibleReactors.map(reactor => (
+                <div key={reactor.user_id} className="flex items-center gap-3 p-1">
+                  <div className="relative">
+                    <Avatar className="h-8 w-8">
+                      {reactor.profiles?.avatar ? (
+                        <AvatarImage src={reactor.profiles.avatar} alt={reactor.profiles.name} />
+                      ) : (
+                        <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-xs">
+                          {reactor.profiles?.name?.substring(0, 2).toUpperCase() || 'U'}
+                        </AvatarFallback>
+                      )}
+                    </Avatar>
+                    <span className="absolute -bottom-1 -right-1 text-xs leading-none">
+                      {getReaction(reactor.reaction_type).emoji}
+                    </span>
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-pixelated text-xs font-medium truncate">{reactor.profiles?.name}</p>
+                    <p className="font-pixelated text-xs text-muted-foreground truncate">@{reactor.profiles?.username}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Lock, Trash2, Video } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { RichText } from '@/components/common/RichText';
+import { ContentWarning, SensitiveMediaCover } from '@/components/dashboard/ContentWarning';
+import { useSensitiveContent } from '@/hooks/use-sensitive-content';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface SharedPost {
+  id: string;
+  content: string;
+  image_url: string | null;
+  images: Json;
+  video_url: string | null;
+  video_poster_url: string | null;
+  created_at: string;
+  user_id: string;
+  visibility: string;
+  content_warning: string | null;
+  profiles: {
+    name: string;
+    username: string;
+    avatar: string | null;
+  };
+}
+
+interface SharedPostCardProps {
+  // Null when the original is deleted or hidden from this viewer
+  post: SharedPost | null;
+  deleted: boolean;
+}
+
+export function SharedPostCard({ post, deleted }: SharedPostCardProps) {
+  const [revealed, setRevealed] = useState(false);
+  const navigate = useNavigate();
+  const { preference } = useSensitiveContent();
+
+  if (deleted || !post) {
+    const Icon = deleted ? Trash2 : Lock;
+    return (
+      <div className="flex items-center gap-3 rounded-lg border border-dashed p-3 text-muted-foreground">
+        <Icon className="h-4 w-4 flex-shrink-0" />
+        <p className="font-pixelated text-xs">
+          {deleted ? 'This post has been deleted' : 'This post is not available to you'}
+        </p>
+      </div>
+    );
+  }
+
+  const images = Array.isArray(post.images) ? (post.images as { url: string; sensitive?: boolean }[]).filter(image => image?.url) : [];
+  const thumbnail = images[0]?.url || post.image_url || post.video_poster_url;
+  const covered = preference !== 'show' && !revealed;
+  const thumbnailWarning = covered ? post.content_warning || (images[0]?.sensitive ? 'Sensitive image' : null) : null;
+
+  return (
+    <div
+      role="link"
+      tabIndex={0}
+      onClick={(e) => {
+        // Hashtag links inside the content navigate on their own
+        if ((e.target as HTMLElement).closest('a')) return;
+        navigate(`/post/${post.id}`);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') navigate(`/post/${post.id}`);
+      }}
+      className="rounded-lg border p-3 space-y-2 cursor-pointer hover:bg-muted/30 transition-colors duration-300"
+    >
+      <div className="flex items-center gap-2">
+        <Avatar className="h-6 w-6">
+          {post.profiles?.avatar ? (
+            <AvatarImage src={post.profiles.avatar} alt={post.profiles.name} />
+          ) : (
+            <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-[10px]">
+              {post.profiles?.name?.substring(0, 2).toUpperCase() || 'U'}
+            </AvatarFallback>
+          )}
+        </Avatar>
+        <p className="font-pixelated text-xs font-medium truncate">{post.profiles?.name}</p>
+        <p className="font-pixelated text-xs text-muted-foreground truncate">
+          @{post.profiles?.username} • {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
+        </p>
+      </div>
+
+      {post.content_warning && covered ? (
+        <ContentWarning label={post.content_warning} onShow={() => setRevealed(true)} />
+      ) : post.content && (
+        <RichText
+          content={post.content}
+          className="font-pixelated text-xs leading-relaxed whitespace-pre-wrap line-clamp-4"
+        />
+      )}
+
+      {thumbnail && (
+        <div className="relative rounded-md overflow-hidden">
+          <img
+            src={thumbnail}
+            alt={images.length > 0 ? 'Shared post image' : 'Shared post video'}
+            className={`w-full max-h-48 object-cover ${thumbnailWarning ? 'blur-2xl scale-110' : ''}`}
+            loading="lazy"
+          />
+          {thumbnailWarning && (
+            <SensitiveMediaCover label={thumbnailWarning} onShow={() => setRevealed(true)} />
+          )}
+          {images.length > 1 && (
+            <span className="absolute top-1 right-1 rounded-full bg-black/60 px-2 py-0.5 font-pixelated text-[10px] text-white">
+              +{images.length - 1}
+            </span>
+          )}
+          {images.length === 0 && post.video_url && (
+            <Video className="absolute bottom-2 left-2 h-4 w-4 text-white drop-shadow" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { TrendingUp } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Window and size of the ranking
+const TRENDING_WINDOW_HOURS = 48;
+const TRENDING_LIMIT = 10;
+
+interface TrendingTag {
+  tag: string;
+  post_count: number;
+}
+
+interface TrendingTagsProps {
+  // Tag to highlight, e.g. on its own tag page
+  activeTag?: string;
+}
+
+export function TrendingTags({ activeTag }: TrendingTagsProps) {
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTrendingTags = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_trending_hashtags', {
+          since_hours: TRENDING_WINDOW_HOURS,
+          max_results: TRENDING_LIMIT
+        });
+
+        if (error) throw error;
+        setTags(data || []);
+      } catch (error) {
+        console.error('Error fetching trending tags:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTrendingTags();
+  }, []);
+
+  // Nothing trending yet, keep the feed uncluttered
+  if (loading || tags.length === 0) return null;
+
+  return (
+    <Card className="mb-4 card-gradient animate-fade-in">
+      <CardContent className="p-3">
+        <div className="flex items-center gap-2 mb-2">
+          <TrendingUp className="h-4 w-4 text-social-green" />
+          <h2 className="font-pixelated text-xs font-medium">Trending</h2>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {tags.map(({ tag, post_count }) => (
+            <Link
+              key={tag}
+              to={`/tags/${encodeURIComponent(tag)}`}
+              className={`font-pixelated text-xs rounded-full border px-2 py-1 transition-colors hover:bg-social-green/10 ${
+                tag === activeTag ? 'border-social-green bg-social-green/10 text-social-green' : 'border-border'
+              }`}
+            >
+              #{tag}
+              <span className="ml-1 text-muted-foreground">{post_count}</span>
+            </Link>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
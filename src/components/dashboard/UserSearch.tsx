@@ -1,5 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -7,6 +8,9 @@ import { UserPlus } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { UserProfileDialog } from '@/components/user/UserProfileDialog';
+import { MIN_SEARCH_LENGTH } from '@/utils/searchUtils';
+
+const MAX_RESULTS = 5;
 
 interface User {
   id: string;
@@ -24,6 +28,7 @@ export function UserSearch() {
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [showUserDialog, setShowUserDialog] = useState(false);
+  const navigate = useNavigate();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -38,22 +43,21 @@ export function UserSearch() {
 
   useEffect(() => {
     async function searchUsers() {
-      if (searchTerm.trim().length < 2) {
+      if (searchTerm.trim().length < MIN_SEARCH_LENGTH) {
         setSearchResults([]);
         return;
       }
 
       setIsLoading(true);
       try {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('id, name, username, avatar')
-          .or(`name.ilike.%${searchTerm}%,username.ilike.%${searchTerm}%`)
-          .neq('id', currentUserId)
-          .limit(5);
+        // One extra result covers the current user, who is left out
+        const { data, error } = await supabase.rpc('search_people', {
+          search_query: searchTerm.trim(),
+          result_limit: MAX_RESULTS + 1
+        });
 
         if (error) throw error;
-        setSearchResults(data || []);
+        setSearchResults((data || []).filter(user => user.id !== currentUserId).slice(0, MAX_RESULTS));
       } catch (error) {
         console.error('Error searching users:', error);
         toast({
@@ -175,13 +179,24 @@ export function UserSearch() {
           </div>
         )}
 
-        {searchTerm.length >= 2 && searchResults.length === 0 && !isLoading && (
+        {searchTerm.trim().length >= MIN_SEARCH_LENGTH && searchResults.length === 0 && !isLoading && (
           <div className="text-center py-2">
             <p className="font-pixelated text-xs text-muted-foreground">
               No users found
             </p>
           </div>
         )}
+
+        {searchTerm.trim().length >= MIN_SEARCH_LENGTH && !isLoading && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate(`/search?q=${encodeURIComponent(searchTerm.trim())}&tab=people`)}
+            className="w-full h-7 font-pixelated text-xs text-muted-foreground"
+          >
+            See all results
+          </Button>
+        )}
       </div>
 
       <UserProfileDialog
@@ -1,17 +1,45 @@
-
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
 import { X } from 'lucide-react';
 
-interface ImageViewerProps {
+export interface ViewerImage {
   src: string;
   alt: string;
+}
+
+interface ImageViewerProps {
+  images: ViewerImage[];
+  initialIndex?: number;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export function ImageViewer({ src, alt, isOpen, onClose }: ImageViewerProps) {
+export function ImageViewer({ images, initialIndex = 0, isOpen, onClose }: ImageViewerProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(initialIndex);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const handleSelect = () => setCurrent(api.selectedScrollSnap());
+    handleSelect();
+    api.on('select', handleSelect);
+    return () => {
+      api.off('select', handleSelect);
+    };
+  }, [api]);
+
+  const hasMultiple = images.length > 1;
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-full max-h-full w-screen h-screen p-0 bg-black/90">
@@ -24,11 +52,34 @@ export function ImageViewer({ src, alt, isOpen, onClose }: ImageViewerProps) {
           >
             <X className="h-6 w-6" />
           </Button>
-          <img
-            src={src}
-            alt={alt}
-            className="max-w-full max-h-full object-contain"
-          />
+          <Carousel
+            setApi={setApi}
+            opts={{ startIndex: initialIndex }}
+            className="w-full h-full"
+          >
+            <CarouselContent className="h-screen ml-0">
+              {images.map((image, index) => (
+                <CarouselItem key={`${image.src}-${index}`} className="pl-0 flex items-center justify-center">
+                  <img
+                    src={image.src}
+                    alt={image.alt}
+                    className="max-w-full max-h-full object-contain"
+                  />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {hasMultiple && (
+              <>
+                <CarouselPrevious className="left-4 bg-black/50 text-white border-white/20 hover:bg-white/20 hidden sm:flex" />
+                <CarouselNext className="right-4 bg-black/50 text-white border-white/20 hover:bg-white/20 hidden sm:flex" />
+              </>
+            )}
+          </Carousel>
+          {hasMultiple && (
+            <p className="absolute bottom-6 left-1/2 -translate-x-1/2 font-pixelated text-xs text-white/80">
+              {current + 1} / {images.length}
+            </p>
+          )}
         </div>
       </DialogContent>
     </Dialog>
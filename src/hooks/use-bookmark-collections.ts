@@ -0,0 +1,63 @@
+import { create } from 'zustand';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+}
+
+interface BookmarkCollectionsStore {
+  collections: BookmarkCollection[];
+  fetchCollections: () => Promise<void>;
+  createCollection: (name: string) => Promise<BookmarkCollection>;
+  deleteCollection: (id: string) => Promise<void>;
+}
+
+const byName = (a: BookmarkCollection, b: BookmarkCollection) => a.name.localeCompare(b.name);
+
+// Shared between the feed's save menu and the saved page so both stay in step
+export const useBookmarkCollections = create<BookmarkCollectionsStore>((set) => ({
+  collections: [],
+
+  fetchCollections: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bookmark_collections')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      set({ collections: data || [] });
+    } catch (error) {
+      console.error('Error fetching bookmark collections:', error);
+    }
+  },
+
+  createCollection: async (name: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    const { data, error } = await supabase
+      .from('bookmark_collections')
+      .insert({ user_id: user.id, name: name.trim() })
+      .select('id, name')
+      .single();
+
+    if (error) throw error;
+
+    set(state => ({ collections: [...state.collections, data].sort(byName) }));
+    return data;
+  },
+
+  deleteCollection: async (id: string) => {
+    // Bookmarks in the collection are kept, they fall back to uncategorised
+    const { error } = await supabase
+      .from('bookmark_collections')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    set(state => ({ collections: state.collections.filter(collection => collection.id !== id) }));
+  },
+}));
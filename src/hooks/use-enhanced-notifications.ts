@@ -2,6 +2,7 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useOneSignalNotifications } from '@/hooks/use-onesignal-notifications';
+import { getReaction } from '@/utils/reactionUtils';
 
 interface NotificationData {
   id: string;
@@ -400,11 +401,15 @@ export function useEnhancedNotifications() {
               .single();
 
             if (liker) {
+              const reaction = getReaction(like.reaction_type);
+
               // Create notification
               await createNotification(
                 currentUser.id,
                 'like',
-                `${liker.name} liked your post`,
+                reaction.type === 'like'
+                  ? `${liker.name} liked your post`
+                  : `${liker.name} reacted ${reaction.emoji} to your post`,
                 like.post_id
               );
             }
@@ -421,6 +426,33 @@ export function useEnhancedNotifications() {
           table: 'comments'
         }, async (payload) => {
           const comment = payload.new;
+
+          // Replies notify the author of the comment being replied to
+          if (comment.parent_id && comment.user_id !== currentUser.id) {
+            const { data: parentComment } = await supabase
+              .from('comments')
+              .select('user_id')
+              .eq('id', comment.parent_id)
+              .single();
+
+            if (parentComment && parentComment.user_id === currentUser.id) {
+              const { data: replier } = await supabase
+                .from('profiles')
+                .select('name, username')
+                .eq('id', comment.user_id)
+                .single();
+
+              if (replier) {
+                await createNotification(
+                  currentUser.id,
+                  'comment_reply',
+                  `${replier.name} replied to your comment`,
+                  comment.post_id
+                );
+              }
+              return;
+            }
+          }
           
           // Check if this is a comment on current user's post
           const { data: post } = await supabase
@@ -450,13 +482,87 @@ export function useEnhancedNotifications() {
         })
         .subscribe();
 
+      // Comment likes subscription
+      const commentLikesChannel = supabase
+        .channel(`comment-likes-${currentUser.id}`)
+        .on('postgres_changes', {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'comment_likes'
+        }, async (payload) => {
+          const commentLike = payload.new;
+
+          if (commentLike.user_id === currentUser.id) return;
+
+          // Check if the liked comment is on current user's post
+          const { data: comment } = await supabase
+            .from('comments')
+            .select('post_id, posts:post_id(user_id)')
+            .eq('id', commentLike.comment_id)
+            .single();
+
+          if (comment && comment.posts?.user_id === currentUser.id) {
+            // Get liker info
+            const { data: liker } = await supabase
+              .from('profiles')
+              .select('name, username')
+              .eq('id', commentLike.user_id)
+              .single();
+
+            if (liker) {
+              // Create notification
+              await createNotification(
+                currentUser.id,
+                'comment_like',
+                `${liker.name} liked a comment on your post`,
+                comment.post_id
+              );
+            }
+          }
+        })
+        .subscribe();
+
+      // Mentions subscription
+      const mentionsChannel = supabase
+        .channel(`mentions-${currentUser.id}`)
+        .on('postgres_changes', {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'mentions',
+          filter: `user_id=eq.${currentUser.id}`
+        }, async (payload) => {
+          const mention = payload.new;
+
+          // Get author info
+          const { data: author } = await supabase
+            .from('profiles')
+            .select('name, username')
+            .eq('id', mention.author_id)
+            .single();
+
+          if (author) {
+            const source = mention.message_id ? 'a message' : mention.comment_id ? 'a comment' : 'a post';
+
+            // Create notification
+            await createNotification(
+              currentUser.id,
+              'mention',
+              `${author.name} mentioned you in ${source}`,
+              mention.post_id
+            );
+          }
+        })
+        .subscribe();
+
       // Store channels for cleanup
       channelsRef.current = [
         notificationsChannel,
         messagesChannel,
         friendsChannel,
         likesChannel,
-        commentsChannel
+        commentsChannel,
+        commentLikesChannel,
+        mentionsChannel
       ];
     };
 
@@ -532,6 +638,12 @@ function getNotificationTitle(type: string): string {
       return 'New Like';
     case 'comment':
       return 'New Comment';
+    case 'comment_like':
+      return 'New Comment Like';
+    case 'comment_reply':
+      return 'New Reply';
+    case 'mention':
+      return 'New Mention';
     default:
       return 'Notification';
   }
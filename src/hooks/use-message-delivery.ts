@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+const markDelivered = async () => {
+  const { error } = await supabase.rpc('mark_messages_delivered');
+  if (error) {
+    console.error('Error marking messages as delivered:', error);
+  }
+};
+
+/**
+ * Marks the user's incoming messages as delivered while the app is open on any page.
+ * Runs on every (re)subscribe too, which covers messages sent while offline.
+ */
+export function useMessageDelivery(userId: string | undefined) {
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`message-delivery-${userId}`)
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `receiver_id=eq.${userId}` },
+        () => markDelivered()
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          markDelivered();
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+}
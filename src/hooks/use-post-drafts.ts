@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface PostDraft {
+  id: string;
+  content: string;
+  images: Json;
+  video_url: string | null;
+  video_poster_url: string | null;
+  visibility: string;
+  comments_disabled: boolean;
+  content_warning: string | null;
+  scheduled_at: string | null;
+  updated_at: string;
+}
+
+export type PostDraftFields = Omit<PostDraft, 'id' | 'updated_at'>;
+
+const DRAFT_SELECT = 'id, content, images, video_url, video_poster_url, visibility, comments_disabled, content_warning, scheduled_at, updated_at';
+
+interface PostDraftsStore {
+  drafts: PostDraft[];
+  fetchDrafts: () => Promise<void>;
+  saveDraft: (id: string | null, fields: PostDraftFields) => Promise<PostDraft>;
+  deleteDraft: (id: string) => Promise<void>;
+}
+
+const byUpdatedAt = (a: PostDraft, b: PostDraft) => b.updated_at.localeCompare(a.updated_at);
+
+// Shared between the composer's autosave and the drafts manager so both stay in step
+export const usePostDrafts = create<PostDraftsStore>((set) => ({
+  drafts: [],
+
+  fetchDrafts: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('post_drafts')
+        .select(DRAFT_SELECT)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      set({ drafts: data || [] });
+    } catch (error) {
+      console.error('Error fetching drafts:', error);
+    }
+  },
+
+  saveDraft: async (id: string | null, fields: PostDraftFields) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    let { data, error } = id
+      ? await supabase
+          .from('post_drafts')
+          .update({ ...fields, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select(DRAFT_SELECT)
+          .maybeSingle()
+      : { data: null, error: null };
+
+    // New drafts, and drafts deleted or published from another device, start a fresh row
+    if (!data && !error) {
+      ({ data, error } = await supabase
+        .from('post_drafts')
+        .insert({ ...fields, user_id: user.id })
+        .select(DRAFT_SELECT)
+        .single());
+    }
+
+    if (error) throw error;
+
+    set(state => ({
+      drafts: [data, ...state.drafts.filter(draft => draft.id !== data.id)].sort(byUpdatedAt)
+    }));
+    return data;
+  },
+
+  deleteDraft: async (id: string) => {
+    const { error } = await supabase
+      .from('post_drafts')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    set(state => ({ drafts: state.drafts.filter(draft => draft.id !== id) }));
+  },
+}));
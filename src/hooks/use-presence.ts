@@ -0,0 +1,177 @@
+import { create } from 'zustand';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// How often profiles.last_seen_at is refreshed while the app is open
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+interface PresenceStore {
+  userId: string | null;
+  showPresence: boolean;
+  onlineUserIds: Set<string>;
+  connect: (userId: string) => Promise<void>;
+  disconnect: () => void;
+  watch: (userId: string) => () => void;
+  setShowPresence: (showPresence: boolean) => Promise<void>;
+}
+
+let channel: RealtimeChannel | null = null;
+// Channels of the people whose presence is on screen, shared by every dot showing the same person
+const watched = new Map<string, { channel: RealtimeChannel; watchers: number }>();
+let lastSeenTimer: ReturnType<typeof setInterval> | null = null;
+// Bumped on every connect and disconnect so a stale connect can tell it was superseded
+let connectAttempt = 0;
+
+const touchLastSeen = async () => {
+  const { error } = await supabase.rpc('touch_last_seen');
+  if (error) {
+    console.error('Error updating last seen:', error);
+  }
+};
+
+// Leaving the tab is the closest thing to going offline we reliably hear about
+const handleVisibilityChange = () => {
+  if (document.visibilityState === 'hidden') {
+    touchLastSeen();
+  }
+};
+
+const startLastSeen = () => {
+  stopLastSeen();
+  touchLastSeen();
+  lastSeenTimer = setInterval(touchLastSeen, LAST_SEEN_INTERVAL_MS);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+};
+
+const stopLastSeen = () => {
+  if (lastSeenTimer) {
+    clearInterval(lastSeenTimer);
+    lastSeenTimer = null;
+  }
+  document.removeEventListener('visibilitychange', handleVisibilityChange);
+};
+
+// Private channels, only accepted friends can join one (see the private_presence migration)
+const presenceTopic = (userId: string) => `presence:${userId}`;
+
+// Users are tracked in their own channel when they show their presence, friends join it to see them online
+export const usePresence = create<PresenceStore>((set, get) => ({
+  userId: null,
+  showPresence: true,
+  onlineUserIds: new Set(),
+
+  connect: async (userId: string) => {
+    if (get().userId === userId) return;
+    get().disconnect();
+    const attempt = ++connectAttempt;
+    set({ userId });
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('show_presence')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching presence setting:', error);
+    }
+
+    // Signed out or switched accounts while the setting loaded
+    if (attempt !== connectAttempt) return;
+
+    const showPresence = data?.show_presence ?? true;
+    set({ showPresence });
+
+    const ownChannel = supabase.channel(presenceTopic(userId), {
+      config: { private: true, presence: { key: userId } }
+    });
+
+    ownChannel.subscribe((status) => {
+      if (status === 'SUBSCRIBED' && get().showPresence) {
+        ownChannel.track({ online_at: new Date().toISOString() });
+      }
+    });
+
+    channel = ownChannel;
+
+    if (showPresence) {
+      startLastSeen();
+    }
+  },
+
+  disconnect: () => {
+    connectAttempt++;
+    stopLastSeen();
+    if (channel) {
+      supabase.removeChannel(channel);
+      channel = null;
+    }
+    set({ userId: null });
+  },
+
+  watch: (userId: string) => {
+    const existing = watched.get(userId);
+    if (existing) {
+      existing.watchers++;
+    } else {
+      const friendChannel = supabase.channel(presenceTopic(userId), {
+        config: { private: true }
+      });
+
+      friendChannel
+        .on('presence', { event: 'sync' }, () => {
+          const online = userId in friendChannel.presenceState();
+          if (get().onlineUserIds.has(userId) === online) return;
+
+          const onlineUserIds = new Set(get().onlineUserIds);
+          if (online) {
+            onlineUserIds.add(userId);
+          } else {
+            onlineUserIds.delete(userId);
+          }
+          set({ onlineUserIds });
+        })
+        // Refused when the two aren't friends, they simply never show as online
+        .subscribe();
+
+      watched.set(userId, { channel: friendChannel, watchers: 1 });
+    }
+
+    return () => {
+      const entry = watched.get(userId);
+      if (!entry || --entry.watchers > 0) return;
+
+      watched.delete(userId);
+      supabase.removeChannel(entry.channel);
+      const onlineUserIds = new Set(get().onlineUserIds);
+      onlineUserIds.delete(userId);
+      set({ onlineUserIds });
+    };
+  },
+
+  setShowPresence: async (showPresence: boolean) => {
+    const { userId } = get();
+    if (!userId) throw new Error('Not signed in');
+
+    const previous = get().showPresence;
+    set({ showPresence });
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ show_presence: showPresence })
+      .eq('id', userId);
+
+    if (error) {
+      set({ showPresence: previous });
+      throw error;
+    }
+
+    if (showPresence) {
+      channel?.track({ online_at: new Date().toISOString() });
+      startLastSeen();
+    } else {
+      channel?.untrack();
+      stopLastSeen();
+    }
+  },
+}));
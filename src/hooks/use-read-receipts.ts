@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { supabase } from '@/integrations/supabase/client';
+
+interface ReadReceiptsStore {
+  enabled: boolean;
+  fetchPreference: () => Promise<void>;
+  setEnabled: (enabled: boolean) => Promise<void>;
+}
+
+// Shared between the settings page and the chat, receipts are reciprocal so turning them off hides other people's too
+export const useReadReceipts = create<ReadReceiptsStore>((set, get) => ({
+  enabled: true,
+
+  fetchPreference: async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('read_receipts')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      set({ enabled: data.read_receipts ?? true });
+    } catch (error) {
+      console.error('Error fetching read receipts preference:', error);
+    }
+  },
+
+  setEnabled: async (enabled: boolean) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    const previous = get().enabled;
+    set({ enabled });
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ read_receipts: enabled })
+      .eq('id', user.id);
+
+    if (error) {
+      set({ enabled: previous });
+      throw error;
+    }
+  },
+}));
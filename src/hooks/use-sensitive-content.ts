@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { supabase } from '@/integrations/supabase/client';
+
+export type SensitiveContentPreference = 'show' | 'blur' | 'hide';
+
+interface SensitiveContentStore {
+  preference: SensitiveContentPreference;
+  fetchPreference: () => Promise<void>;
+  setPreference: (preference: SensitiveContentPreference) => Promise<void>;
+}
+
+// Shared between the settings page and everything that renders posts
+export const useSensitiveContent = create<SensitiveContentStore>((set, get) => ({
+  preference: 'blur',
+
+  fetchPreference: async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('sensitive_content')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      set({ preference: (data.sensitive_content as SensitiveContentPreference) || 'blur' });
+    } catch (error) {
+      console.error('Error fetching sensitive content preference:', error);
+    }
+  },
+
+  setPreference: async (preference: SensitiveContentPreference) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    const previous = get().preference;
+    set({ preference });
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ sensitive_content: preference })
+      .eq('id', user.id);
+
+    if (error) {
+      set({ preference: previous });
+      throw error;
+    }
+  },
+}));
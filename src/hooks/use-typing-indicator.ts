@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { usePresence } from '@/hooks/use-presence';
+
+// Typing stops counting once the user has been idle this long
+const TYPING_TIMEOUT_MS = 3000;
+
+interface TypingState {
+  typing: boolean;
+}
+
+/**
+ * Shares typing state between the two people in a conversation through a presence channel.
+ * Users who hide their presence can see the other side typing but never show as typing themselves.
+ */
+export function useTypingIndicator(userId: string | undefined, partnerId: string | undefined) {
+  const showPresence = usePresence(state => state.showPresence);
+  const [partnerTyping, setPartnerTyping] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingRef = useRef(false);
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    if (!userId || !partnerId) return;
+
+    // Both sides derive the same name from the sorted pair, only the two of them may join it
+    const channel = supabase.channel(`typing:${[userId, partnerId].sort().join(':')}`, {
+      config: { private: true, presence: { key: userId } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<TypingState>();
+        setPartnerTyping(!!state[partnerId]?.some(presence => presence.typing));
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(stopTimerRef.current);
+      channelRef.current = null;
+      typingRef.current = false;
+      setPartnerTyping(false);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, partnerId]);
+
+  const setTyping = useCallback((typing: boolean) => {
+    const track = (next: boolean) => {
+      if (typingRef.current === next) return;
+      typingRef.current = next;
+      channelRef.current?.track({ typing: next });
+    };
+
+    clearTimeout(stopTimerRef.current);
+
+    if (!typing || !showPresence) {
+      track(false);
+      return;
+    }
+
+    track(true);
+    stopTimerRef.current = setTimeout(() => track(false), TYPING_TIMEOUT_MS);
+  }, [showPresence]);
+
+  return { partnerTyping, setTyping };
+}
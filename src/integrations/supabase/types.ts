@@ -9,6 +9,81 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      bookmark_collections: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmark_collections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bookmarks: {
+        Row: {
+          collection_id: string | null
+          created_at: string
+          id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          collection_id?: string | null
+          created_at?: string
+          id?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          collection_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "bookmark_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       call_history: {
         Row: {
           call_type: string
@@ -97,28 +172,60 @@ export type Database = {
         Row: {
           content: string
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           id: string
+          likes_count: number
+          parent_id: string | null
           post_id: string
+          replies_count: number
+          search_vector: unknown | null
           updated_at: string
           user_id: string
         }
         Insert: {
           content: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
+          likes_count?: number
+          parent_id?: string | null
           post_id: string
+          replies_count?: number
+          search_vector?: unknown | null
           updated_at?: string
           user_id: string
         }
         Update: {
           content?: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
+          likes_count?: number
+          parent_id?: string | null
           post_id?: string
+          replies_count?: number
+          search_vector?: unknown | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "comments_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_post_id_fkey"
             columns: ["post_id"]
@@ -135,6 +242,137 @@ export type Database = {
           },
         ]
       }
+      communities: {
+        Row: {
+          admin_id: string
+          avatar: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_private: boolean | null
+          member_count: number | null
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          admin_id: string
+          avatar?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_private?: boolean | null
+          member_count?: number | null
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          admin_id?: string
+          avatar?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_private?: boolean | null
+          member_count?: number | null
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "communities_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      community_members: {
+        Row: {
+          community_id: string
+          created_at: string | null
+          id: string
+          joined_at: string | null
+          role: string | null
+          status: string | null
+          user_id: string
+        }
+        Insert: {
+          community_id: string
+          created_at?: string | null
+          id?: string
+          joined_at?: string | null
+          role?: string | null
+          status?: string | null
+          user_id: string
+        }
+        Update: {
+          community_id?: string
+          created_at?: string | null
+          id?: string
+          joined_at?: string | null
+          role?: string | null
+          status?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "community_members_community_id_fkey"
+            columns: ["community_id"]
+            isOneToOne: false
+            referencedRelation: "communities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "community_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      community_messages: {
+        Row: {
+          community_id: string
+          content: string
+          created_at: string | null
+          id: string
+          message_type: string | null
+          user_id: string
+        }
+        Insert: {
+          community_id: string
+          content: string
+          created_at?: string | null
+          id?: string
+          message_type?: string | null
+          user_id: string
+        }
+        Update: {
+          community_id?: string
+          content?: string
+          created_at?: string | null
+          id?: string
+          message_type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "community_messages_community_id_fkey"
+            columns: ["community_id"]
+            isOneToOne: false
+            referencedRelation: "communities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "community_messages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       friends: {
         Row: {
           created_at: string
@@ -182,18 +420,21 @@ export type Database = {
           created_at: string
           id: string
           post_id: string
+          reaction_type: string
           user_id: string
         }
         Insert: {
           created_at?: string
           id?: string
           post_id: string
+          reaction_type?: string
           user_id: string
         }
         Update: {
           created_at?: string
           id?: string
           post_id?: string
+          reaction_type?: string
           user_id?: string
         }
         Relationships: [
@@ -213,33 +454,174 @@ export type Database = {
           },
         ]
       }
+      link_previews: {
+        Row: {
+          description: string | null
+          fetched_at: string
+          image_url: string | null
+          site_name: string | null
+          status: string
+          title: string | null
+          url: string
+        }
+        Insert: {
+          description?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          site_name?: string | null
+          status?: string
+          title?: string | null
+          url: string
+        }
+        Update: {
+          description?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          site_name?: string | null
+          status?: string
+          title?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      mentions: {
+        Row: {
+          author_id: string
+          comment_id: string | null
+          created_at: string
+          id: string
+          message_id: string | null
+          post_id: string | null
+          user_id: string
+        }
+        Insert: {
+          author_id: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          post_id?: string | null
+          user_id: string
+        }
+        Update: {
+          author_id?: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          post_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mentions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_unreads: {
+        Row: {
+          created_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_unreads_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_unreads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           content: string
           created_at: string
+          delivered_at: string | null
+          edited_at: string | null
           id: string
           message_type: string
-          read: boolean
+          read_at: string | null
           receiver_id: string
+          reply_to_id: string | null
           sender_id: string
+          unsent_at: string | null
         }
         Insert: {
           content: string
           created_at?: string
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
           message_type?: string
-          read?: boolean
+          read_at?: string | null
           receiver_id: string
+          reply_to_id?: string | null
           sender_id: string
+          unsent_at?: string | null
         }
         Update: {
           content?: string
           created_at?: string
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
           message_type?: string
-          read?: boolean
+          read_at?: string | null
           receiver_id?: string
+          reply_to_id?: string | null
           sender_id?: string
+          unsent_at?: string | null
         }
         Relationships: [
           {
@@ -249,6 +631,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_sender_id_fkey"
             columns: ["sender_id"]
@@ -299,35 +688,338 @@ export type Database = {
           },
         ]
       }
+      poll_option_results: {
+        Row: {
+          option_id: string
+          poll_id: string
+          votes_count: number
+        }
+        Insert: {
+          option_id: string
+          poll_id: string
+          votes_count?: number
+        }
+        Update: {
+          option_id?: string
+          poll_id?: string
+          votes_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_option_results_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: true
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_option_results_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_options: {
+        Row: {
+          id: string
+          label: string
+          poll_id: string
+          position: number
+        }
+        Insert: {
+          id?: string
+          label: string
+          poll_id: string
+          position: number
+        }
+        Update: {
+          id?: string
+          label?: string
+          poll_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_options_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          created_at: string
+          id: string
+          option_id: string
+          poll_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          option_id: string
+          poll_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          option_id?: string
+          poll_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_votes_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      polls: {
+        Row: {
+          allow_multiple: boolean
+          closes_at: string | null
+          created_at: string
+          hide_results: boolean
+          id: string
+          post_id: string
+        }
+        Insert: {
+          allow_multiple?: boolean
+          closes_at?: string | null
+          created_at?: string
+          hide_results?: boolean
+          id?: string
+          post_id: string
+        }
+        Update: {
+          allow_multiple?: boolean
+          closes_at?: string | null
+          created_at?: string
+          hide_results?: boolean
+          id?: string
+          post_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "polls_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_drafts: {
+        Row: {
+          comments_disabled: boolean
+          content_warning: string | null
+          content: string
+          created_at: string
+          id: string
+          images: Json
+          scheduled_at: string | null
+          updated_at: string
+          user_id: string
+          video_poster_url: string | null
+          video_url: string | null
+          visibility: string
+        }
+        Insert: {
+          comments_disabled?: boolean
+          content_warning?: string | null
+          content?: string
+          created_at?: string
+          id?: string
+          images?: Json
+          scheduled_at?: string | null
+          updated_at?: string
+          user_id: string
+          video_poster_url?: string | null
+          video_url?: string | null
+          visibility?: string
+        }
+        Update: {
+          comments_disabled?: boolean
+          content_warning?: string | null
+          content?: string
+          created_at?: string
+          id?: string
+          images?: Json
+          scheduled_at?: string | null
+          updated_at?: string
+          user_id?: string
+          video_poster_url?: string | null
+          video_url?: string | null
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_drafts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_hashtags: {
+        Row: {
+          created_at: string
+          post_id: string
+          tag: string
+        }
+        Insert: {
+          created_at?: string
+          post_id: string
+          tag: string
+        }
+        Update: {
+          created_at?: string
+          post_id?: string
+          tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_hashtags_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          post_id: string
+          replaced_at: string
+        }
+        Insert: {
+          content: string
+          created_at: string
+          id?: string
+          post_id: string
+          replaced_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          post_id?: string
+          replaced_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       posts: {
         Row: {
+          comments_count: number
+          comments_disabled: boolean | null
+          content_warning: string | null
           content: string
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
           id: string
           image_url: string | null
+          images: Json
+          likes_count: number
+          reaction_counts: Json
+          search_vector: unknown | null
+          share_type: string | null
+          shared_post_deleted: boolean
+          shared_post_id: string | null
           updated_at: string
           user_id: string
+          video_poster_url: string | null
           video_url: string | null
+          visibility: string
         }
         Insert: {
+          comments_count?: number
+          comments_disabled?: boolean | null
+          content_warning?: string | null
           content: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           image_url?: string | null
+          images?: Json
+          likes_count?: number
+          reaction_counts?: Json
+          search_vector?: unknown | null
+          share_type?: string | null
+          shared_post_deleted?: boolean
+          shared_post_id?: string | null
           updated_at?: string
           user_id: string
+          video_poster_url?: string | null
           video_url?: string | null
+          visibility?: string
         }
         Update: {
+          comments_count?: number
+          comments_disabled?: boolean | null
+          content_warning?: string | null
           content?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           image_url?: string | null
+          images?: Json
+          likes_count?: number
+          reaction_counts?: Json
+          search_vector?: unknown | null
+          share_type?: string | null
+          shared_post_deleted?: boolean
+          shared_post_id?: string | null
           updated_at?: string
           user_id?: string
+          video_poster_url?: string | null
           video_url?: string | null
+          visibility?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "posts_shared_post_id_fkey"
+            columns: ["shared_post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "posts_user_id_fkey"
             columns: ["user_id"]
@@ -344,7 +1036,12 @@ export type Database = {
           created_at: string
           email: string | null
           id: string
+          last_seen_at: string | null
           name: string
+          read_receipts: boolean
+          search_vector: unknown | null
+          sensitive_content: string
+          show_presence: boolean
           theme_preference: string | null
           updated_at: string
           username: string
@@ -355,7 +1052,12 @@ export type Database = {
           created_at?: string
           email?: string | null
           id: string
+          last_seen_at?: string | null
           name: string
+          read_receipts?: boolean
+          search_vector?: unknown | null
+          sensitive_content?: string
+          show_presence?: boolean
           theme_preference?: string | null
           updated_at?: string
           username: string
@@ -366,7 +1068,12 @@ export type Database = {
           created_at?: string
           email?: string | null
           id?: string
+          last_seen_at?: string | null
           name?: string
+          read_receipts?: boolean
+          search_vector?: unknown | null
+          sensitive_content?: string
+          show_presence?: boolean
           theme_preference?: string | null
           updated_at?: string
           username?: string
@@ -450,6 +1157,21 @@ export type Database = {
           },
         ]
       }
+      upload_removals: {
+        Row: {
+          path: string
+          queued_at: string
+        }
+        Insert: {
+          path: string
+          queued_at?: string
+        }
+        Update: {
+          path?: string
+          queued_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -463,10 +1185,31 @@ export type Database = {
         }
         Returns: string
       }
+      can_view_post: {
+        Args: { author: string; post_visibility: string; viewer: string }
+        Returns: boolean
+      }
       cleanup_expired_story_photos: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      create_notifications_table_if_not_exists: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      create_poll_post: {
+        Args: {
+          post_content: string
+          post_visibility: string
+          post_comments_disabled: boolean
+          poll_option_labels: string[]
+          poll_allow_multiple?: boolean
+          poll_hide_results?: boolean
+          poll_closes_at?: string
+          post_content_warning?: string
+        }
+        Returns: string
+      }
       delete_expired_stories: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -475,10 +1218,155 @@ export type Database = {
         Args: { story_id: string; photo_indices: number[] }
         Returns: boolean
       }
+      edit_message: {
+        Args: { message_uuid: string; new_content: string }
+        Returns: undefined
+      }
+      extract_mentioned_user_ids: {
+        Args: { body: string }
+        Returns: string[]
+      }
+      get_conversations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          friendship_id: string
+          partner_id: string
+          partner_name: string
+          partner_username: string
+          partner_avatar: string
+          friends_since: string
+          last_message_id: string | null
+          last_message_content: string | null
+          last_message_sender_id: string | null
+          last_message_at: string | null
+          unread_count: number
+        }[]
+      }
+      get_recently_deleted: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          item_type: string
+          id: string
+          post_id: string
+          content: string
+          created_at: string
+          deleted_at: string
+        }[]
+      }
+      get_trending_hashtags: {
+        Args: { since_hours?: number; max_results?: number }
+        Returns: {
+          tag: string
+          post_count: number
+        }[]
+      }
+      get_upload_removals: {
+        Args: { max_results?: number }
+        Returns: {
+          path: string
+        }[]
+      }
       increment_story_views: {
-        Args: { story_uuid: string; viewer_uuid: string }
+        Args: { story_uuid: string; viewer_uuid?: string }
         Returns: number
       }
+      mark_messages_delivered: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      mark_messages_read: {
+        Args: { partner_uuid: string }
+        Returns: undefined
+      }
+      post_exists: {
+        Args: { post_uuid: string }
+        Returns: boolean
+      }
+      publish_scheduled_posts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      purge_deleted_items: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      queue_upload_removals: {
+        Args: { urls: string[] }
+        Returns: undefined
+      }
+      restore_comment: {
+        Args: { comment_uuid: string }
+        Returns: undefined
+      }
+      restore_post: {
+        Args: { post_uuid: string }
+        Returns: undefined
+      }
+      search_comments: {
+        Args: { search_query: string; result_limit?: number; result_offset?: number }
+        Returns: {
+          id: string
+          post_id: string
+          user_id: string
+          created_at: string
+          headline: string
+          rank: number
+          name: string
+          username: string
+          avatar: string | null
+        }[]
+      }
+      search_people: {
+        Args: { search_query: string; result_limit?: number; result_offset?: number }
+        Returns: {
+          id: string
+          name: string
+          username: string
+          avatar: string | null
+          name_headline: string
+          username_headline: string
+          rank: number
+        }[]
+      }
+      search_posts: {
+        Args: { search_query: string; result_limit?: number; result_offset?: number }
+        Returns: {
+          id: string
+          user_id: string
+          created_at: string
+          headline: string
+          rank: number
+          name: string
+          username: string
+          avatar: string | null
+          content_warning: string | null
+          sensitive: boolean
+        }[]
+      }
+      soft_delete_comment: {
+        Args: { comment_uuid: string }
+        Returns: undefined
+      }
+      soft_delete_post: {
+        Args: { post_uuid: string }
+        Returns: undefined
+      }
+      touch_last_seen: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      typing_topic: {
+        Args: { first_user: string; second_user: string }
+        Returns: string
+      }
+      unsend_message: {
+        Args: { message_uuid: string }
+        Returns: undefined
+      }
+      upload_path: {
+        Args: { url: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,30 +1,117 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
 import { CommunityFeed } from '@/components/dashboard/CommunityFeed';
+import { TrendingTags } from '@/components/dashboard/TrendingTags';
 import { StoriesContainer } from '@/components/stories/StoriesContainer';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { Card, CardContent } from '@/components/ui/card';
-import { Textarea } from '@/components/ui/textarea';
+import { MentionTextarea } from '@/components/common/MentionTextarea';
 import { Button } from '@/components/ui/button';
-import { Send, Image as ImageIcon, X, MessageSquareOff } from 'lucide-react';
+import { Send, Image as ImageIcon, Video, X, MessageSquareOff, Globe, Users, ChevronDown, ChevronLeft, BarChart3, Plus, Clock, CalendarClock, FileText, AlertTriangle, EyeOff } from 'lucide-react';
+import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { getVideoMetadata } from '@/utils/videoUtils';
+import { serializeMentions, mentionsToPlainText } from '@/utils/mentionUtils';
+import { DraftsDialog } from '@/components/dashboard/DraftsDialog';
+import type { PostImage } from '@/components/dashboard/PostImageCarousel';
+import { PostDraft, usePostDrafts } from '@/hooks/use-post-drafts';
+
+const MAX_IMAGES = 10;
+const MAX_VIDEO_SIZE = 50 * 1024 * 1024;
+const MAX_VIDEO_DURATION = 60;
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 6;
+const DRAFT_AUTOSAVE_DELAY = 2000;
+
+const POLL_DURATIONS = [
+  { value: 'none', label: 'No end date', hours: 0 },
+  { value: '1h', label: '1 hour', hours: 1 },
+  { value: '1d', label: '1 day', hours: 24 },
+  { value: '3d', label: '3 days', hours: 72 },
+  { value: '7d', label: '1 week', hours: 168 },
+];
+
+interface SelectedImage {
+  // Images restored from a draft are already uploaded and have no file
+  file: File | null;
+  preview: string;
+  alt: string;
+  sensitive: boolean;
+}
+
+// Describes what a draft would store, so autosave only runs when something changed
+const draftSignature = (
+  content: string,
+  images: SelectedImage[],
+  video: string | null,
+  visibility: string,
+  commentsDisabled: boolean,
+  contentWarning: string
+) => {
+  if (!content.trim() && images.length === 0 && !video) return '';
+  return JSON.stringify([
+    content.trim(),
+    images.map(image => [image.preview, image.alt, image.sensitive]),
+    video,
+    visibility,
+    commentsDisabled,
+    contentWarning.trim()
+  ]);
+};
+
+// Local input value for a date, the format datetime-local expects
+const toDateTimeLocal = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
 
 export function Dashboard() {
   const [postContent, setPostContent] = useState('');
   const [isPosting, setIsPosting] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [feedKey, setFeedKey] = useState(0);
+  const [selectedImages, setSelectedImages] = useState<SelectedImage[]>([]);
+  const [selectedVideo, setSelectedVideo] = useState<File | null>(null);
+  const [videoPreview, setVideoPreview] = useState<string | null>(null);
+  const [videoPoster, setVideoPoster] = useState<Blob | null>(null);
+  const [processingVideo, setProcessingVideo] = useState(false);
   const [commentsDisabled, setCommentsDisabled] = useState(false);
+  const [visibility, setVisibility] = useState('public');
+  const [showPoll, setShowPoll] = useState(false);
+  const [pollOptions, setPollOptions] = useState<string[]>(['', '']);
+  const [pollAllowMultiple, setPollAllowMultiple] = useState(false);
+  const [pollHideResults, setPollHideResults] = useState(false);
+  const [pollDuration, setPollDuration] = useState('1d');
+  const [showContentWarning, setShowContentWarning] = useState(false);
+  const [contentWarning, setContentWarning] = useState('');
+  const [showDrafts, setShowDrafts] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const postBoxRef = useRef<HTMLDivElement>(null);
+  // Public URLs of attachments already in storage, keyed by their preview URL
+  const uploadedMediaRef = useRef(new Map<string, string>());
+  const draftIdRef = useRef<string | null>(null);
+  const draftSaveRef = useRef<Promise<unknown>>(Promise.resolve());
+  const lastSavedSignatureRef = useRef('');
+  const { drafts, fetchDrafts, saveDraft, deleteDraft } = usePostDrafts();
   const { toast } = useToast();
 
+  useEffect(() => {
+    fetchDrafts();
+  }, [fetchDrafts]);
+
   // Optimized scroll to top handler
   const handleScrollToTop = useCallback(() => {
     if (scrollAreaRef.current) {
@@ -46,47 +133,337 @@ export function Dashboard() {
     };
   }, [handleScrollToTop]);
 
+  const removeVideo = useCallback(() => {
+    if (videoPreview) {
+      URL.revokeObjectURL(videoPreview);
+    }
+    setSelectedVideo(null);
+    setVideoPreview(null);
+    setVideoPoster(null);
+    if (videoInputRef.current) {
+      videoInputRef.current.value = '';
+    }
+  }, [videoPreview]);
+
   const handleImageSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (files.length === 0) return;
+
+    // Validate file type
+    if (files.some(file => !file.type.startsWith('image/'))) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid file type',
+        description: 'Please select image files only'
+      });
+      return;
+    }
+
+    // Validate file size (max 5MB)
+    if (files.some(file => file.size > 5 * 1024 * 1024)) {
+      toast({
+        variant: 'destructive',
+        title: 'File too large',
+        description: 'Please select images smaller than 5MB'
+      });
+      return;
+    }
+
+    const availableSlots = MAX_IMAGES - selectedImages.length;
+    if (files.length > availableSlots) {
+      toast({
+        variant: 'destructive',
+        title: 'Too many images',
+        description: `A post can have up to ${MAX_IMAGES} images`
+      });
+    }
+
+    const added = files.slice(0, availableSlots).map(file => ({
+      file,
+      preview: URL.createObjectURL(file),
+      alt: '',
+      sensitive: false
+    }));
+    if (added.length === 0) return;
+
+    // A post carries either images or a video
+    removeVideo();
+    setSelectedImages(prev => [...prev, ...added]);
+  }, [toast, removeVideo, selectedImages.length]);
+
+  const removeImage = useCallback((index: number) => {
+    setSelectedImages(prev => {
+      URL.revokeObjectURL(prev[index].preview);
+      return prev.filter((_, i) => i !== index);
+    });
+  }, []);
+
+  const clearImages = useCallback(() => {
+    selectedImages.forEach(image => URL.revokeObjectURL(image.preview));
+    setSelectedImages([]);
+  }, [selectedImages]);
+
+  const moveImageBack = useCallback((index: number) => {
+    if (index === 0) return;
+    setSelectedImages(prev => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  }, []);
+
+  const updateImageAlt = useCallback((index: number, alt: string) => {
+    setSelectedImages(prev =>
+      prev.map((image, i) => (i === index ? { ...image, alt } : image))
+    );
+  }, []);
+
+  const toggleImageSensitive = useCallback((index: number) => {
+    setSelectedImages(prev =>
+      prev.map((image, i) => (i === index ? { ...image, sensitive: !image.sensitive } : image))
+    );
+  }, []);
+
+  const removeContentWarning = useCallback(() => {
+    setShowContentWarning(false);
+    setContentWarning('');
+  }, []);
+
+  const handleVideoSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    const resetInput = () => {
+      if (videoInputRef.current) {
+        videoInputRef.current.value = '';
+      }
+    };
+
     // Validate file type
-    if (!file.type.startsWith('image/')) {
+    if (!file.type.startsWith('video/')) {
       toast({
         variant: 'destructive',
         title: 'Invalid file type',
-        description: 'Please select an image file'
+        description: 'Please select a video file'
       });
+      resetInput();
       return;
     }
 
-    // Validate file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
+    // Validate file size (max 50MB)
+    if (file.size > MAX_VIDEO_SIZE) {
       toast({
         variant: 'destructive',
         title: 'File too large',
-        description: 'Please select an image smaller than 5MB'
+        description: 'Please select a video smaller than 50MB'
       });
+      resetInput();
       return;
     }
 
-    setSelectedImage(file);
-    setImagePreview(URL.createObjectURL(file));
-  }, [toast]);
+    try {
+      setProcessingVideo(true);
+      const { duration, poster } = await getVideoMetadata(file);
+
+      // Validate duration (max 60 seconds)
+      if (duration > MAX_VIDEO_DURATION) {
+        toast({
+          variant: 'destructive',
+          title: 'Video too long',
+          description: `Please select a video shorter than ${MAX_VIDEO_DURATION} seconds`
+        });
+        resetInput();
+        return;
+      }
 
-  const removeImage = useCallback(() => {
-    if (imagePreview) {
-      URL.revokeObjectURL(imagePreview);
+      clearImages();
+      if (videoPreview) {
+        URL.revokeObjectURL(videoPreview);
+      }
+      setSelectedVideo(file);
+      setVideoPreview(URL.createObjectURL(file));
+      setVideoPoster(poster);
+    } catch (error) {
+      console.error('Error reading video:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to read video file'
+      });
+      resetInput();
+    } finally {
+      setProcessingVideo(false);
     }
-    setSelectedImage(null);
-    setImagePreview(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  }, [toast, clearImages, videoPreview]);
+
+  const updatePollOption = useCallback((index: number, label: string) => {
+    setPollOptions(prev => prev.map((option, i) => (i === index ? label : option)));
+  }, []);
+
+  const removePollOption = useCallback((index: number) => {
+    setPollOptions(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const resetPoll = useCallback(() => {
+    setShowPoll(false);
+    setPollOptions(['', '']);
+    setPollAllowMultiple(false);
+    setPollHideResults(false);
+    setPollDuration('1d');
+  }, []);
+
+  const filledPollOptions = pollOptions.map(option => option.trim()).filter(Boolean);
+  // A poll needs its question in the post text, media posts can go without text
+  const hasContent = showPoll
+    ? !!postContent.trim() && filledPollOptions.length >= MIN_POLL_OPTIONS
+    : !!postContent.trim() || selectedImages.length > 0 || !!videoPreview;
+  const currentSignature = draftSignature(postContent, selectedImages, videoPreview, visibility, commentsDisabled, contentWarning);
+
+  const resetComposer = useCallback(() => {
+    setPostContent('');
+    setCommentsDisabled(false);
+    clearImages();
+    removeVideo();
+    resetPoll();
+    removeContentWarning();
+    uploadedMediaRef.current.clear();
+  }, [clearImages, removeVideo, resetPoll, removeContentWarning]);
+
+  // Uploads attachments that are not in storage yet, reusing those saved with a draft
+  const uploadMedia = useCallback(async (userId: string) => {
+    const uploaded = uploadedMediaRef.current;
+
+    // Upload selected images, keeping their order
+    const images = await Promise.all(
+      selectedImages.map(async (image) => {
+        if (!uploaded.has(image.preview)) {
+          const fileExt = image.file.name.split('.').pop();
+          const fileName = `${userId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+          const { error: uploadError } = await supabase.storage
+            .from('posts')
+            .upload(fileName, image.file);
+
+          if (uploadError) throw uploadError;
+
+          const { data } = supabase.storage
+            .from('posts')
+            .getPublicUrl(fileName);
+
+          uploaded.set(image.preview, data.publicUrl);
+        }
+
+        return { url: uploaded.get(image.preview), alt: image.alt.trim(), ...(image.sensitive && { sensitive: true }) };
+      })
+    );
+
+    let videoUrl = null;
+    let videoPosterUrl = null;
+
+    // Upload video and its poster frame if selected
+    if (videoPreview) {
+      if (!uploaded.has(videoPreview)) {
+        const fileExt = selectedVideo.name.split('.').pop();
+        const baseName = `${userId}/${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from('posts')
+          .upload(`${baseName}.${fileExt}`, selectedVideo, { contentType: selectedVideo.type });
+
+        if (uploadError) throw uploadError;
+
+        uploaded.set(videoPreview, supabase.storage
+          .from('posts')
+          .getPublicUrl(`${baseName}.${fileExt}`).data.publicUrl);
+
+        if (videoPoster) {
+          const { error: posterError } = await supabase.storage
+            .from('posts')
+            .upload(`${baseName}-poster.jpg`, videoPoster, { contentType: 'image/jpeg' });
+
+          // The video still plays without a poster
+          if (posterError) {
+            console.error('Error uploading video poster:', posterError);
+          } else {
+            uploaded.set(`${videoPreview}#poster`, supabase.storage
+              .from('posts')
+              .getPublicUrl(`${baseName}-poster.jpg`).data.publicUrl);
+          }
+        }
+      }
+
+      videoUrl = uploaded.get(videoPreview);
+      videoPosterUrl = uploaded.get(`${videoPreview}#poster`) ?? null;
     }
-  }, [imagePreview]);
+
+    return { images, videoUrl, videoPosterUrl };
+  }, [selectedImages, selectedVideo, videoPreview, videoPoster]);
+
+  // Draft saves run one at a time so a slow upload never races a newer save
+  const queueDraftSave = useCallback(<T,>(task: () => Promise<T>) => {
+    const run = draftSaveRef.current.then(task);
+    draftSaveRef.current = run.catch(() => undefined);
+    return run;
+  }, []);
+
+  const persistDraft = useCallback(async (scheduledAt: string | null) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    const { images, videoUrl, videoPosterUrl } = await uploadMedia(user.id);
+    const draft = await saveDraft(draftIdRef.current, {
+      content: await serializeMentions(postContent.trim()),
+      images,
+      video_url: videoUrl,
+      video_poster_url: videoPosterUrl,
+      visibility,
+      comments_disabled: commentsDisabled,
+      content_warning: contentWarning.trim() || null,
+      scheduled_at: scheduledAt
+    });
+
+    draftIdRef.current = draft.id;
+    return draft;
+  }, [postContent, visibility, commentsDisabled, contentWarning, uploadMedia, saveDraft]);
+
+  const discardDraft = useCallback(() => {
+    const draftId = draftIdRef.current;
+    draftIdRef.current = null;
+    lastSavedSignatureRef.current = '';
+    if (!draftId) return Promise.resolve();
+
+    return queueDraftSave(() => deleteDraft(draftId)).catch(error => {
+      console.error('Error deleting draft:', error);
+    });
+  }, [queueDraftSave, deleteDraft]);
+
+  // Autosave the composer a moment after the last change
+  useEffect(() => {
+    if (isPosting || processingVideo || currentSignature === lastSavedSignatureRef.current) return;
+
+    const timer = setTimeout(() => {
+      lastSavedSignatureRef.current = currentSignature;
+
+      // Clearing the composer by hand discards its draft
+      if (!currentSignature) {
+        discardDraft();
+        return;
+      }
+
+      queueDraftSave(() => persistDraft(null)).catch(error => {
+        console.error('Error saving draft:', error);
+        lastSavedSignatureRef.current = '';
+      });
+    }, DRAFT_AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [currentSignature, isPosting, processingVideo, queueDraftSave, persistDraft, discardDraft]);
 
   const handlePost = useCallback(async () => {
-    if ((!postContent.trim() && !selectedImage) || isPosting) return;
+    if (!hasContent || isPosting || processingVideo) return;
 
     try {
       setIsPosting(true);
@@ -101,43 +478,57 @@ export function Dashboard() {
         return;
       }
 
-      let imageUrl = null;
+      // Let a running autosave finish so its uploads are reused
+      await draftSaveRef.current;
+      const { images, videoUrl, videoPosterUrl } = await uploadMedia(user.id);
 
-      // Upload image if selected
-      if (selectedImage) {
-        const fileExt = selectedImage.name.split('.').pop();
-        const fileName = `${user.id}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-        
-        const { error: uploadError } = await supabase.storage
-          .from('posts')
-          .upload(fileName, selectedImage);
+      const content = await serializeMentions(postContent.trim());
+      let newPostId: string;
 
-        if (uploadError) throw uploadError;
+      if (showPoll) {
+        // The post and its poll are created together so feeds never see one without the other
+        const duration = POLL_DURATIONS.find(option => option.value === pollDuration);
+        const { data, error } = await supabase.rpc('create_poll_post', {
+          post_content: content,
+          post_visibility: visibility,
+          post_comments_disabled: commentsDisabled,
+          poll_option_labels: filledPollOptions,
+          poll_allow_multiple: pollAllowMultiple,
+          poll_hide_results: pollHideResults,
+          poll_closes_at: duration?.hours
+            ? new Date(Date.now() + duration.hours * 60 * 60 * 1000).toISOString()
+            : null,
+          post_content_warning: contentWarning.trim() || null
+        });
 
-        const { data } = supabase.storage
+        if (error) throw error;
+        newPostId = data;
+      } else {
+        const { data: newPost, error } = await supabase
           .from('posts')
-          .getPublicUrl(fileName);
+          .insert({
+            content,
+            user_id: user.id,
+            image_url: images[0]?.url ?? null,
+            images,
+            video_url: videoUrl,
+            video_poster_url: videoPosterUrl,
+            comments_disabled: commentsDisabled,
+            visibility,
+            content_warning: contentWarning.trim() || null
+          })
+          .select('id')
+          .single();
 
-        imageUrl = data.publicUrl;
+        if (error) throw error;
+        newPostId = newPost.id;
       }
 
-      const { error } = await supabase
-        .from('posts')
-        .insert({
-          content: postContent.trim(),
-          user_id: user.id,
-          image_url: imageUrl,
-          comments_disabled: commentsDisabled
-        });
-
-      if (error) throw error;
-
-      setPostContent('');
-      setCommentsDisabled(false);
-      removeImage();
+      discardDraft();
+      resetComposer();
       
-      // Force feed refresh
-      setFeedKey(prev => prev + 1);
+      // Let the feed prepend the new post without refetching everything
+      window.dispatchEvent(new CustomEvent('postCreated', { detail: { id: newPostId } }));
       
       toast({
         title: 'Success',
@@ -153,7 +544,121 @@ export function Dashboard() {
     } finally {
       setIsPosting(false);
     }
-  }, [postContent, selectedImage, commentsDisabled, isPosting, toast, removeImage]);
+  }, [postContent, processingVideo, commentsDisabled, visibility, contentWarning, isPosting, hasContent, showPoll, pollDuration, filledPollOptions, pollAllowMultiple, pollHideResults, toast, uploadMedia, discardDraft, resetComposer]);
+
+  const openSchedule = useCallback(() => {
+    // Default to an hour from now, on the minute
+    const nextHour = new Date(Date.now() + 60 * 60 * 1000);
+    nextHour.setSeconds(0, 0);
+    setScheduleAt(toDateTimeLocal(nextHour));
+    setShowSchedule(true);
+  }, []);
+
+  const handleSchedule = useCallback(async () => {
+    const publishAt = new Date(scheduleAt);
+    if (isNaN(publishAt.getTime()) || publishAt <= new Date()) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid time',
+        description: 'Please pick a time in the future'
+      });
+      return;
+    }
+
+    try {
+      setIsPosting(true);
+      await queueDraftSave(() => persistDraft(publishAt.toISOString()));
+
+      // The scheduled draft now belongs to the publisher, the composer starts over
+      draftIdRef.current = null;
+      lastSavedSignatureRef.current = '';
+      resetComposer();
+      setShowSchedule(false);
+
+      toast({
+        title: 'Post scheduled',
+        description: `It will be shared on ${format(publishAt, 'PPp')}`
+      });
+    } catch (error) {
+      console.error('Error scheduling post:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to schedule post'
+      });
+    } finally {
+      setIsPosting(false);
+    }
+  }, [scheduleAt, toast, queueDraftSave, persistDraft, resetComposer]);
+
+  const loadDraft = useCallback(async (draft: PostDraft) => {
+    try {
+      setShowDrafts(false);
+
+      // Keep unsaved changes to the current composer before replacing it
+      if (currentSignature && currentSignature !== lastSavedSignatureRef.current) {
+        lastSavedSignatureRef.current = currentSignature;
+        await queueDraftSave(() => persistDraft(null));
+      }
+      await draftSaveRef.current;
+
+      resetComposer();
+
+      const draftImages = Array.isArray(draft.images) ? draft.images as unknown as PostImage[] : [];
+      const images: SelectedImage[] = draftImages.filter(image => image?.url).map(image => ({
+        file: null,
+        preview: image.url,
+        alt: image.alt || '',
+        sensitive: !!image.sensitive
+      }));
+      images.forEach(image => uploadedMediaRef.current.set(image.preview, image.preview));
+      if (draft.video_url) {
+        uploadedMediaRef.current.set(draft.video_url, draft.video_url);
+        if (draft.video_poster_url) {
+          uploadedMediaRef.current.set(`${draft.video_url}#poster`, draft.video_poster_url);
+        }
+      }
+
+      const content = mentionsToPlainText(draft.content);
+      setPostContent(content);
+      setSelectedImages(images);
+      setVideoPreview(draft.video_url);
+      setVisibility(draft.visibility);
+      setCommentsDisabled(draft.comments_disabled);
+      setContentWarning(draft.content_warning || '');
+      setShowContentWarning(!!draft.content_warning);
+      draftIdRef.current = draft.id;
+      lastSavedSignatureRef.current = draftSignature(
+        content,
+        images,
+        draft.video_url,
+        draft.visibility,
+        draft.comments_disabled,
+        draft.content_warning || ''
+      );
+
+      // Editing a scheduled post takes it off the schedule until it is posted or scheduled again
+      if (draft.scheduled_at) {
+        await queueDraftSave(() => saveDraft(draft.id, {
+          content: draft.content,
+          images: draft.images,
+          video_url: draft.video_url,
+          video_poster_url: draft.video_poster_url,
+          visibility: draft.visibility,
+          comments_disabled: draft.comments_disabled,
+          content_warning: draft.content_warning,
+          scheduled_at: null
+        }));
+      }
+    } catch (error) {
+      console.error('Error loading draft:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to open draft'
+      });
+    }
+  }, [currentSignature, queueDraftSave, persistDraft, resetComposer, saveDraft, toast]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -184,7 +689,7 @@ export function Dashboard() {
           <Card ref={postBoxRef} className="mb-4 card-gradient animate-fade-in shadow-lg border-2 border-social-green/10 card-entrance gpu-accelerated">
             <CardContent className="p-4">
               <div className="space-y-4">
-                <Textarea
+                <MentionTextarea
                   placeholder="What's on your mind? Share your thoughts..."
                   value={postContent}
                   onChange={(e) => setPostContent(e.target.value)}
@@ -193,19 +698,212 @@ export function Dashboard() {
                   disabled={isPosting}
                 />
                 
-                {/* Image Preview */}
-                {imagePreview && (
-                  <div className="relative rounded-lg overflow-hidden border border-social-green/20 animate-fade-in">
-                    <img
-                      src={imagePreview}
-                      alt="Preview"
-                      className="max-h-60 w-full object-cover transition-all duration-300 hover:scale-[1.02] gpu-accelerated"
+                {/* Image Previews */}
+                {selectedImages.length > 0 && (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 animate-fade-in">
+                    {selectedImages.map((image, index) => (
+                      <div key={image.preview} className="space-y-1">
+                        <div className="relative rounded-lg overflow-hidden border border-social-green/20">
+                          <img
+                            src={image.preview}
+                            alt={image.alt || `Preview ${index + 1}`}
+                            className={`h-28 w-full object-cover ${image.sensitive ? 'blur-sm' : ''}`}
+                          />
+                          <span className="absolute top-1 left-1 rounded-full bg-black/60 px-1.5 font-pixelated text-[10px] text-white">
+                            {index + 1}
+                          </span>
+                          {index > 0 && (
+                            <Button
+                              variant="secondary"
+                              size="icon"
+                              className="absolute bottom-1 left-1 h-6 w-6 rounded-full shadow-lg"
+                              onClick={() => moveImageBack(index)}
+                              disabled={isPosting}
+                              aria-label="Move image earlier"
+                            >
+                              <ChevronLeft className="h-3 w-3" />
+                            </Button>
+                          )}
+                          <Button
+                            variant={image.sensitive ? 'default' : 'secondary'}
+                            size="icon"
+                            className="absolute bottom-1 right-1 h-6 w-6 rounded-full shadow-lg"
+                            onClick={() => toggleImageSensitive(index)}
+                            disabled={isPosting}
+                            aria-pressed={image.sensitive}
+                            title={image.sensitive ? 'Marked as sensitive' : 'Mark as sensitive'}
+                          >
+                            <EyeOff className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="icon"
+                            className="absolute top-1 right-1 h-6 w-6 rounded-full shadow-lg hover:scale-105 transition-transform duration-300 btn-hover"
+                            onClick={() => removeImage(index)}
+                            disabled={isPosting}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                        <Input
+                          value={image.alt}
+                          onChange={(e) => updateImageAlt(index, e.target.value)}
+                          placeholder="Alt text"
+                          maxLength={250}
+                          className="h-7 font-pixelated text-xs"
+                          disabled={isPosting}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Video Preview */}
+                {videoPreview && (
+                  <div className="relative rounded-lg overflow-hidden border border-social-green/20 bg-black animate-fade-in">
+                    <video
+                      src={videoPreview}
+                      muted
+                      controls
+                      playsInline
+                      className="max-h-60 w-full object-contain"
                     />
                     <Button
                       variant="destructive"
                       size="icon"
                       className="absolute top-2 right-2 h-7 w-7 rounded-full shadow-lg hover:scale-105 transition-transform duration-300 btn-hover"
-                      onClick={removeImage}
+                      onClick={removeVideo}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+
+                {/* Poll Builder */}
+                {showPoll && (
+                  <div className="space-y-2 p-3 rounded-lg border border-social-green/20 animate-fade-in">
+                    <div className="flex items-center justify-between">
+                      <p className="font-pixelated text-xs flex items-center gap-2">
+                        <BarChart3 className="h-4 w-4" />
+                        Poll
+                      </p>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={resetPoll}
+                        disabled={isPosting}
+                        aria-label="Remove poll"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    {pollOptions.map((option, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          value={option}
+                          onChange={(e) => updatePollOption(index, e.target.value)}
+                          placeholder={`Option ${index + 1}`}
+                          maxLength={80}
+                          className="h-8 font-pixelated text-xs"
+                          disabled={isPosting}
+                        />
+                        {pollOptions.length > MIN_POLL_OPTIONS && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            onClick={() => removePollOption(index)}
+                            disabled={isPosting}
+                            aria-label={`Remove option ${index + 1}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap items-center gap-2">
+                      {pollOptions.length < MAX_POLL_OPTIONS && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-8 font-pixelated text-xs hover:bg-social-green/5"
+                          onClick={() => setPollOptions(prev => [...prev, ''])}
+                          disabled={isPosting}
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          Add Option
+                        </Button>
+                      )}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8 font-pixelated text-xs hover:bg-social-green/5"
+                            disabled={isPosting}
+                          >
+                            <Clock className="h-3 w-3 mr-1" />
+                            {POLL_DURATIONS.find(option => option.value === pollDuration)?.label}
+                            <ChevronDown className="h-3 w-3 ml-1" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="start">
+                          <DropdownMenuLabel className="font-pixelated text-xs">Poll closes after</DropdownMenuLabel>
+                          <DropdownMenuRadioGroup value={pollDuration} onValueChange={setPollDuration}>
+                            {POLL_DURATIONS.map(option => (
+                              <DropdownMenuRadioItem key={option.value} value={option.value} className="font-pixelated text-xs">
+                                {option.label}
+                              </DropdownMenuRadioItem>
+                            ))}
+                          </DropdownMenuRadioGroup>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="poll-allow-multiple"
+                        checked={pollAllowMultiple}
+                        onCheckedChange={setPollAllowMultiple}
+                        disabled={isPosting}
+                      />
+                      <Label htmlFor="poll-allow-multiple" className="font-pixelated text-xs">
+                        Allow multiple answers
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="poll-hide-results"
+                        checked={pollHideResults}
+                        onCheckedChange={setPollHideResults}
+                        disabled={isPosting}
+                      />
+                      <Label htmlFor="poll-hide-results" className="font-pixelated text-xs">
+                        Hide results until people vote
+                      </Label>
+                    </div>
+                  </div>
+                )}
+
+                {/* Content Warning */}
+                {showContentWarning && (
+                  <div className="flex items-center gap-2 animate-fade-in">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-600" />
+                    <Input
+                      value={contentWarning}
+                      onChange={(e) => setContentWarning(e.target.value)}
+                      placeholder="Content warning, e.g. spoilers for the finale"
+                      maxLength={80}
+                      className="h-8 font-pixelated text-xs"
+                      disabled={isPosting}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={removeContentWarning}
+                      disabled={isPosting}
+                      aria-label="Remove content warning"
                     >
                       <X className="h-3 w-3" />
                     </Button>
@@ -227,11 +925,12 @@ export function Dashboard() {
                 </div>
                 
                 <div className="flex items-center justify-between gap-3 pt-1">
-                  <div className="flex items-center gap-3">
+                  <div className="flex flex-wrap items-center gap-3">
                     <input
                       ref={fileInputRef}
                       type="file"
                       accept="image/*"
+                      multiple
                       onChange={handleImageSelect}
                       className="hidden"
                     />
@@ -241,24 +940,122 @@ export function Dashboard() {
                       size="sm"
                       className="h-9 font-pixelated text-xs hover:bg-social-green/5 transition-all duration-300 btn-hover micro-bounce"
                       onClick={() => fileInputRef.current?.click()}
-                      disabled={isPosting}
+                      disabled={isPosting || showPoll || selectedImages.length >= MAX_IMAGES}
                     >
                       <ImageIcon className="h-4 w-4 mr-2" />
-                      Add Image
+                      {selectedImages.length > 0 ? `Images ${selectedImages.length}/${MAX_IMAGES}` : 'Add Images'}
+                    </Button>
+                    <input
+                      ref={videoInputRef}
+                      type="file"
+                      accept="video/*"
+                      onChange={handleVideoSelect}
+                      className="hidden"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-9 font-pixelated text-xs hover:bg-social-green/5 transition-all duration-300 btn-hover micro-bounce"
+                      onClick={() => videoInputRef.current?.click()}
+                      disabled={isPosting || showPoll || processingVideo}
+                    >
+                      <Video className="h-4 w-4 mr-2" />
+                      {processingVideo ? 'Loading...' : 'Add Video'}
+                    </Button>
+                    {/* Polls are text-only, so media and polls exclude each other */}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-9 font-pixelated text-xs hover:bg-social-green/5 transition-all duration-300 btn-hover micro-bounce"
+                      onClick={() => setShowPoll(true)}
+                      disabled={isPosting || showPoll || selectedImages.length > 0 || !!videoPreview || processingVideo}
+                    >
+                      <BarChart3 className="h-4 w-4 mr-2" />
+                      Add Poll
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-9 font-pixelated text-xs hover:bg-social-green/5 transition-all duration-300 btn-hover micro-bounce"
+                      onClick={() => setShowContentWarning(true)}
+                      disabled={isPosting || showContentWarning}
+                    >
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                      Add Warning
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="h-9 font-pixelated text-xs hover:bg-social-green/5 transition-all duration-300 btn-hover"
+                          disabled={isPosting}
+                        >
+                          {visibility === 'friends' ? (
+                            <Users className="h-4 w-4 mr-2" />
+                          ) : (
+                            <Globe className="h-4 w-4 mr-2" />
+                          )}
+                          {visibility === 'friends' ? 'Friends' : 'Public'}
+                          <ChevronDown className="h-3 w-3 ml-1" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuLabel className="font-pixelated text-xs">Who can see this?</DropdownMenuLabel>
+                        <DropdownMenuRadioGroup value={visibility} onValueChange={setVisibility}>
+                          <DropdownMenuRadioItem value="public" className="font-pixelated text-xs">
+                            <Globe className="h-3 w-3 mr-2" />
+                            Public
+                          </DropdownMenuRadioItem>
+                          <DropdownMenuRadioItem value="friends" className="font-pixelated text-xs">
+                            <Users className="h-3 w-3 mr-2" />
+                            Friends only
+                          </DropdownMenuRadioItem>
+                        </DropdownMenuRadioGroup>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-9 font-pixelated text-xs hover:bg-social-green/5 transition-all duration-300 btn-hover micro-bounce"
+                      onClick={() => setShowDrafts(true)}
+                      disabled={isPosting}
+                    >
+                      <FileText className="h-4 w-4 mr-2" />
+                      Drafts{drafts.length > 0 && ` ${drafts.length}`}
                     </Button>
                     <p className="text-xs text-muted-foreground font-pixelated hidden sm:block">
                       Press Enter to post
                     </p>
                   </div>
-                  <Button
-                    onClick={handlePost}
-                    disabled={(!postContent.trim() && !selectedImage) || isPosting}
-                    size="sm"
-                    className="bg-social-green hover:bg-social-light-green text-white font-pixelated h-9 px-4 transition-all duration-300 btn-hover micro-bounce gpu-accelerated"
-                  >
-                    <Send className="h-4 w-4 mr-2" />
-                    {isPosting ? 'Posting...' : 'Share Post'}
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    {/* Scheduled posts are published from drafts, which do not carry polls */}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      className="h-9 w-9 hover:bg-social-green/5 transition-all duration-300 btn-hover micro-bounce"
+                      onClick={openSchedule}
+                      disabled={!hasContent || isPosting || processingVideo || showPoll}
+                      title="Schedule post"
+                    >
+                      <CalendarClock className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      onClick={handlePost}
+                      disabled={!hasContent || isPosting || processingVideo}
+                      size="sm"
+                      className="bg-social-green hover:bg-social-light-green text-white font-pixelated h-9 px-4 transition-all duration-300 btn-hover micro-bounce gpu-accelerated"
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      {isPosting ? 'Posting...' : 'Share Post'}
+                    </Button>
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -276,9 +1073,59 @@ export function Dashboard() {
               </Card>
             }
           >
-            <CommunityFeed key={feedKey} />
+            <TrendingTags />
+            <CommunityFeed />
           </ErrorBoundary>
         </ScrollArea>
+
+        <DraftsDialog
+          open={showDrafts}
+          onOpenChange={setShowDrafts}
+          onEdit={loadDraft}
+        />
+
+        <Dialog open={showSchedule} onOpenChange={setShowSchedule}>
+          <DialogContent className="max-w-sm">
+            <DialogHeader>
+              <DialogTitle className="font-pixelated text-sm">Schedule post</DialogTitle>
+              <DialogDescription className="font-pixelated text-xs">
+                Your post is kept with your drafts and shared automatically at this time.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-at" className="font-pixelated text-xs">
+                Publish at
+              </Label>
+              <Input
+                id="schedule-at"
+                type="datetime-local"
+                value={scheduleAt}
+                min={toDateTimeLocal(new Date())}
+                onChange={(e) => setScheduleAt(e.target.value)}
+                className="font-pixelated text-xs"
+                disabled={isPosting}
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setShowSchedule(false)}
+                className="font-pixelated text-xs"
+                disabled={isPosting}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSchedule}
+                disabled={!scheduleAt || isPosting}
+                className="bg-social-green hover:bg-social-light-green text-white font-pixelated text-xs btn-hover micro-bounce"
+              >
+                <CalendarClock className="h-4 w-4 mr-2" />
+                {isPosting ? 'Scheduling...' : 'Schedule'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
@@ -12,6 +12,7 @@ import { useToast } from '@/hooks/use-toast';
 import { formatDistanceToNow } from 'date-fns';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useNavigate } from 'react-router-dom';
+import { PresenceDot, PresenceStatus } from '@/components/common/PresenceDot';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,6 +34,7 @@ interface Friend {
   friend_id?: string;
   sender_id?: string;
   receiver_id?: string;
+  last_seen_at?: string | null;
 }
 
 export function Friends() {
@@ -106,8 +108,8 @@ export function Friends() {
           sender_id,
           receiver_id,
           status,
-          sender_profile:profiles!friends_sender_id_fkey(id, name, username, avatar),
-          receiver_profile:profiles!friends_receiver_id_fkey(id, name, username, avatar)
+          sender_profile:profiles!friends_sender_id_fkey(id, name, username, avatar, last_seen_at),
+          receiver_profile:profiles!friends_receiver_id_fkey(id, name, username, avatar, last_seen_at)
         `)
         .eq('status', 'accepted')
         .or(`sender_id.eq.${currentUser.id},receiver_id.eq.${currentUser.id}`);
@@ -130,6 +132,7 @@ export function Friends() {
           name: friendProfile.name,
           username: friendProfile.username,
           avatar: friendProfile.avatar,
+          last_seen_at: friendProfile.last_seen_at,
           status: 'accepted' as const,
           created_at: friendship.created_at,
           friend_id: friendship.id,
@@ -402,15 +405,18 @@ export function Friends() {
     <Card className="hover:shadow-md transition-all duration-200 hover-scale">
       <CardContent className="p-3">
         <div className="flex items-center gap-3">
-          <Avatar className="w-12 h-12 border-2 border-social-green">
-            {user.avatar ? (
-              <AvatarImage src={user.avatar} alt={user.name} />
-            ) : (
-              <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-sm">
-                {user.name.substring(0, 2).toUpperCase()}
-              </AvatarFallback>
-            )}
-          </Avatar>
+          <div className="relative flex-shrink-0">
+            <Avatar className="w-12 h-12 border-2 border-social-green">
+              {user.avatar ? (
+                <AvatarImage src={user.avatar} alt={user.name} />
+              ) : (
+                <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-sm">
+                  {user.name.substring(0, 2).toUpperCase()}
+                </AvatarFallback>
+              )}
+            </Avatar>
+            {type === 'friend' && <PresenceDot userId={user.id} />}
+          </div>
           
           <div className="flex-1 min-w-0">
             <h3 className="font-pixelated text-sm font-medium truncate">{user.name}</h3>
@@ -419,6 +425,7 @@ export function Friends() {
               {type === 'friend' ? 'Friends since' : type === 'request' ? 'Requested' : 'Joined'} {' '}
               {formatDistanceToNow(new Date(user.created_at), { addSuffix: true })}
             </p>
+            {type === 'friend' && <PresenceStatus userId={user.id} lastSeenAt={user.last_seen_at} />}
           </div>
 
           <div className="flex flex-col gap-1">
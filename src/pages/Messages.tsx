@@ -1,14 +1,45 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Textarea } from '@/components/ui/textarea';
+import { MentionTextarea } from '@/components/common/MentionTextarea';
+import { RichText } from '@/components/common/RichText';
+import { LinkPreviewCard } from '@/components/common/LinkPreviewCard';
+import { getFirstUrl } from '@/utils/linkUtils';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Send, MessageSquare, User, ArrowLeft, UserX, Circle, Heart } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Send, MessageSquare, User, ArrowLeft, UserX, Heart, Check, CheckCheck, MoreVertical, Reply, Edit, Undo2, X } from 'lucide-react';
 import { format, isToday, isYesterday, isSameDay } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
+import type {
+  RealtimePostgresDeletePayload,
+  RealtimePostgresInsertPayload,
+  RealtimePostgresUpdatePayload
+} from '@supabase/supabase-js';
 import { useToast } from '@/hooks/use-toast';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { VirtualizedList } from '@/components/common/VirtualizedList';
+import { serializeMentions, mentionsToPlainText } from '@/utils/mentionUtils';
+import { formatLastSeen } from '@/utils/presenceUtils';
+import { PresenceDot } from '@/components/common/PresenceDot';
+import { usePresence } from '@/hooks/use-presence';
+import { useTypingIndicator } from '@/hooks/use-typing-indicator';
+import { useReadReceipts } from '@/hooks/use-read-receipts';
 
 interface Friend {
   id: string;
@@ -18,6 +49,7 @@ interface Friend {
   isBlocked?: boolean;
   lastMessageTime?: string;
   lastMessageContent?: string;
+  lastMessageId?: string;
   unreadCount?: number;
 }
 
@@ -27,33 +59,199 @@ interface Message {
   receiver_id: string;
   content: string;
   created_at: string;
-  read: boolean;
+  delivered_at?: string | null;
+  // Only set when both people have read receipts turned on
+  read_at?: string | null;
+  edited_at?: string | null;
+  // Unsent messages keep their row with the content cleared
+  unsent_at?: string | null;
+  reply_to_id?: string | null;
+  // Snapshot of the parent when it isn't among the loaded messages
+  reply_to?: ReplyPreview | null;
   sender?: {
     name: string;
     avatar: string;
   };
 }
 
+interface ReplyPreview {
+  id: string;
+  sender_id: string;
+  content: string;
+  unsent_at: string | null;
+}
+
 interface MessageGroup {
   date: string;
   messages: Message[];
 }
 
+type MessageRow =
+  | { type: 'date'; key: string; date: string }
+  | { type: 'message'; key: string; message: Message };
+
+const MESSAGE_PAGE_SIZE = 30;
+// Matches the window enforced by unsend_message
+const UNSEND_WINDOW_MS = 15 * 60 * 1000;
+// Older messages start loading this far from the top of the list
+const LOAD_OLDER_THRESHOLD = 200;
+
+const MESSAGE_SELECT = `
+  id,
+  sender_id,
+  receiver_id,
+  content,
+  created_at,
+  delivered_at,
+  read_at,
+  edited_at,
+  unsent_at,
+  reply_to_id,
+  profiles!messages_sender_id_fkey(name, avatar),
+  reply_to:messages!messages_reply_to_id_fkey(id, sender_id, content, unsent_at)
+`;
+
+const toMessage = (message: any): Message => ({
+  id: message.id,
+  sender_id: message.sender_id,
+  receiver_id: message.receiver_id,
+  content: message.content,
+  created_at: message.created_at,
+  delivered_at: message.delivered_at,
+  read_at: message.read_at,
+  edited_at: message.edited_at,
+  unsent_at: message.unsent_at,
+  reply_to_id: message.reply_to_id,
+  reply_to: message.reply_to ?? null,
+  sender: {
+    name: message.profiles?.name || 'Unknown',
+    avatar: message.profiles?.avatar || ''
+  }
+});
+
+const compareMessages = (a: Message, b: Message) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id.localeCompare(b.id);
+
+// Merges loaded pages and realtime rows by id, keeping the conversation oldest first
+const mergeMessages = (current: Message[], incoming: Message[]): Message[] => {
+  const byId = new Map(current.map(message => [message.id, message]));
+  incoming.forEach(message => {
+    byId.set(message.id, { ...byId.get(message.id), ...message });
+  });
+  return Array.from(byId.values()).sort(compareMessages);
+};
+
+// Most recent activity first
+const sortByLastActivity = (friends: Friend[]): Friend[] =>
+  [...friends].sort((a, b) => {
+    const timeA = new Date(a.lastMessageTime || 0).getTime();
+    const timeB = new Date(b.lastMessageTime || 0).getTime();
+    return timeB - timeA;
+  });
+
+const groupMessagesByDate = (messages: Message[]): MessageGroup[] => {
+  const groups: { [key: string]: Message[] } = {};
+  
+  messages.forEach(message => {
+    const messageDate = new Date(message.created_at);
+    let dateKey: string;
+    
+    if (isToday(messageDate)) {
+      dateKey = 'Today';
+    } else if (isYesterday(messageDate)) {
+      dateKey = 'Yesterday';
+    } else {
+      dateKey = format(messageDate, 'MMMM d, yyyy');
+    }
+    
+    if (!groups[dateKey]) {
+      groups[dateKey] = [];
+    }
+    groups[dateKey].push(message);
+  });
+  
+  return Object.entries(groups).map(([date, messages]) => ({
+    date,
+    messages: messages.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+  }));
+};
+
+interface MessageStatusProps {
+  message: Message;
+  showRead: boolean;
+}
+
+// Ticks on the user's own messages: one when sent, two once delivered, blue once read
+function MessageStatus({ message, showRead }: MessageStatusProps) {
+  const readAt = showRead ? message.read_at : null;
+
+  if (readAt) {
+    return (
+      <span title={`Read ${format(new Date(readAt), 'HH:mm')}`}>
+        <CheckCheck className="h-3 w-3 text-social-blue" aria-label="Read" />
+      </span>
+    );
+  }
+
+  if (message.delivered_at) {
+    return (
+      <span title={`Delivered ${format(new Date(message.delivered_at), 'HH:mm')}`}>
+        <CheckCheck className="h-3 w-3 opacity-70" aria-label="Delivered" />
+      </span>
+    );
+  }
+
+  return (
+    <span title={`Sent ${format(new Date(message.created_at), 'HH:mm')}`}>
+      <Check className="h-3 w-3 opacity-70" aria-label="Sent" />
+    </span>
+  );
+}
+
 export function Messages() {
   const [friends, setFriends] = useState<Friend[]>([]);
   const [selectedFriend, setSelectedFriend] = useState<Friend | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [messageGroups, setMessageGroups] = useState<MessageGroup[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [sendingMessage, setSendingMessage] = useState(false);
   const [currentUser, setCurrentUser] = useState<{ id: string; name: string; avatar: string } | null>(null);
   const [shouldScrollToBottom, setShouldScrollToBottom] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [unsendTarget, setUnsendTarget] = useState<Message | null>(null);
   const { toast } = useToast();
+  const partnerOnline = usePresence(state => !!selectedFriend && state.onlineUserIds.has(selectedFriend.id));
+  const { partnerTyping, setTyping } = useTypingIndicator(currentUser?.id, selectedFriend?.id);
+  const [partnerLastSeenAt, setPartnerLastSeenAt] = useState<string | null>(null);
+  const { enabled: readReceiptsEnabled, fetchPreference: fetchReadReceiptsPreference } = useReadReceipts();
 
-  const fetchFriends = async () => {
+  // Refs let the scroll handler and realtime callbacks see the latest conversation state
+  const activeFriendIdRef = useRef<string | null>(null);
+  const messagesRef = useRef<Message[]>([]);
+  const friendsRef = useRef<Friend[]>([]);
+  const hasOlderMessagesRef = useRef(false);
+  const loadingOlderRef = useRef(false);
+
+  messagesRef.current = messages;
+  friendsRef.current = friends;
+
+  const messageGroups = useMemo(() => groupMessagesByDate(messages), [messages]);
+  // Replies quote the live parent when it's loaded, so edits and unsends show up in the quote too
+  const messagesById = useMemo(() => new Map(messages.map(message => [message.id, message])), [messages]);
+
+  // Date separators and messages flattened into a single list for virtualization
+  const messageRows = useMemo<MessageRow[]>(
+    () =>
+      messageGroups.flatMap(group => [
+        { type: 'date' as const, key: `date-${group.date}`, date: group.date },
+        ...group.messages.map(message => ({ type: 'message' as const, key: message.id, message })),
+      ]),
+    [messageGroups]
+  );
+
+  const fetchCurrentUser = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       
@@ -72,66 +270,29 @@ export function Messages() {
           avatar: userProfile.avatar || ''
         });
       }
+    } catch (error) {
+      console.error('Error fetching current user for messages:', error);
+    }
+  };
 
-      const { data: friendsData, error } = await supabase
-        .from('friends')
-        .select('id, sender_id, receiver_id, status')
-        .or(`sender_id.eq.${user.id},receiver_id.eq.${user.id}`)
-        .eq('status', 'accepted');
+  const fetchFriends = async () => {
+    try {
+      // Partner profile, last message and unread count for every conversation in one round trip
+      const { data: conversations, error } = await supabase.rpc('get_conversations');
         
       if (error) throw error;
       
-      const formattedFriends: Friend[] = [];
-      
-      if (friendsData) {
-        for (const friend of friendsData) {
-          const isSender = friend.sender_id === user.id;
-          const friendId = isSender ? friend.receiver_id : friend.sender_id;
-          
-          const { data: friendProfile } = await supabase
-            .from('profiles')
-            .select('id, name, username, avatar')
-            .eq('id', friendId)
-            .single();
-          
-          if (friendProfile && friendProfile.id) {
-            // Get last message and unread count for this friend
-            const { data: lastMessage } = await supabase
-              .from('messages')
-              .select('content, created_at, sender_id, read')
-              .or(`and(sender_id.eq.${user.id},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${user.id})`)
-              .order('created_at', { ascending: false })
-              .limit(1)
-              .single();
-
-            // Get unread count (messages sent to current user that are unread)
-            const { count: unreadCount } = await supabase
-              .from('messages')
-              .select('*', { count: 'exact', head: true })
-              .eq('sender_id', friendId)
-              .eq('receiver_id', user.id)
-              .eq('read', false);
-
-            formattedFriends.push({
-              id: friendProfile.id,
-              name: friendProfile.name || 'User',
-              username: friendProfile.username || 'guest',
-              avatar: friendProfile.avatar || '',
-              isBlocked: false,
-              lastMessageTime: lastMessage?.created_at || friend.created_at,
-              lastMessageContent: lastMessage?.content || '',
-              unreadCount: unreadCount || 0
-            });
-          }
-        }
-      }
-
-      // Sort friends by last activity (most recent first)
-      formattedFriends.sort((a, b) => {
-        const timeA = new Date(a.lastMessageTime || 0).getTime();
-        const timeB = new Date(b.lastMessageTime || 0).getTime();
-        return timeB - timeA;
-      });
+      const formattedFriends: Friend[] = (conversations || []).map(conversation => ({
+        id: conversation.partner_id,
+        name: conversation.partner_name || 'User',
+        username: conversation.partner_username || 'guest',
+        avatar: conversation.partner_avatar || '',
+        isBlocked: false,
+        lastMessageTime: conversation.last_message_at || conversation.friends_since,
+        lastMessageContent: conversation.last_message_content || '',
+        lastMessageId: conversation.last_message_id || undefined,
+        unreadCount: conversation.unread_count || 0
+      }));
 
       setFriends(formattedFriends);
     } catch (error) {
@@ -160,33 +321,6 @@ export function Messages() {
     }
   };
 
-  const groupMessagesByDate = (messages: Message[]): MessageGroup[] => {
-    const groups: { [key: string]: Message[] } = {};
-    
-    messages.forEach(message => {
-      const messageDate = new Date(message.created_at);
-      let dateKey: string;
-      
-      if (isToday(messageDate)) {
-        dateKey = 'Today';
-      } else if (isYesterday(messageDate)) {
-        dateKey = 'Yesterday';
-      } else {
-        dateKey = format(messageDate, 'MMMM d, yyyy');
-      }
-      
-      if (!groups[dateKey]) {
-        groups[dateKey] = [];
-      }
-      groups[dateKey].push(message);
-    });
-    
-    return Object.entries(groups).map(([date, messages]) => ({
-      date,
-      messages: messages.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
-    }));
-  };
-
   const fetchMessages = async (friendId: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -213,37 +347,12 @@ export function Messages() {
         return;
       }
 
-      const { data: messagesData, error } = await supabase
-        .from('messages')
-        .select(`
-          id,
-          sender_id,
-          receiver_id,
-          content,
-          created_at,
-          read,
-          profiles!messages_sender_id_fkey(name, avatar)
-        `)
-        .or(`and(sender_id.eq.${user.id},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${user.id})`)
-        .order('created_at');
-        
-      if (error) throw error;
+      const newestPage = await fetchMessagePage(user.id, friendId);
+      if (activeFriendIdRef.current !== friendId) return;
 
-      const formattedMessages: Message[] = messagesData.map((message: any) => ({
-        id: message.id,
-        sender_id: message.sender_id,
-        receiver_id: message.receiver_id,
-        content: message.content,
-        created_at: message.created_at,
-        read: message.read,
-        sender: {
-          name: message.profiles?.name || 'Unknown',
-          avatar: message.profiles?.avatar || ''
-        }
-      }));
-
-      setMessages(formattedMessages);
-      setMessageGroups(groupMessagesByDate(formattedMessages));
+      hasOlderMessagesRef.current = newestPage.length === MESSAGE_PAGE_SIZE;
+      // Merge so realtime rows that arrived while the page loaded are kept
+      setMessages(prevMessages => mergeMessages(prevMessages, newestPage));
       
       // Mark messages as read when opening conversation
       await markMessagesAsRead(friendId);
@@ -255,18 +364,83 @@ export function Messages() {
     }
   };
 
-  const markMessagesAsRead = async (friendId: string) => {
+  // Keyset pagination on (created_at, id), newest first, optionally before the given message
+  const fetchMessagePage = async (userId: string, friendId: string, before?: Message) => {
+    let query = supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .or(`and(sender_id.eq.${userId},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${userId})`)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      );
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []).map(toMessage);
+  };
+
+  // Loads the page above the oldest loaded message when the user scrolls up
+  const fetchOlderMessages = async () => {
+    const friendId = activeFriendIdRef.current;
+    const oldest = messagesRef.current[0];
+    if (!friendId || !currentUser || !oldest || !hasOlderMessagesRef.current || loadingOlderRef.current) return;
+
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      loadingOlderRef.current = true;
+      setLoadingOlderMessages(true);
+
+      const olderPage = await fetchMessagePage(currentUser.id, friendId, oldest);
+      if (activeFriendIdRef.current !== friendId) return;
+
+      hasOlderMessagesRef.current = olderPage.length === MESSAGE_PAGE_SIZE;
+      setMessages(prevMessages => mergeMessages(prevMessages, olderPage));
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlderMessages(false);
+    }
+  };
 
-      // Mark all unread messages from this friend as read
-      await supabase
+  // Fetches whatever arrived after the newest loaded message, used when realtime (re)connects
+  const catchUpMessages = async (friendId: string) => {
+    const newest = messagesRef.current[messagesRef.current.length - 1];
+    if (!currentUser || !newest) return;
+
+    try {
+      const { data, error } = await supabase
         .from('messages')
-        .update({ read: true })
-        .eq('sender_id', friendId)
-        .eq('receiver_id', user.id)
-        .eq('read', false);
+        .select(MESSAGE_SELECT)
+        .or(`and(sender_id.eq.${currentUser.id},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${currentUser.id})`)
+        .or(`created_at.gt."${newest.created_at}",and(created_at.eq."${newest.created_at}",id.gt.${newest.id})`)
+        .order('created_at')
+        .order('id');
+
+      if (error) throw error;
+      if (activeFriendIdRef.current !== friendId || !data || data.length === 0) return;
+
+      setMessages(prevMessages => mergeMessages(prevMessages, data.map(toMessage)));
+      setShouldScrollToBottom(true);
+      await markMessagesAsRead(friendId);
+    } catch (error) {
+      console.error('Error catching up on messages:', error);
+    }
+  };
+
+  const markMessagesAsRead = async (friendId: string) => {
+    try {
+      // Also records read receipts when both sides allow them
+      const { error } = await supabase.rpc('mark_messages_read', { partner_uuid: friendId });
+
+      if (error) throw error;
 
       // Update friends list to remove unread count
       setFriends(prev => 
@@ -281,6 +455,11 @@ export function Messages() {
 
   const sendMessage = async () => {
     if (!newMessage.trim() || !selectedFriend || !currentUser || sendingMessage) return;
+
+    if (editingMessage) {
+      await saveEdit();
+      return;
+    }
     
     // Check if friend is blocked
     if (selectedFriend.isBlocked) {
@@ -316,8 +495,8 @@ export function Messages() {
       const messageData = {
         sender_id: currentUser.id,
         receiver_id: selectedFriend.id,
-        content: newMessage.trim(),
-        read: false
+        content: await serializeMentions(newMessage.trim()),
+        reply_to_id: replyingTo?.id ?? null
       };
 
       const { data, error } = await supabase
@@ -329,6 +508,8 @@ export function Messages() {
       if (error) throw error;
 
       setNewMessage('');
+      setReplyingTo(null);
+      setTyping(false);
       
       if (data) {
         const newMessageWithSender = {
@@ -339,30 +520,21 @@ export function Messages() {
           }
         };
         
-        setMessages(prevMessages => {
-          const exists = prevMessages.some(msg => msg.id === data.id);
-          if (exists) return prevMessages;
-          const updatedMessages = [...prevMessages, newMessageWithSender];
-          setMessageGroups(groupMessagesByDate(updatedMessages));
-          return updatedMessages;
-        });
+        setMessages(prevMessages => mergeMessages(prevMessages, [newMessageWithSender]));
         
         // Update friends list with new last message
-        setFriends(prev => 
+        setFriends(prev => sortByLastActivity(
           prev.map(f => 
             f.id === selectedFriend.id 
               ? { 
                   ...f, 
                   lastMessageTime: data.created_at,
-                  lastMessageContent: data.content
+                  lastMessageContent: data.content,
+                  lastMessageId: data.id
                 } 
               : f
-          ).sort((a, b) => {
-            const timeA = new Date(a.lastMessageTime || 0).getTime();
-            const timeB = new Date(b.lastMessageTime || 0).getTime();
-            return timeB - timeA;
-          })
-        );
+          )
+        ));
         
         // Only scroll to bottom when sending a new message
         setShouldScrollToBottom(true);
@@ -379,13 +551,107 @@ export function Messages() {
     }
   };
 
+  const updateMessage = (messageId: string, changes: Partial<Message>) => {
+    setMessages(prevMessages =>
+      prevMessages.map(msg => msg.id === messageId ? { ...msg, ...changes } : msg)
+    );
+    setFriends(prev =>
+      prev.map(f =>
+        f.lastMessageId === messageId && changes.content !== undefined
+          ? { ...f, lastMessageContent: changes.content }
+          : f
+      )
+    );
+  };
+
+  const startReply = (message: Message) => {
+    if (editingMessage) setNewMessage('');
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  const startEdit = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(mentionsToPlainText(message.content));
+  };
+
+  const cancelComposerMode = () => {
+    if (editingMessage) setNewMessage('');
+    setEditingMessage(null);
+    setReplyingTo(null);
+  };
+
+  const saveEdit = async () => {
+    if (!editingMessage) return;
+
+    try {
+      setSendingMessage(true);
+
+      const content = await serializeMentions(newMessage.trim());
+      const { error } = await supabase.rpc('edit_message', {
+        message_uuid: editingMessage.id,
+        new_content: content
+      });
+
+      if (error) throw error;
+
+      // Realtime brings the same change to the other participant
+      updateMessage(editingMessage.id, { content, edited_at: new Date().toISOString() });
+      setEditingMessage(null);
+      setNewMessage('');
+      setTyping(false);
+    } catch (error) {
+      console.error('Error editing message:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to edit message'
+      });
+    } finally {
+      setSendingMessage(false);
+    }
+  };
+
+  const unsendMessage = async (message: Message) => {
+    try {
+      const { error } = await supabase.rpc('unsend_message', { message_uuid: message.id });
+
+      if (error) throw error;
+
+      updateMessage(message.id, { content: '', unsent_at: new Date().toISOString() });
+      if (editingMessage?.id === message.id || replyingTo?.id === message.id) {
+        cancelComposerMode();
+      }
+    } catch (error) {
+      console.error('Error unsending message:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'This message can no longer be unsent'
+      });
+    } finally {
+      setUnsendTarget(null);
+    }
+  };
+
+  const canUnsend = (message: Message) =>
+    Date.now() - new Date(message.created_at).getTime() < UNSEND_WINDOW_MS;
+
+  // The list jumps to its last row while this flag is set, so release it once it has scrolled
   const scrollToBottom = () => {
-    if (shouldScrollToBottom && messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth', block: 'end' });
+    if (shouldScrollToBottom) {
       setShouldScrollToBottom(false);
     }
   };
 
+  // Ignored while the list is still jumping to the newest message
+  const handleMessagesScroll = ({ scrollTop }: { scrollTop: number }) => {
+    if (!shouldScrollToBottom && scrollTop < LOAD_OLDER_THRESHOLD) {
+      fetchOlderMessages();
+    }
+  };
+
   const formatMessageTime = (dateString: string) => {
     return format(new Date(dateString), 'HH:mm');
   };
@@ -413,72 +679,216 @@ export function Messages() {
   };
 
   useEffect(() => {
+    fetchCurrentUser();
     fetchFriends();
-    
-    const friendsInterval = setInterval(() => {
-      fetchFriends();
-    }, 30000);
-
-    return () => clearInterval(friendsInterval);
   }, []);
 
   useEffect(() => {
+    fetchReadReceiptsPreference();
+  }, [fetchReadReceiptsPreference]);
+
+  // Keep the conversation list current from realtime instead of refetching it
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const handleNewMessage = (payload: RealtimePostgresInsertPayload<Message>) => {
+      const message = payload.new;
+      const partnerId = message.sender_id === currentUser.id ? message.receiver_id : message.sender_id;
+      // The open conversation marks incoming messages as read itself
+      const isUnread = message.sender_id === partnerId && activeFriendIdRef.current !== partnerId;
+
+      if (!friendsRef.current.some(f => f.id === partnerId)) {
+        // A conversation we don't know about yet, e.g. a friendship accepted elsewhere
+        fetchFriends();
+        return;
+      }
+
+      setFriends(prev => sortByLastActivity(
+        prev.map(f =>
+          f.id === partnerId
+            ? {
+                ...f,
+                lastMessageTime: message.created_at,
+                lastMessageContent: message.content,
+                lastMessageId: message.id,
+                unreadCount: (f.unreadCount || 0) + (isUnread ? 1 : 0)
+              }
+            : f
+        )
+      ));
+    };
+
+    // Edits and unsends only matter to the list when they hit the latest message
+    const handleUpdatedMessage = (payload: RealtimePostgresUpdatePayload<Message>) => {
+      const message = payload.new;
+
+      // An unsent message stops counting as unread, the server has the corrected count
+      if (message.unsent_at && message.receiver_id === currentUser.id && activeFriendIdRef.current !== message.sender_id) {
+        fetchFriends();
+        return;
+      }
+
+      setFriends(prev => {
+        if (!prev.some(f => f.lastMessageId === message.id && f.lastMessageContent !== message.content)) return prev;
+        return prev.map(f => f.lastMessageId === message.id ? { ...f, lastMessageContent: message.content } : f);
+      });
+    };
+
+    const channel = supabase
+      .channel(`conversations-${currentUser.id}`)
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `receiver_id=eq.${currentUser.id}` },
+        handleNewMessage
+      )
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `sender_id=eq.${currentUser.id}` },
+        handleNewMessage
+      )
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `receiver_id=eq.${currentUser.id}` },
+        handleUpdatedMessage
+      )
+      .on('postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `sender_id=eq.${currentUser.id}` },
+        handleUpdatedMessage
+      )
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'friends', filter: `sender_id=eq.${currentUser.id}` },
+        () => fetchFriends()
+      )
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'friends', filter: `receiver_id=eq.${currentUser.id}` },
+        () => fetchFriends()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentUser]);
+
+  useEffect(() => {
+    const friendId = selectedFriend?.id ?? null;
+    if (activeFriendIdRef.current !== friendId) {
+      activeFriendIdRef.current = friendId;
+      hasOlderMessagesRef.current = false;
+      setMessages([]);
+      setReplyingTo(null);
+      setEditingMessage(null);
+      setNewMessage('');
+    }
+
     if (selectedFriend && currentUser) {
       fetchMessages(selectedFriend.id);
       
+      // Realtime filters take a single column, so listen to everything we send and receive
+      // and keep the rows that belong to this conversation
+      const isInConversation = (message: Message) =>
+        (message.sender_id === currentUser.id && message.receiver_id === selectedFriend.id) ||
+        (message.sender_id === selectedFriend.id && message.receiver_id === currentUser.id);
+
+      const handleInsert = async (payload: RealtimePostgresInsertPayload<Message>) => {
+        const newMessage = payload.new;
+        if (!isInConversation(newMessage)) return;
+        if (messagesRef.current.some(msg => msg.id === newMessage.id)) return;
+
+        // Our own messages can come from another tab or device
+        let sender = { name: currentUser.name, avatar: currentUser.avatar };
+        if (newMessage.sender_id !== currentUser.id) {
+          const { data } = await supabase
+            .from('profiles')
+            .select('name, avatar')
+            .eq('id', newMessage.sender_id)
+            .single();
+
+          if (!data) return;
+          sender = { name: data.name || 'Unknown', avatar: data.avatar || '' };
+        }
+
+        // Realtime rows don't carry the quoted message, fetch it when it isn't loaded
+        let replyTo: ReplyPreview | null = null;
+        if (newMessage.reply_to_id && !messagesRef.current.some(msg => msg.id === newMessage.reply_to_id)) {
+          const { data } = await supabase
+            .from('messages')
+            .select('id, sender_id, content, unsent_at')
+            .eq('id', newMessage.reply_to_id)
+            .single();
+          replyTo = data ?? null;
+        }
+
+        setMessages(prevMessages => mergeMessages(prevMessages, [{ ...newMessage, sender, reply_to: replyTo }]));
+        // Only scroll to bottom for new messages
+        setShouldScrollToBottom(true);
+
+        if (newMessage.sender_id !== currentUser.id) {
+          // Auto-mark as read since conversation is open
+          await markMessagesAsRead(selectedFriend.id);
+        }
+      };
+
+      // Ticks, edits and unsends from the other side, quotes of the message follow along
+      const handleUpdate = (payload: RealtimePostgresUpdatePayload<Message>) => {
+        const updated = payload.new;
+        if (!isInConversation(updated)) return;
+
+        setMessages(prevMessages =>
+          prevMessages.map(msg => {
+            if (msg.id === updated.id) {
+              return {
+                ...msg,
+                content: updated.content,
+                delivered_at: updated.delivered_at,
+                read_at: updated.read_at,
+                edited_at: updated.edited_at,
+                unsent_at: updated.unsent_at
+              };
+            }
+            // Quotes of an older, unloaded message follow its edits too
+            if (msg.reply_to?.id === updated.id) {
+              return {
+                ...msg,
+                reply_to: { ...msg.reply_to, content: updated.content, unsent_at: updated.unsent_at ?? null }
+              };
+            }
+            return msg;
+          })
+        );
+      };
+
+      // Delete events skip filters and only carry the id, dropping an id we don't have is a no-op
+      const handleDelete = (payload: RealtimePostgresDeletePayload<Message>) => {
+        const deletedId = payload.old.id;
+        setMessages(prevMessages => prevMessages.filter(msg => msg.id !== deletedId));
+      };
+
       const channel = supabase
         .channel(`messages-${selectedFriend.id}-${currentUser.id}`)
-        .on('postgres_changes', 
-          { 
-            event: '*', 
-            schema: 'public', 
-            table: 'messages',
-            filter: `or(and(sender_id.eq.${currentUser.id},receiver_id.eq.${selectedFriend.id}),and(sender_id.eq.${selectedFriend.id},receiver_id.eq.${currentUser.id}))`
-          }, 
-          async (payload) => {
-            console.log('Real-time message update:', payload);
-            
-            if (payload.eventType === 'INSERT') {
-              const newMessage = payload.new as Message;
-              
-              if (newMessage.sender_id !== currentUser.id) {
-                const { data } = await supabase
-                  .from('profiles')
-                  .select('name, avatar')
-                  .eq('id', newMessage.sender_id)
-                  .single();
-                  
-                if (data) {
-                  setMessages(prevMessages => {
-                    const exists = prevMessages.some(msg => msg.id === newMessage.id);
-                    if (exists) return prevMessages;
-                    
-                    const messageWithSender = {
-                      ...newMessage,
-                      sender: {
-                        name: data.name || 'Unknown',
-                        avatar: data.avatar || ''
-                      }
-                    };
-                    
-                    const updated = [...prevMessages, messageWithSender];
-                    setMessageGroups(groupMessagesByDate(updated));
-                    
-                    // Only scroll to bottom for new incoming messages
-                    setShouldScrollToBottom(true);
-                    return updated;
-                  });
-                  
-                  // Auto-mark as read since conversation is open
-                  await markMessagesAsRead(selectedFriend.id);
-                }
-              }
-            } else if (payload.eventType === 'UPDATE' || payload.eventType === 'DELETE') {
-              fetchMessages(selectedFriend.id);
-            }
-          }
+        .on('postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'messages', filter: `receiver_id=eq.${currentUser.id}` },
+          handleInsert
         )
-        .subscribe();
+        .on('postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'messages', filter: `sender_id=eq.${currentUser.id}` },
+          handleInsert
+        )
+        .on('postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'messages', filter: `receiver_id=eq.${currentUser.id}` },
+          handleUpdate
+        )
+        .on('postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'messages', filter: `sender_id=eq.${currentUser.id}` },
+          handleUpdate
+        )
+        .on('postgres_changes',
+          { event: 'DELETE', schema: 'public', table: 'messages' },
+          handleDelete
+        )
+        .subscribe((status) => {
+          // Also fires after a dropped connection rejoins, pick up anything missed meanwhile
+          if (status === 'SUBSCRIBED') {
+            catchUpMessages(selectedFriend.id);
+          }
+        });
 
       // Listen for friend removals in real-time
       const friendsChannel = supabase
@@ -508,18 +918,34 @@ export function Messages() {
         )
         .subscribe();
 
-      const messageInterval = setInterval(() => {
-        fetchMessages(selectedFriend.id);
-      }, 10000);
-
       return () => {
         supabase.removeChannel(channel);
         supabase.removeChannel(friendsChannel);
-        clearInterval(messageInterval);
       };
     }
   }, [selectedFriend, currentUser]);
 
+  // Read when the partner is offline, including right after they leave
+  const selectedFriendId = selectedFriend?.id;
+  useEffect(() => {
+    setPartnerLastSeenAt(null);
+    if (!selectedFriendId || partnerOnline) return;
+
+    let cancelled = false;
+    supabase
+      .from('profiles')
+      .select('last_seen_at')
+      .eq('id', selectedFriendId)
+      .single()
+      .then(({ data }) => {
+        if (!cancelled) setPartnerLastSeenAt(data?.last_seen_at ?? null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFriendId, partnerOnline]);
+
   // Only scroll when shouldScrollToBottom is true
   useEffect(() => {
     if (shouldScrollToBottom) {
@@ -527,6 +953,127 @@ export function Messages() {
     }
   }, [messageGroups, shouldScrollToBottom]);
 
+  const renderMessageRow = (row: MessageRow) => {
+    if (row.type === 'date') {
+      return (
+        <div className="flex items-center justify-center py-1">
+          <div className="bg-muted px-2 py-1 rounded-full">
+            <p className="font-pixelated text-xs text-muted-foreground">
+              {getDateSeparatorText(row.date)}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const message = row.message;
+    const isOwn = message.sender_id === currentUser?.id;
+    const isUnsent = !!message.unsent_at;
+    const linkUrl = isUnsent ? null : getFirstUrl(message.content);
+    const quoted = message.reply_to_id
+      ? messagesById.get(message.reply_to_id) ?? message.reply_to
+      : null;
+
+    return (
+      <div
+        className={`group flex gap-2 ${isOwn ? 'justify-end' : 'justify-start'}`}
+      >
+        <div className={`flex gap-2 max-w-[75%] ${isOwn ? 'flex-row-reverse' : ''}`}>
+          <Avatar className="h-6 w-6 mt-1 flex-shrink-0">
+            {message.sender?.avatar ? (
+              <AvatarImage src={message.sender.avatar} />
+            ) : (
+              <AvatarFallback className="bg-primary text-primary-foreground font-pixelated text-xs">
+                {message.sender?.name.substring(0, 2).toUpperCase()}
+              </AvatarFallback>
+            )}
+          </Avatar>
+          <div 
+            className={`p-2 rounded-lg relative ${
+              message.sender_id === currentUser?.id 
+                ? 'bg-primary text-primary-foreground' 
+                : 'bg-muted'
+            }`}
+          >
+            {message.reply_to_id && (
+              <div className="mb-1 pl-2 border-l-2 border-current opacity-70">
+                <p className="text-xs font-pixelated font-medium">
+                  {quoted?.sender_id === currentUser?.id ? 'You' : selectedFriend?.name}
+                </p>
+                <p className="text-xs font-pixelated truncate">
+                  {!quoted || quoted.unsent_at
+                    ? <span className="italic">Message unsent</span>
+                    : truncateMessage(mentionsToPlainText(quoted.content))}
+                </p>
+              </div>
+            )}
+            {isUnsent ? (
+              <p className="text-xs italic opacity-70 font-pixelated">
+                This message was unsent
+              </p>
+            ) : (
+              <RichText
+                content={message.content}
+                className="text-xs whitespace-pre-wrap break-words font-pixelated"
+              />
+            )}
+            {linkUrl && (
+              <LinkPreviewCard url={linkUrl} className="mt-2 max-w-xs" />
+            )}
+            <div className="flex items-center justify-between mt-1">
+              <p className="text-xs opacity-70 font-pixelated">
+                {formatMessageTime(message.created_at)}
+                {message.edited_at && !isUnsent && (
+                  <span title={`Edited ${format(new Date(message.edited_at), 'HH:mm')}`}> · edited</span>
+                )}
+              </p>
+              {/* Delivery and read status for sent messages */}
+              {message.sender_id === currentUser?.id && (
+                <div className="ml-2">
+                  <MessageStatus message={message} showRead={readReceiptsEnabled} />
+                </div>
+              )}
+            </div>
+          </div>
+          {!isUnsent && !selectedFriend?.isBlocked && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 self-center flex-shrink-0 hover:bg-muted/50 md:opacity-0 md:group-hover:opacity-100 data-[state=open]:opacity-100"
+                >
+                  <MoreVertical className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align={isOwn ? 'end' : 'start'}>
+                <DropdownMenuItem onClick={() => startReply(message)} className="font-pixelated text-xs">
+                  <Reply className="h-3 w-3 mr-2" />
+                  Reply
+                </DropdownMenuItem>
+                {isOwn && (
+                  <DropdownMenuItem onClick={() => startEdit(message)} className="font-pixelated text-xs">
+                    <Edit className="h-3 w-3 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                )}
+                {isOwn && canUnsend(message) && (
+                  <DropdownMenuItem
+                    onClick={() => setUnsendTarget(message)}
+                    className="font-pixelated text-xs text-destructive"
+                  >
+                    <Undo2 className="h-3 w-3 mr-2" />
+                    Unsend
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <DashboardLayout>
       <div className="max-w-6xl mx-auto h-[calc(100vh-60px)] bg-background rounded-lg shadow-lg overflow-hidden">
@@ -558,10 +1105,7 @@ export function Messages() {
                     {friends.map(friend => (
                       <div
                         key={friend.id}
-                        onClick={() => {
-                          setSelectedFriend(friend);
-                          fetchMessages(friend.id);
-                        }}
+                        onClick={() => setSelectedFriend(friend)}
                         className={`flex items-center gap-3 p-2 rounded-lg cursor-pointer transition-all duration-200 hover:bg-accent/50 relative ${
                           selectedFriend?.id === friend.id 
                             ? 'bg-accent shadow-md' 
@@ -570,15 +1114,18 @@ export function Messages() {
                           friend.unreadCount && friend.unreadCount > 0 ? 'bg-social-green/5 border-l-4 border-social-green' : ''
                         }`}
                       >
-                        <Avatar className="h-10 w-10 border-2 border-background flex-shrink-0">
-                          {friend.avatar ? (
-                            <AvatarImage src={friend.avatar} />
-                          ) : (
-                            <AvatarFallback className="bg-primary text-primary-foreground font-pixelated text-xs">
-                              {friend.name.substring(0, 2).toUpperCase()}
-                            </AvatarFallback>
-                          )}
-                        </Avatar>
+                        <div className="relative flex-shrink-0">
+                          <Avatar className="h-10 w-10 border-2 border-background">
+                            {friend.avatar ? (
+                              <AvatarImage src={friend.avatar} />
+                            ) : (
+                              <AvatarFallback className="bg-primary text-primary-foreground font-pixelated text-xs">
+                                {friend.name.substring(0, 2).toUpperCase()}
+                              </AvatarFallback>
+                            )}
+                          </Avatar>
+                          <PresenceDot userId={friend.id} />
+                        </div>
                         
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center justify-between">
@@ -603,7 +1150,9 @@ export function Messages() {
                               {friend.isBlocked ? (
                                 <span className="text-destructive">• No longer friends</span>
                               ) : friend.lastMessageContent ? (
-                                truncateMessage(friend.lastMessageContent)
+                                truncateMessage(mentionsToPlainText(friend.lastMessageContent))
+                              ) : friend.lastMessageId ? (
+                                <span className="italic">Message unsent</span>
                               ) : (
                                 `Start chatting with @${friend.username}`
                               )}
@@ -658,23 +1207,38 @@ export function Messages() {
                   >
                     <ArrowLeft className="h-4 w-4" />
                   </Button>
-                  <Avatar className="h-8 w-8 flex-shrink-0">
-                    {selectedFriend.avatar ? (
-                      <AvatarImage src={selectedFriend.avatar} />
-                    ) : (
-                      <AvatarFallback className="bg-primary text-primary-foreground font-pixelated text-xs">
-                        {selectedFriend.name.substring(0, 2).toUpperCase()}
-                      </AvatarFallback>
-                    )}
-                  </Avatar>
+                  <div className="relative flex-shrink-0">
+                    <Avatar className="h-8 w-8">
+                      {selectedFriend.avatar ? (
+                        <AvatarImage src={selectedFriend.avatar} />
+                      ) : (
+                        <AvatarFallback className="bg-primary text-primary-foreground font-pixelated text-xs">
+                          {selectedFriend.name.substring(0, 2).toUpperCase()}
+                        </AvatarFallback>
+                      )}
+                    </Avatar>
+                    <PresenceDot userId={selectedFriend.id} className="h-2.5 w-2.5" />
+                  </div>
                   <div className="flex-1 min-w-0">
                     <p className="font-medium truncate text-sm font-pixelated">{selectedFriend.name}</p>
                     <p className="text-xs text-muted-foreground truncate font-pixelated">
                       @{selectedFriend.username}
-                      {selectedFriend.isBlocked && (
+                      {selectedFriend.isBlocked ? (
                         <span className="ml-2 text-destructive font-pixelated">
                           • No longer friends
                         </span>
+                      ) : partnerTyping ? (
+                        <span className="ml-2 text-social-green font-pixelated">
+                          • typing…
+                        </span>
+                      ) : partnerOnline ? (
+                        <span className="ml-2 text-social-green font-pixelated">
+                          • Online
+                        </span>
+                      ) : partnerLastSeenAt && (
+                        <span className="ml-2 font-pixelated">
+                          • {formatLastSeen(partnerLastSeenAt)}
+                        </span>
                       )}
                     </p>
                   </div>
@@ -687,104 +1251,57 @@ export function Messages() {
                 <div className="flex-1 flex flex-col min-h-0">
                   {/* Messages Area - Takes remaining space with smooth scrolling */}
                   <div className="flex-1 overflow-hidden">
-                    <ScrollArea 
-                      ref={messagesContainerRef}
-                      className="h-full scroll-smooth"
-                    >
-                      <div className="p-3 space-y-2">
-                        {selectedFriend.isBlocked && (
-                          <div className="text-center py-4">
-                            <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 max-w-md mx-auto">
-                              <UserX className="h-6 w-6 text-destructive mx-auto mb-2" />
-                              <p className="font-pixelated text-xs text-destructive font-medium">
-                                You are no longer friends
-                              </p>
-                              <p className="font-pixelated text-xs text-muted-foreground mt-1">
-                                You cannot send or receive messages from this user
-                              </p>
-                            </div>
+                    <div className="h-full flex flex-col">
+                      {selectedFriend.isBlocked && (
+                        <div className="text-center py-4">
+                          <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 max-w-md mx-auto">
+                            <UserX className="h-6 w-6 text-destructive mx-auto mb-2" />
+                            <p className="font-pixelated text-xs text-destructive font-medium">
+                              You are no longer friends
+                            </p>
+                            <p className="font-pixelated text-xs text-muted-foreground mt-1">
+                              You cannot send or receive messages from this user
+                            </p>
                           </div>
-                        )}
-                        
-                        {/* Show "Start chatting" message when no messages exist */}
-                        {messageGroups.length === 0 && !selectedFriend.isBlocked && (
-                          <div className="text-center py-8">
-                            <div className="bg-muted/30 border border-muted rounded-lg p-6 max-w-md mx-auto">
-                              <Heart className="h-8 w-8 text-social-green mx-auto mb-3" />
-                              <p className="font-pixelated text-sm font-medium text-foreground mb-2">
-                                Start your conversation
-                              </p>
-                              <p className="font-pixelated text-xs text-muted-foreground">
-                                Say hello to {selectedFriend.name}! This is the beginning of your chat history.
-                              </p>
-                            </div>
+                        </div>
+                      )}
+
+                      {/* Show "Start chatting" message when no messages exist */}
+                      {messageGroups.length === 0 && !selectedFriend.isBlocked && (
+                        <div className="text-center py-8">
+                          <div className="bg-muted/30 border border-muted rounded-lg p-6 max-w-md mx-auto">
+                            <Heart className="h-8 w-8 text-social-green mx-auto mb-3" />
+                            <p className="font-pixelated text-sm font-medium text-foreground mb-2">
+                              Start your conversation
+                            </p>
+                            <p className="font-pixelated text-xs text-muted-foreground">
+                              Say hello to {selectedFriend.name}! This is the beginning of your chat history.
+                            </p>
                           </div>
-                        )}
-                        
-                        {messageGroups.map((group, groupIndex) => (
-                          <div key={groupIndex} className="space-y-2">
-                            {/* Date Separator */}
-                            <div className="flex items-center justify-center py-1">
-                              <div className="bg-muted px-2 py-1 rounded-full">
-                                <p className="font-pixelated text-xs text-muted-foreground">
-                                  {getDateSeparatorText(group.date)}
-                                </p>
-                              </div>
-                            </div>
-                            
-                            {/* Messages for this date */}
-                            {group.messages.map((message) => (
-                              <div 
-                                key={message.id}
-                                className={`flex gap-2 ${message.sender_id === currentUser?.id ? 'justify-end' : 'justify-start'}`}
-                              >
-                                <div className={`flex gap-2 max-w-[75%] ${message.sender_id === currentUser?.id ? 'flex-row-reverse' : ''}`}>
-                                  <Avatar className="h-6 w-6 mt-1 flex-shrink-0">
-                                    {message.sender?.avatar ? (
-                                      <AvatarImage src={message.sender.avatar} />
-                                    ) : (
-                                      <AvatarFallback className="bg-primary text-primary-foreground font-pixelated text-xs">
-                                        {message.sender?.name.substring(0, 2).toUpperCase()}
-                                      </AvatarFallback>
-                                    )}
-                                  </Avatar>
-                                  <div 
-                                    className={`p-2 rounded-lg relative ${
-                                      message.sender_id === currentUser?.id 
-                                        ? 'bg-primary text-primary-foreground' 
-                                        : 'bg-muted'
-                                    }`}
-                                  >
-                                    <p className="text-xs whitespace-pre-wrap break-words font-pixelated">
-                                      {message.content}
-                                    </p>
-                                    <div className="flex items-center justify-between mt-1">
-                                      <p className="text-xs opacity-70 font-pixelated">
-                                        {formatMessageTime(message.created_at)}
-                                      </p>
-                                      {/* Read Status for sent messages */}
-                                      {message.sender_id === currentUser?.id && (
-                                        <div className="ml-2">
-                                          {message.read ? (
-                                            <div className="flex">
-                                              <Circle className="h-2 w-2 fill-social-green text-social-green" />
-                                              <Circle className="h-2 w-2 fill-social-green text-social-green -ml-1" />
-                                            </div>
-                                          ) : (
-                                            <Circle className="h-2 w-2 fill-muted-foreground text-muted-foreground" />
-                                          )}
-                                        </div>
-                                      )}
-                                    </div>
-                                  </div>
-                                </div>
-                              </div>
-                            ))}
+                        </div>
+                      )}
+
+                      <div className="relative flex-1 min-h-0">
+                        {loadingOlderMessages && (
+                          <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 bg-muted px-2 py-1 rounded-full shadow-sm">
+                            <p className="font-pixelated text-xs text-muted-foreground">
+                              Loading earlier messages...
+                            </p>
                           </div>
-                        ))}
-                        <div ref={messagesEndRef} className="h-1" />
+                        )}
+                        <VirtualizedList
+                          items={messageRows}
+                          getItemKey={(row) => row.key}
+                          renderItem={renderMessageRow}
+                          estimatedItemHeight={56}
+                          scrollToIndex={shouldScrollToBottom ? messageRows.length - 1 : undefined}
+                          scrollToAlignment="end"
+                          onScroll={handleMessagesScroll}
+                          anchorAtTop
+                          rowClassName="px-3 py-1"
+                        />
                       </div>
-                    </ScrollArea>
+                    </div>
                   </div>
 
                   {/* Message Input - Fixed at bottom with better spacing */}
@@ -797,15 +1314,48 @@ export function Messages() {
                       </div>
                     ) : (
                       <div className="p-4 space-y-2">
+                        {(replyingTo || editingMessage) && (
+                          <div className="flex items-center gap-2 pl-2 border-l-2 border-primary">
+                            <div className="flex-1 min-w-0">
+                              <p className="text-xs font-pixelated font-medium">
+                                {editingMessage
+                                  ? 'Editing message'
+                                  : `Replying to ${replyingTo.sender_id === currentUser?.id ? 'yourself' : selectedFriend.name}`}
+                              </p>
+                              {replyingTo && (
+                                <p className="text-xs font-pixelated text-muted-foreground truncate">
+                                  {replyingTo.unsent_at
+                                    ? 'Message unsent'
+                                    : truncateMessage(mentionsToPlainText(replyingTo.content))}
+                                </p>
+                              )}
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={cancelComposerMode}
+                              className="h-6 w-6 flex-shrink-0"
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
                         <div className="flex gap-2 items-end">
-                          <Textarea 
+                          <MentionTextarea
+                            containerClassName="flex-1"
                             placeholder="Type a message..." 
                             value={newMessage}
-                            onChange={(e) => setNewMessage(e.target.value)}
+                            onChange={(e) => {
+                              setNewMessage(e.target.value);
+                              setTyping(e.target.value.trim().length > 0);
+                            }}
                             onKeyDown={(e) => {
                               if (e.key === 'Enter' && !e.shiftKey) {
                                 e.preventDefault();
                                 sendMessage();
+                              } else if (e.key === 'Escape' && (replyingTo || editingMessage)) {
+                                e.preventDefault();
+                                cancelComposerMode();
                               }
                             }}
                             className="min-h-[52px] max-h-[120px] resize-none flex-1 font-pixelated text-xs"
@@ -820,7 +1370,9 @@ export function Messages() {
                           </Button>
                         </div>
                         <p className="text-xs text-muted-foreground font-pixelated">
-                          Press Enter to send, Shift + Enter for new line
+                          {editingMessage
+                            ? 'Press Enter to save, Esc to cancel'
+                            : 'Press Enter to send, Shift + Enter for new line'}
                         </p>
                       </div>
                     )}
@@ -839,6 +1391,26 @@ export function Messages() {
           </div>
         </div>
       </div>
+
+      <AlertDialog open={!!unsendTarget} onOpenChange={(open) => !open && setUnsendTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-pixelated">Unsend message?</AlertDialogTitle>
+            <AlertDialogDescription className="font-pixelated text-xs">
+              The message will be removed for everyone in this conversation.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="font-pixelated text-xs btn-hover">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => unsendTarget && unsendMessage(unsendTarget)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 font-pixelated text-xs btn-hover"
+            >
+              Unsend
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </DashboardLayout>
   );
 }
@@ -4,15 +4,18 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { OneSignalNotificationBanner } from '@/components/notifications/OneSignalNotificationBanner';
 import { useOneSignalNotifications } from '@/hooks/use-onesignal-notifications';
+import { VirtualizedList } from '@/components/common/VirtualizedList';
 import { 
   Bell, 
   Check, 
   Trash2, 
   User, 
   MessageSquare, 
+  MessageSquareHeart,
+  Reply,
+  AtSign,
   Heart, 
   UserPlus, 
   Info, 
@@ -26,6 +29,7 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { formatDistanceToNow } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import {
   AlertDialog,
@@ -58,6 +62,7 @@ export function Notifications() {
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>('default');
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const { toast } = useToast();
+  const navigate = useNavigate();
   const { oneSignalUser, requestPermission, unsubscribe } = useOneSignalNotifications();
 
   const fetchNotifications = async (showLoading = true) => {
@@ -246,6 +251,38 @@ export function Notifications() {
     }
   };
 
+  // Where clicking a notification takes the user, if anywhere
+  const getNotificationLink = (notification: Notification): string | null => {
+    switch (notification.type) {
+      case 'like':
+      case 'comment':
+      case 'comment_like':
+      case 'comment_reply':
+        return notification.reference_id ? `/post/${notification.reference_id}` : null;
+      case 'mention':
+        // Mentions in messages carry no post reference
+        return notification.reference_id ? `/post/${notification.reference_id}` : '/messages';
+      case 'message':
+        return '/messages';
+      case 'friend_request':
+      case 'friend_accepted':
+        return '/friends';
+      default:
+        return null;
+    }
+  };
+
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.read) {
+      markAsRead(notification.id);
+    }
+
+    const link = getNotificationLink(notification);
+    if (link) {
+      navigate(link);
+    }
+  };
+
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'friend_request':
@@ -260,6 +297,12 @@ export function Notifications() {
         return <Heart className="h-4 w-4 text-social-magenta" />;
       case 'comment':
         return <MessageSquare className="h-4 w-4 text-social-purple" />;
+      case 'comment_like':
+        return <MessageSquareHeart className="h-4 w-4 text-social-magenta" />;
+      case 'comment_reply':
+        return <Reply className="h-4 w-4 text-social-purple" />;
+      case 'mention':
+        return <AtSign className="h-4 w-4 text-social-blue" />;
       default:
         return <Bell className="h-4 w-4 text-muted-foreground" />;
     }
@@ -279,6 +322,12 @@ export function Notifications() {
         return 'border-l-social-magenta bg-social-magenta/5';
       case 'comment':
         return 'border-l-social-purple bg-social-purple/5';
+      case 'comment_like':
+        return 'border-l-social-magenta bg-social-magenta/5';
+      case 'comment_reply':
+        return 'border-l-social-purple bg-social-purple/5';
+      case 'mention':
+        return 'border-l-social-blue bg-social-blue/5';
       default:
         return 'border-l-muted-foreground bg-muted/5';
     }
@@ -378,6 +427,68 @@ export function Notifications() {
     );
   }
 
+  const renderNotification = (notification: Notification) => (
+    <Card
+      className={`notification-card cursor-pointer transition-all duration-200 hover:shadow-md hover-scale border-l-4 ${
+        !notification.read 
+          ? `${getNotificationColor(notification.type)} shadow-sm notification-unread` 
+          : 'border-l-muted bg-background notification-read'
+      }`}
+      onClick={() => handleNotificationClick(notification)}
+    >
+      <CardContent className="p-4 card-content">
+        <div className="flex items-start gap-3">
+          <div className="flex-shrink-0 mt-1">
+            {getNotificationIcon(notification.type)}
+          </div>
+          <div className="flex-1 min-w-0 notification-content">
+            <p className={`font-pixelated text-sm leading-relaxed ${
+              !notification.read ? 'font-medium text-foreground' : 'text-muted-foreground'
+            }`}>
+              {notification.content}
+            </p>
+            <div className="flex items-center gap-2 mt-2 flex-wrap">
+              <p className="font-pixelated text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+              </p>
+              {!notification.read && (
+                <Badge variant="secondary" className="h-4 px-1 text-xs font-pixelated">
+                  New
+                </Badge>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {!notification.read && (
+              <Button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  markAsRead(notification.id);
+                }}
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6 hover:bg-social-green/10"
+              >
+                <Check className="h-3 w-3 text-social-green" />
+              </Button>
+            )}
+            <Button
+              onClick={(e) => {
+                e.stopPropagation();
+                deleteNotification(notification.id);
+              }}
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6 hover:bg-destructive/10"
+            >
+              <X className="h-3 w-3 text-destructive" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <DashboardLayout>
       <div className="max-w-2xl mx-auto relative h-[calc(100vh-60px)] animate-fade-in">
@@ -478,72 +589,15 @@ export function Notifications() {
         )}
 
         {/* Content */}
-        <ScrollArea className="h-[calc(100vh-140px)] p-4 scroll-container scroll-smooth">
+        <div className="h-[calc(100vh-140px)] p-4">
           {notifications.length > 0 ? (
-            <div className="space-y-3">
-              {notifications.map((notification) => (
-                <Card 
-                  key={notification.id} 
-                  className={`notification-card cursor-pointer transition-all duration-200 hover:shadow-md hover-scale border-l-4 ${
-                    !notification.read 
-                      ? `${getNotificationColor(notification.type)} shadow-sm notification-unread` 
-                      : 'border-l-muted bg-background notification-read'
-                  }`}
-                  onClick={() => !notification.read && markAsRead(notification.id)}
-                >
-                  <CardContent className="p-4 card-content">
-                    <div className="flex items-start gap-3">
-                      <div className="flex-shrink-0 mt-1">
-                        {getNotificationIcon(notification.type)}
-                      </div>
-                      <div className="flex-1 min-w-0 notification-content">
-                        <p className={`font-pixelated text-sm leading-relaxed ${
-                          !notification.read ? 'font-medium text-foreground' : 'text-muted-foreground'
-                        }`}>
-                          {notification.content}
-                        </p>
-                        <div className="flex items-center gap-2 mt-2 flex-wrap">
-                          <p className="font-pixelated text-xs text-muted-foreground">
-                            {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
-                          </p>
-                          {!notification.read && (
-                            <Badge variant="secondary" className="h-4 px-1 text-xs font-pixelated">
-                              New
-                            </Badge>
-                          )}
-                        </div>
-                      </div>
-                      <div className="flex items-center gap-1 flex-shrink-0">
-                        {!notification.read && (
-                          <Button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              markAsRead(notification.id);
-                            }}
-                            size="icon"
-                            variant="ghost"
-                            className="h-6 w-6 hover:bg-social-green/10"
-                          >
-                            <Check className="h-3 w-3 text-social-green" />
-                          </Button>
-                        )}
-                        <Button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteNotification(notification.id);
-                          }}
-                          size="icon"
-                          variant="ghost"
-                          className="h-6 w-6 hover:bg-destructive/10"
-                        >
-                          <X className="h-3 w-3 text-destructive" />
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+            <VirtualizedList
+              items={notifications}
+              getItemKey={(notification) => notification.id}
+              renderItem={renderNotification}
+              estimatedItemHeight={110}
+              rowClassName="pb-3"
+            />
           ) : (
             <div className="flex flex-col items-center justify-center h-full text-center py-12">
               <div className="relative mb-6">
@@ -566,7 +620,7 @@ export function Notifications() {
               )}
             </div>
           )}
-        </ScrollArea>
+        </div>
 
         {/* Info Dialog */}
         <Dialog open={showInfo} onOpenChange={setShowInfo}>
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
+import { CommunityFeed } from '@/components/dashboard/CommunityFeed';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+export function PostDetail() {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-2xl mx-auto relative h-[calc(100vh-60px)] animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center gap-3 p-4 border-b bg-background sticky top-0 z-10 backdrop-blur-sm">
+          <Button
+            onClick={() => navigate(-1)}
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 rounded-full"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="font-pixelated text-lg font-medium">Post</h1>
+        </div>
+
+        <ScrollArea className="h-[calc(100vh-130px)] px-2 pt-4">
+          {/* Remount per post so state from the previous one doesn't linger */}
+          <CommunityFeed key={id} postId={id} />
+        </ScrollArea>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+export default PostDetail;
@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { differenceInCalendarDays, formatDistanceToNow } from 'date-fns';
+import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { mentionsToPlainText } from '@/utils/mentionUtils';
+
+// Matches the retention window of purge_deleted_items
+const RETENTION_DAYS = 30;
+
+interface DeletedItem {
+  item_type: string;
+  id: string;
+  post_id: string;
+  content: string;
+  created_at: string;
+  deleted_at: string;
+}
+
+export function RecentlyDeleted() {
+  const [items, setItems] = useState<DeletedItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<{ [key: string]: boolean }>({});
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const fetchItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('get_recently_deleted');
+
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      console.error('Error fetching deleted items:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to load recently deleted items'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const handleRestore = async (item: DeletedItem) => {
+    try {
+      setRestoring(prev => ({ ...prev, [item.id]: true }));
+
+      const { error } = item.item_type === 'post'
+        ? await supabase.rpc('restore_post', { post_uuid: item.id })
+        : await supabase.rpc('restore_comment', { comment_uuid: item.id });
+
+      if (error) throw error;
+
+      setItems(prev => prev.filter(other => other.id !== item.id));
+      toast({
+        title: item.item_type === 'post' ? 'Post restored' : 'Comment restored',
+        description: 'It is visible again'
+      });
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: item.item_type === 'post' ? 'Failed to restore post' : 'Failed to restore comment'
+      });
+    } finally {
+      setRestoring(prev => ({ ...prev, [item.id]: false }));
+    }
+  };
+
+  const daysLeft = (item: DeletedItem) =>
+    Math.max(0, RETENTION_DAYS - differenceInCalendarDays(new Date(), new Date(item.deleted_at)));
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-2xl mx-auto relative h-[calc(100vh-60px)] animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center gap-3 p-4 border-b bg-background sticky top-0 z-10 backdrop-blur-sm">
+          <Button
+            onClick={() => navigate('/settings')}
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 rounded-full"
+            title="Back to settings"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <Trash2 className="h-6 w-6 text-primary" />
+          <div>
+            <h1 className="font-pixelated text-lg font-medium">Recently Deleted</h1>
+            <p className="font-pixelated text-xs text-muted-foreground">
+              Items are removed for good after {RETENTION_DAYS} days
+            </p>
+          </div>
+        </div>
+
+        <ScrollArea className="h-[calc(100vh-140px)] px-2 pt-4">
+          {loading ? (
+            <p className="font-pixelated text-xs text-muted-foreground text-center py-8 animate-pulse">
+              Loading...
+            </p>
+          ) : items.length === 0 ? (
+            <Card className="text-center py-8">
+              <CardContent>
+                <Trash2 className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                <p className="font-pixelated text-sm text-muted-foreground">
+                  Nothing here. Deleted posts and comments show up for {RETENTION_DAYS} days.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3 pb-4">
+              {items.map(item => (
+                <Card key={item.id} className="card-gradient animate-fade-in">
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="font-pixelated text-[10px] capitalize">
+                          {item.item_type}
+                        </Badge>
+                        <p className="font-pixelated text-xs text-muted-foreground">
+                          Deleted {formatDistanceToNow(new Date(item.deleted_at), { addSuffix: true })} • {daysLeft(item)} {daysLeft(item) === 1 ? 'day' : 'days'} left
+                        </p>
+                      </div>
+                      <Button
+                        onClick={() => handleRestore(item)}
+                        disabled={restoring[item.id]}
+                        size="sm"
+                        className="bg-social-green hover:bg-social-light-green text-white font-pixelated text-xs btn-hover micro-bounce"
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        {restoring[item.id] ? 'Restoring...' : 'Restore'}
+                      </Button>
+                    </div>
+                    <p className="font-pixelated text-xs leading-relaxed whitespace-pre-wrap break-words line-clamp-4">
+                      {mentionsToPlainText(item.content) || 'No text'}
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+export default RecentlyDeleted;
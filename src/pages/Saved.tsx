@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
+import { CommunityFeed } from '@/components/dashboard/CommunityFeed';
+import { NewCollectionDialog } from '@/components/dashboard/NewCollectionDialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Bookmark, FolderPlus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useBookmarkCollections } from '@/hooks/use-bookmark-collections';
+
+export function Saved() {
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+  const [showNewCollection, setShowNewCollection] = useState(false);
+  const [showDeleteCollection, setShowDeleteCollection] = useState(false);
+  const { collections, fetchCollections, deleteCollection } = useBookmarkCollections();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCollections();
+  }, [fetchCollections]);
+
+  const activeCollection = collections.find(collection => collection.id === collectionId);
+
+  const handleDeleteCollection = async () => {
+    if (!activeCollection) return;
+
+    try {
+      await deleteCollection(activeCollection.id);
+      setCollectionId(null);
+      toast({
+        title: 'Collection deleted',
+        description: 'Its posts are still in All Saved'
+      });
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to delete collection'
+      });
+    } finally {
+      setShowDeleteCollection(false);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-2xl mx-auto relative h-[calc(100vh-60px)] animate-fade-in">
+        {/* Header */}
+        <div className="p-4 border-b bg-background sticky top-0 z-10 backdrop-blur-sm space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Bookmark className="h-6 w-6 text-primary" />
+              <h1 className="font-pixelated text-lg font-medium">Saved</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              {activeCollection && (
+                <Button
+                  onClick={() => setShowDeleteCollection(true)}
+                  size="icon"
+                  variant="outline"
+                  className="h-8 w-8 rounded-full hover:bg-destructive/10 hover:text-destructive"
+                  title="Delete collection"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                onClick={() => setShowNewCollection(true)}
+                size="icon"
+                variant="outline"
+                className="h-8 w-8 rounded-full hover-scale"
+                title="New collection"
+              >
+                <FolderPlus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Collection filter */}
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            <Button
+              onClick={() => setCollectionId(null)}
+              size="sm"
+              variant={collectionId === null ? 'default' : 'outline'}
+              className="h-7 rounded-full font-pixelated text-xs flex-shrink-0"
+            >
+              All Saved
+            </Button>
+            {collections.map(collection => (
+              <Button
+                key={collection.id}
+                onClick={() => setCollectionId(collection.id)}
+                size="sm"
+                variant={collectionId === collection.id ? 'default' : 'outline'}
+                className="h-7 rounded-full font-pixelated text-xs flex-shrink-0"
+              >
+                {collection.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <ScrollArea className="h-[calc(100vh-180px)] px-2 pt-4">
+          {/* Remount per collection so paging starts over */}
+          <CommunityFeed key={collectionId ?? 'all'} saved collectionId={collectionId ?? undefined} />
+        </ScrollArea>
+      </div>
+
+      <NewCollectionDialog
+        open={showNewCollection}
+        onOpenChange={setShowNewCollection}
+        onCreated={(collection) => setCollectionId(collection.id)}
+      />
+
+      <AlertDialog open={showDeleteCollection} onOpenChange={setShowDeleteCollection}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-pixelated">Delete Collection</AlertDialogTitle>
+            <AlertDialogDescription className="font-pixelated text-xs">
+              Delete "{activeCollection?.name}"? The posts in it stay saved under All Saved.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="font-pixelated text-xs btn-hover">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteCollection}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 font-pixelated text-xs btn-hover"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
+
+export default Saved;
@@ -0,0 +1,337 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { FileText, MessageCircle, Search as SearchIcon, SearchX, Users } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useSensitiveContent } from '@/hooks/use-sensitive-content';
+import { UserProfileDialog } from '@/components/user/UserProfileDialog';
+import { ContentWarning } from '@/components/dashboard/ContentWarning';
+import { MIN_SEARCH_LENGTH, splitHighlights } from '@/utils/searchUtils';
+
+const PAGE_SIZE = 20;
+
+type SearchTab = 'posts' | 'comments' | 'people';
+
+const SEARCH_TABS: { value: SearchTab; label: string; icon: React.ReactNode }[] = [
+  { value: 'posts', label: 'Posts', icon: <FileText className="h-3 w-3" /> },
+  { value: 'comments', label: 'Comments', icon: <MessageCircle className="h-3 w-3" /> },
+  { value: 'people', label: 'People', icon: <Users className="h-3 w-3" /> },
+];
+
+// A post or comment match, comments also point at their post
+interface ContentResult {
+  id: string;
+  post_id?: string;
+  user_id: string;
+  created_at: string;
+  headline: string;
+  name: string;
+  username: string;
+  avatar: string | null;
+  // Only post matches carry these
+  content_warning?: string | null;
+  sensitive?: boolean;
+}
+
+interface PersonResult {
+  id: string;
+  name: string;
+  username: string;
+  avatar: string | null;
+  name_headline: string;
+  username_headline: string;
+}
+
+type SearchResult = ContentResult | PersonResult;
+
+// Renders a search headline with the matched terms emphasised
+function Highlighted({ headline, className }: { headline: string; className?: string }) {
+  return (
+    <span className={className}>
+      {splitHighlights(headline).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-social-green/20 px-0.5 text-foreground">
+            {part.value}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.value}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+}
+
+const searchFunction = (tab: SearchTab) => {
+  if (tab === 'comments') return 'search_comments' as const;
+  if (tab === 'people') return 'search_people' as const;
+  return 'search_posts' as const;
+};
+
+export function Search() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+  const tabParam = searchParams.get('tab');
+  const tab: SearchTab = tabParam === 'comments' || tabParam === 'people' ? tabParam : 'posts';
+  const [input, setInput] = useState(query);
+  // Results remember their tab so a tab switch never renders them with the wrong layout
+  const [results, setResults] = useState<{ tab: SearchTab; items: SearchResult[] }>({ tab: 'posts', items: [] });
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [selectedPerson, setSelectedPerson] = useState<PersonResult | null>(null);
+  const [revealedPosts, setRevealedPosts] = useState<{ [key: string]: boolean }>({});
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { preference: sensitivePreference, fetchPreference: fetchSensitivePreference } = useSensitiveContent();
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    fetchSensitivePreference();
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUserId(user?.id ?? null));
+  }, [fetchSensitivePreference]);
+
+  const updateParams = useCallback((next: { q?: string; tab?: SearchTab }) => {
+    const params = new URLSearchParams(searchParams);
+    if (next.q !== undefined) {
+      if (next.q) params.set('q', next.q);
+      else params.delete('q');
+    }
+    if (next.tab !== undefined) params.set('tab', next.tab);
+    setSearchParams(params, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  // Keep the URL in step with the input once typing pauses
+  useEffect(() => {
+    if (input.trim() === trimmedQuery) return;
+    const timer = setTimeout(() => updateParams({ q: input.trim() }), 300);
+    return () => clearTimeout(timer);
+  }, [input, trimmedQuery, updateParams]);
+
+  const fetchResults = useCallback(async (offset: number) => {
+    const { data, error } = await supabase.rpc(searchFunction(tab), {
+      search_query: trimmedQuery,
+      result_limit: PAGE_SIZE,
+      result_offset: offset
+    });
+
+    if (error) throw error;
+    return (data || []) as SearchResult[];
+  }, [tab, trimmedQuery]);
+
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_SEARCH_LENGTH) {
+      setResults({ tab, items: [] });
+      setHasMore(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const search = async () => {
+      try {
+        setLoading(true);
+        const page = await fetchResults(0);
+        if (cancelled) return;
+        setResults({ tab, items: page });
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error searching:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Search failed',
+          description: 'Failed to load search results'
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    search();
+    return () => {
+      cancelled = true;
+    };
+  }, [tab, trimmedQuery, fetchResults, toast]);
+
+  const loadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const page = await fetchResults(results.items.length);
+      setResults(prev => ({ ...prev, items: [...prev.items, ...page] }));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more results:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to load more results'
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Hidden matches stay in the results so the next page still starts at the right offset
+  const visibleItems = tab === 'posts' && sensitivePreference === 'hide'
+    ? results.items.filter(result => {
+        const item = result as ContentResult;
+        return item.user_id === currentUserId || !item.sensitive;
+      })
+    : results.items;
+
+  const renderAvatar = (result: { name: string; avatar: string | null }, size: string) => (
+    <Avatar className={size}>
+      {result.avatar ? (
+        <AvatarImage src={result.avatar} alt={result.name} />
+      ) : (
+        <AvatarFallback className="bg-social-dark-green text-white font-pixelated text-xs">
+          {result.name?.substring(0, 2).toUpperCase() || 'U'}
+        </AvatarFallback>
+      )}
+    </Avatar>
+  );
+
+  const renderResult = (result: SearchResult) => {
+    if (tab === 'people') {
+      const person = result as PersonResult;
+      return (
+        <Card
+          key={person.id}
+          className="card-gradient animate-fade-in cursor-pointer hover:shadow-md transition-shadow duration-300"
+          onClick={() => setSelectedPerson(person)}
+        >
+          <CardContent className="p-3 flex items-center gap-3">
+            {renderAvatar(person, 'h-10 w-10')}
+            <div className="min-w-0">
+              <Highlighted headline={person.name_headline} className="block font-pixelated text-xs font-medium truncate" />
+              <span className="block font-pixelated text-xs text-muted-foreground truncate">
+                @<Highlighted headline={person.username_headline} />
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    const item = result as ContentResult;
+    const postId = item.post_id ?? item.id;
+    const warningCovered = !!item.content_warning && sensitivePreference !== 'show' && !revealedPosts[item.id];
+    return (
+      <Card
+        key={item.id}
+        className="card-gradient animate-fade-in cursor-pointer hover:shadow-md transition-shadow duration-300"
+        onClick={() => navigate(`/post/${postId}`)}
+      >
+        <CardContent className="p-4 space-y-2">
+          <div className="flex items-center gap-2">
+            {renderAvatar(item, 'h-6 w-6')}
+            <p className="font-pixelated text-xs font-medium truncate">{item.name}</p>
+            <p className="font-pixelated text-xs text-muted-foreground truncate">
+              @{item.username} • {tab === 'comments' ? 'commented ' : ''}
+              {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+            </p>
+          </div>
+          {warningCovered ? (
+            <ContentWarning
+              label={item.content_warning}
+              onShow={() => setRevealedPosts(prev => ({ ...prev, [item.id]: true }))}
+            />
+          ) : (
+            <Highlighted
+              headline={item.headline}
+              className="block font-pixelated text-xs leading-relaxed whitespace-pre-wrap break-words"
+            />
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-2xl mx-auto relative h-[calc(100vh-60px)] animate-fade-in">
+        {/* Header */}
+        <div className="p-4 border-b bg-background sticky top-0 z-10 backdrop-blur-sm space-y-3">
+          <div className="relative">
+            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="search"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Search posts, comments and people"
+              className="pl-9 font-pixelated text-xs"
+              autoFocus
+            />
+          </div>
+          <Tabs value={tab} onValueChange={(value) => updateParams({ tab: value as SearchTab })}>
+            <TabsList className="w-full">
+              {SEARCH_TABS.map(option => (
+                <TabsTrigger key={option.value} value={option.value} className="flex-1 gap-1 font-pixelated text-xs">
+                  {option.icon}
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <ScrollArea className="h-[calc(100vh-200px)] px-2 pt-4">
+          {trimmedQuery.length < MIN_SEARCH_LENGTH ? (
+            <p className="font-pixelated text-xs text-muted-foreground text-center py-8">
+              Type at least {MIN_SEARCH_LENGTH} characters to search
+            </p>
+          ) : loading || results.tab !== tab ? (
+            <p className="font-pixelated text-xs text-muted-foreground text-center py-8 animate-pulse">
+              Searching...
+            </p>
+          ) : visibleItems.length === 0 && !hasMore ? (
+            <Card className="text-center py-8">
+              <CardContent>
+                <SearchX className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                <p className="font-pixelated text-sm text-muted-foreground">
+                  No {tab} match "{trimmedQuery}"
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3 pb-4">
+              {visibleItems.map(renderResult)}
+              {hasMore && (
+                <div className="text-center">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="font-pixelated text-xs"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load more'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+
+        <UserProfileDialog
+          open={!!selectedPerson}
+          onOpenChange={(open) => {
+            if (!open) setSelectedPerson(null);
+          }}
+          user={selectedPerson}
+        />
+      </div>
+    </DashboardLayout>
+  );
+}
+
+export default Search;
@@ -6,14 +6,31 @@ import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { DeleteAccountDialog } from '@/components/user/DeleteAccountDialog';
-import { Bell, Trash2, Settings as SettingsIcon } from 'lucide-react';
+import { Bell, Trash2, Settings as SettingsIcon, RotateCcw, EyeOff, Circle, CheckCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { SensitiveContentPreference, useSensitiveContent } from '@/hooks/use-sensitive-content';
+import { usePresence } from '@/hooks/use-presence';
+import { useReadReceipts } from '@/hooks/use-read-receipts';
+
+const SENSITIVE_CONTENT_OPTIONS: { value: SensitiveContentPreference; label: string }[] = [
+  { value: 'show', label: 'Always show' },
+  { value: 'blur', label: 'Blur' },
+  { value: 'hide', label: 'Always hide' },
+];
 
 export function Settings() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { preference: sensitivePreference, fetchPreference, setPreference } = useSensitiveContent();
+  const showPresence = usePresence(state => state.showPresence);
+  const setShowPresence = usePresence(state => state.setShowPresence);
+  const {
+    enabled: readReceiptsEnabled,
+    fetchPreference: fetchReadReceiptsPreference,
+    setEnabled: setReadReceiptsEnabled
+  } = useReadReceipts();
 
   useEffect(() => {
     // Check if notifications are already enabled
@@ -22,6 +39,53 @@ export function Settings() {
     }
   }, []);
 
+  useEffect(() => {
+    fetchPreference();
+  }, [fetchPreference]);
+
+  useEffect(() => {
+    fetchReadReceiptsPreference();
+  }, [fetchReadReceiptsPreference]);
+
+  const handleSensitivePreference = async (preference: SensitiveContentPreference) => {
+    try {
+      await setPreference(preference);
+    } catch (error) {
+      console.error('Error updating sensitive content preference:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update sensitive content setting'
+      });
+    }
+  };
+
+  const handlePresenceToggle = async (checked: boolean) => {
+    try {
+      await setShowPresence(checked);
+    } catch (error) {
+      console.error('Error updating online status setting:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update online status setting'
+      });
+    }
+  };
+
+  const handleReadReceiptsToggle = async (checked: boolean) => {
+    try {
+      await setReadReceiptsEnabled(checked);
+    } catch (error) {
+      console.error('Error updating read receipts setting:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to update read receipts setting'
+      });
+    }
+  };
+
   const handleNotificationToggle = async () => {
     if (!('Notification' in window)) {
       toast({
@@ -106,6 +170,90 @@ export function Settings() {
               )}
             </div>
 
+            {/* Online Status Section */}
+            <div className="pt-6 border-t">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label className="text-base flex items-center gap-2">
+                    <Circle className="h-4 w-4" />
+                    Online Status
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Let friends see when you're online, typing, or when you were last active
+                  </p>
+                </div>
+                <Switch
+                  checked={showPresence}
+                  onCheckedChange={handlePresenceToggle}
+                />
+              </div>
+            </div>
+
+            {/* Read Receipts Section */}
+            <div className="pt-6 border-t">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label className="text-base flex items-center gap-2">
+                    <CheckCheck className="h-4 w-4" />
+                    Read Receipts
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Let friends see when you've read their messages. When off, you won't see theirs either
+                  </p>
+                </div>
+                <Switch
+                  checked={readReceiptsEnabled}
+                  onCheckedChange={handleReadReceiptsToggle}
+                />
+              </div>
+            </div>
+
+            {/* Sensitive Content Section */}
+            <div className="pt-6 border-t space-y-4">
+              <div className="space-y-0.5">
+                <Label className="text-base flex items-center gap-2">
+                  <EyeOff className="h-4 w-4" />
+                  Sensitive Content
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Choose how posts and images with a content warning appear in your feed
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {SENSITIVE_CONTENT_OPTIONS.map(option => (
+                  <Button
+                    key={option.value}
+                    variant={sensitivePreference === option.value ? 'default' : 'outline'}
+                    onClick={() => handleSensitivePreference(option.value)}
+                    aria-pressed={sensitivePreference === option.value}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Recently Deleted Section */}
+            <div className="pt-6 border-t">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label className="text-base flex items-center gap-2">
+                    <RotateCcw className="h-4 w-4" />
+                    Recently Deleted
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Restore posts and comments deleted in the last 30 days
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => navigate('/settings/deleted')}
+                >
+                  View
+                </Button>
+              </div>
+            </div>
+
             {/* Delete Account Section */}
             <div className="pt-6 border-t">
               <div className="space-y-4">
@@ -0,0 +1,43 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
+import { CommunityFeed } from '@/components/dashboard/CommunityFeed';
+import { TrendingTags } from '@/components/dashboard/TrendingTags';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Hash } from 'lucide-react';
+import { normalizeTag } from '@/utils/hashtagUtils';
+
+export function TagPosts() {
+  const { tag: rawTag = '' } = useParams<{ tag: string }>();
+  const navigate = useNavigate();
+  const tag = normalizeTag(rawTag);
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-2xl mx-auto relative h-[calc(100vh-60px)] animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center gap-3 p-4 border-b bg-background sticky top-0 z-10 backdrop-blur-sm">
+          <Button
+            onClick={() => navigate(-1)}
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 rounded-full"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <Hash className="h-6 w-6 text-primary" />
+          <h1 className="font-pixelated text-lg font-medium truncate">{tag}</h1>
+        </div>
+
+        <ScrollArea className="h-[calc(100vh-130px)] px-2 pt-4">
+          <TrendingTags activeTag={tag} />
+          {/* Remount per tag so the feed starts from a fresh page */}
+          <CommunityFeed key={tag} tag={tag} />
+        </ScrollArea>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+export default TagPosts;
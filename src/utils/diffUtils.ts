@@ -0,0 +1,68 @@
+export type DiffType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffPart {
+  type: DiffType;
+  value: string;
+}
+
+// Above this many token pairs the diff falls back to replacing the whole text
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Splits text into words and the whitespace runs between them
+ */
+const tokenize = (text: string): string[] => {
+  return text.match(/\s+|\S+/g) ?? [];
+};
+
+/**
+ * Word-level diff of two texts based on their longest common subsequence
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  const push = (type: DiffType, value: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ type, value });
+    }
+  };
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) push('removed', before);
+    if (after) push('added', after);
+    return parts;
+  }
+
+  // lengths[i][j] is the common subsequence length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('unchanged', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+};
@@ -0,0 +1,13 @@
+/**
+ * Matches `#tag` at the start of the text or after whitespace.
+ * Mirrors the pattern used by the `sync_post_hashtags` trigger.
+ */
+export const HASHTAG_REGEX = /(^|\s)#([\p{L}\p{N}_]{1,50})/gu;
+
+/**
+ * Normalizes a tag the way it is stored in `post_hashtags`
+ */
+export const normalizeTag = (tag: string): string => {
+  return tag.replace(/^#/, '').toLowerCase();
+};
+
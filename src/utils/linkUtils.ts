@@ -0,0 +1,96 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+/**
+ * Matches http(s) links, leaving out trailing punctuation that usually ends the sentence
+ */
+export const URL_REGEX = /\bhttps?:\/\/[^\s<>"]*[^\s<>".,;:!?)\]'}]/gi;
+
+// Matches the refresh windows of the link-preview edge function
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Pending and finished lookups, shared by every preview card on the page
+const previewCache = new Map<string, Promise<LinkPreview | null>>();
+
+/**
+ * Drops the fragment and lets URL normalize the rest.
+ * Mirrors `normalizeLinkUrl` in the link-preview edge function.
+ */
+export const normalizeLinkUrl = (raw: string): string | null => {
+  try {
+    const url = new URL(raw.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns the first link in the content, the one that gets a preview card
+ */
+export const getFirstUrl = (content: string): string | null => {
+  for (const match of content.matchAll(URL_REGEX)) {
+    const url = normalizeLinkUrl(match[0]);
+    if (url) return url;
+  }
+  return null;
+};
+
+const loadLinkPreview = async (url: string): Promise<LinkPreview | null> => {
+  const { data: cached, error } = await supabase
+    .from('link_previews')
+    .select('url, title, description, image_url, site_name, status, fetched_at')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  let row = cached;
+  const stale = !row ||
+    Date.now() - new Date(row.fetched_at).getTime() > (row.status === 'ok' ? PREVIEW_TTL_MS : FAILED_TTL_MS);
+
+  // The edge function fetches the page and fills the cache for everyone else
+  if (stale) {
+    const { data, error: invokeError } = await supabase.functions.invoke('link-preview', {
+      body: { url }
+    });
+
+    if (invokeError) throw invokeError;
+    row = data;
+  }
+
+  if (!row || row.status !== 'ok' || (!row.title && !row.description)) return null;
+  return {
+    url: row.url,
+    title: row.title,
+    description: row.description,
+    image_url: row.image_url,
+    site_name: row.site_name
+  };
+};
+
+/**
+ * Loads the preview for a normalized link, null when the page has nothing to show
+ */
+export const fetchLinkPreview = (url: string): Promise<LinkPreview | null> => {
+  let pending = previewCache.get(url);
+  if (!pending) {
+    pending = loadLinkPreview(url).catch(error => {
+      // Let a later render try again
+      previewCache.delete(url);
+      throw error;
+    });
+    previewCache.set(url, pending);
+  }
+  return pending;
+};
@@ -0,0 +1,113 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface MentionProfile {
+  id: string;
+  name: string;
+  username: string;
+  avatar: string | null;
+}
+
+/**
+ * Matches stored `@[username](user-id)` tokens.
+ * Mirrors the pattern used by `extract_mentioned_user_ids`.
+ */
+export const MENTION_TOKEN_REGEX = /@\[([^\]]*)\]\(([0-9a-fA-F-]{36})\)/g;
+
+/**
+ * Matches a typed `@username` at the start of the text or after whitespace
+ */
+const TYPED_MENTION_REGEX = /(^|\s)@([A-Za-z0-9_]{1,30})(?![A-Za-z0-9_])/g;
+
+// Profiles of mentioned users, shared by everything rendering mentions
+const profileCache = new Map<string, MentionProfile>();
+
+/**
+ * Builds the stored token for a mention of the given user
+ */
+export const formatMention = (profile: Pick<MentionProfile, 'id' | 'username'>): string => {
+  return `@[${profile.username}](${profile.id})`;
+};
+
+/**
+ * Lists the distinct user ids mentioned in stored content
+ */
+export const getMentionedUserIds = (content: string): string[] => {
+  const ids = new Set<string>();
+  for (const match of content.matchAll(MENTION_TOKEN_REGEX)) {
+    ids.add(match[2].toLowerCase());
+  }
+  return Array.from(ids);
+};
+
+/**
+ * Returns the already loaded profiles for the given user ids
+ */
+export const getCachedMentionProfiles = (ids: string[]): Record<string, MentionProfile> => {
+  const profiles: Record<string, MentionProfile> = {};
+  ids.forEach(id => {
+    const profile = profileCache.get(id);
+    if (profile) profiles[id] = profile;
+  });
+  return profiles;
+};
+
+/**
+ * Loads the profiles for the given user ids, fetching only the ones not cached yet
+ */
+export const fetchMentionProfiles = async (ids: string[]): Promise<Record<string, MentionProfile>> => {
+  const missing = ids.filter(id => !profileCache.has(id));
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, name, username, avatar')
+      .in('id', missing);
+
+    if (error) throw error;
+    (data || []).forEach(profile => profileCache.set(profile.id, profile));
+  }
+
+  return getCachedMentionProfiles(ids);
+};
+
+/**
+ * Turns typed `@username` mentions into stored tokens.
+ * Usernames that don't belong to anyone are left as plain text.
+ */
+export const serializeMentions = async (text: string): Promise<string> => {
+  const usernames = new Set<string>();
+  for (const match of text.matchAll(TYPED_MENTION_REGEX)) {
+    usernames.add(match[2].toLowerCase());
+  }
+
+  if (usernames.size === 0) return text;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, name, username, avatar')
+    .in('username', Array.from(usernames));
+
+  if (error) throw error;
+
+  const byUsername = new Map<string, MentionProfile>();
+  (data || []).forEach(profile => {
+    profileCache.set(profile.id, profile);
+    byUsername.set(profile.username.toLowerCase(), profile);
+  });
+
+  return text.replace(TYPED_MENTION_REGEX, (whole, prefix: string, username: string) => {
+    const profile = byUsername.get(username.toLowerCase());
+    return profile ? `${prefix}${formatMention(profile)}` : whole;
+  });
+};
+
+/**
+ * Turns stored tokens back into `@username`, e.g. for editing or previews.
+ * Uses the current username when known, the stored label otherwise.
+ */
+export const mentionsToPlainText = (content: string): string => {
+  return content.replace(MENTION_TOKEN_REGEX, (_whole, label: string, id: string) => {
+    const profile = profileCache.get(id.toLowerCase());
+    return `@${profile?.username ?? label}`;
+  });
+};
@@ -0,0 +1,20 @@
+import { differenceInMinutes, format } from 'date-fns';
+
+/**
+ * Short "last seen" label for a profile's last_seen_at, null when it's hidden or unknown
+ */
+export const formatLastSeen = (lastSeenAt: string | null | undefined, now = new Date()): string | null => {
+  if (!lastSeenAt) return null;
+
+  const minutes = differenceInMinutes(now, new Date(lastSeenAt));
+  if (minutes < 1) return 'last seen just now';
+  if (minutes < 60) return `last seen ${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `last seen ${hours}h ago`;
+
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `last seen ${days}d ago`;
+
+  return `last seen ${format(new Date(lastSeenAt), 'MMM d')}`;
+};
@@ -0,0 +1,40 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type ReactionType = 'like' | 'love' | 'laugh' | 'wow' | 'sad' | 'angry';
+
+export interface Reaction {
+  type: ReactionType;
+  emoji: string;
+  label: string;
+}
+
+/**
+ * Reactions in picker order, matching the `likes_reaction_type_check` constraint
+ */
+export const REACTIONS: Reaction[] = [
+  { type: 'like', emoji: '👍', label: 'Like' },
+  { type: 'love', emoji: '❤️', label: 'Love' },
+  { type: 'laugh', emoji: '😂', label: 'Haha' },
+  { type: 'wow', emoji: '😮', label: 'Wow' },
+  { type: 'sad', emoji: '😢', label: 'Sad' },
+  { type: 'angry', emoji: '😠', label: 'Angry' },
+];
+
+/**
+ * Looks up a reaction by type, falling back to a plain like
+ */
+export const getReaction = (type: string | null | undefined): Reaction => {
+  return REACTIONS.find(reaction => reaction.type === type) ?? REACTIONS[0];
+};
+
+/**
+ * Turns a post's `reaction_counts` into the used reactions, most frequent first
+ */
+export const getReactionSummary = (counts: Json): (Reaction & { count: number })[] => {
+  const values = (counts && typeof counts === 'object' && !Array.isArray(counts) ? counts : {}) as Record<string, Json>;
+
+  return REACTIONS
+    .map(reaction => ({ ...reaction, count: Number(values[reaction.type]) || 0 }))
+    .filter(reaction => reaction.count > 0)
+    .sort((a, b) => b.count - a.count);
+};
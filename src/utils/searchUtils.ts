@@ -0,0 +1,41 @@
+import { mentionsToPlainText } from '@/utils/mentionUtils';
+
+export interface HighlightPart {
+  value: string;
+  match: boolean;
+}
+
+// Markers the search functions wrap matched terms in, see `search_posts`
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+/**
+ * Shortest query the search page sends to the database
+ */
+export const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * Splits text at the first separator, the second part is empty when there is none
+ */
+const splitOnce = (text: string, separator: string): [string, string] => {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, ''] : [text.slice(0, index), text.slice(index + separator.length)];
+};
+
+/**
+ * Splits a search headline into plain and matched parts.
+ * Mention tokens are turned into `@username` first so they read naturally.
+ */
+export const splitHighlights = (headline: string): HighlightPart[] => {
+  const text = mentionsToPlainText(headline ?? '');
+  const parts: HighlightPart[] = [];
+
+  text.split(MATCH_START).forEach((chunk, index) => {
+    // Every chunk after the first starts with a match
+    const [matched, rest] = index === 0 ? ['', chunk] : splitOnce(chunk, MATCH_END);
+    if (matched) parts.push({ value: matched, match: true });
+    if (rest) parts.push({ value: rest.split(MATCH_END).join(''), match: false });
+  });
+
+  return parts;
+};
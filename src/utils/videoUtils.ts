@@ -0,0 +1,81 @@
+export interface VideoMetadata {
+  duration: number;
+  width: number;
+  height: number;
+  poster: Blob | null;
+}
+
+// Some codecs load metadata but never finish seeking, give up on the poster after this long
+const METADATA_TIMEOUT_MS = 10000;
+
+/**
+ * Loads a local video file and captures a JPEG poster frame from it
+ */
+export const getVideoMetadata = (file: File): Promise<VideoMetadata> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    let metadataLoaded = false;
+    let settled = false;
+
+    const settle = (result: VideoMetadata | Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+
+      if (result instanceof Error) {
+        reject(result);
+      } else {
+        resolve(result);
+      }
+    };
+
+    // Once the metadata is known the video is still usable, just without a poster
+    const settleWithoutPoster = () => {
+      if (metadataLoaded) {
+        settle({ duration: video.duration, width: video.videoWidth, height: video.videoHeight, poster: null });
+      } else {
+        settle(new Error('Unable to read video file'));
+      }
+    };
+
+    const timeout = setTimeout(settleWithoutPoster, METADATA_TIMEOUT_MS);
+
+    video.preload = 'metadata';
+    video.muted = true;
+    video.playsInline = true;
+
+    video.onloadedmetadata = () => {
+      metadataLoaded = true;
+      // Skip the first moments, which are often black
+      video.currentTime = Math.min(1, video.duration / 2);
+    };
+
+    video.onseeked = () => {
+      const { duration, videoWidth: width, videoHeight: height } = video;
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+
+      const context = canvas.getContext('2d');
+      if (!context || width === 0 || height === 0) {
+        settle({ duration, width, height, poster: null });
+        return;
+      }
+
+      context.drawImage(video, 0, 0, width, height);
+      canvas.toBlob(
+        (poster) => settle({ duration, width, height, poster }),
+        'image/jpeg',
+        0.8
+      );
+    };
+
+    video.onerror = settleWithoutPoster;
+
+    video.src = url;
+  });
+};
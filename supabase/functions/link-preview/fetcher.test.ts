@@ -0,0 +1,256 @@
+import { assert, assertEquals, assertRejects } from 'jsr:@std/assert@1';
+import { fetchLinkPreview, isPrivateAddress, LinkPreviewError } from './fetcher.ts';
+
+// Run with: deno test --allow-net supabase/functions/link-preview/fetcher.test.ts
+
+const html = (head: string) =>
+  new Response(`<!doctype html><html><head>${head}</head><body><p>Body</p></body></html>`, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+
+const fixtureHandler = async (req: Request): Promise<Response> => {
+  const { pathname } = new URL(req.url);
+
+  if (pathname === '/og') {
+    return html(`
+      <title>Fallback title</title>
+      <meta property="og:title" content="Pixel &amp; Friends">
+      <meta property="og:description" content="A place to chat">
+      <meta property="og:image" content="/images/card.png">
+      <meta property="og:site_name" content="Pixels">
+    `);
+  }
+
+  if (pathname === '/fallbacks') {
+    return html(`
+      <title>  The   page title </title>
+      <meta name="twitter:description" content="From the Twitter card">
+      <meta name="twitter:image" content="https://cdn.example.com/card.png">
+    `);
+  }
+
+  // /hop/3 redirects to /hop/2 and so on, /hop/0 is the page
+  const hop = pathname.match(/^\/hop\/(\d+)$/);
+  if (hop) {
+    const remaining = Number(hop[1]);
+    if (remaining === 0) return html('<meta property="og:title" content="After redirects">');
+    return new Response(null, { status: 302, headers: { Location: `/hop/${remaining - 1}` } });
+  }
+
+  if (pathname === '/large') {
+    // Streamed, so the fetcher reads it chunked
+    const padding = `<meta name="padding" content="${'x'.repeat(4096)}">`;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const encoder = new TextEncoder();
+        controller.enqueue(encoder.encode(`<!doctype html><html><head>${padding}`));
+        controller.enqueue(encoder.encode('<meta property="og:title" content="Past the limit"></head><body></body></html>'));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/html' } });
+  }
+
+  if (pathname === '/slow') {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    return html('<title>Too late</title>');
+  }
+
+  if (pathname === '/host') {
+    return html(`<title>${req.headers.get('host')}</title>`);
+  }
+
+  return new Response('Not found', { status: 404 });
+};
+
+const withFixture = async (test: (origin: string) => Promise<void>) => {
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, fixtureHandler);
+  try {
+    await test(`http://127.0.0.1:${server.addr.port}`);
+  } finally {
+    await server.shutdown();
+  }
+};
+
+const fixtureOptions = { allowPrivateHosts: true };
+
+Deno.test('reads OpenGraph tags', () =>
+  withFixture(async (origin) => {
+    const preview = await fetchLinkPreview(`${origin}/og#section`, fixtureOptions);
+
+    assertEquals(preview, {
+      url: `${origin}/og`,
+      title: 'Pixel & Friends',
+      description: 'A place to chat',
+      image_url: `${origin}/images/card.png`,
+      site_name: 'Pixels',
+    });
+  })
+);
+
+Deno.test('falls back to Twitter cards and the title tag', () =>
+  withFixture(async (origin) => {
+    const preview = await fetchLinkPreview(`${origin}/fallbacks`, fixtureOptions);
+
+    assertEquals(preview.title, 'The page title');
+    assertEquals(preview.description, 'From the Twitter card');
+    assertEquals(preview.image_url, 'https://cdn.example.com/card.png');
+    assertEquals(preview.site_name, '127.0.0.1');
+  })
+);
+
+Deno.test('follows redirects and keeps the shared url', () =>
+  withFixture(async (origin) => {
+    const preview = await fetchLinkPreview(`${origin}/hop/3`, fixtureOptions);
+
+    assertEquals(preview.title, 'After redirects');
+    assertEquals(preview.url, `${origin}/hop/3`);
+  })
+);
+
+Deno.test('stops after too many redirects', () =>
+  withFixture(async (origin) => {
+    await assertRejects(
+      () => fetchLinkPreview(`${origin}/hop/4`, fixtureOptions),
+      LinkPreviewError,
+      'Too many redirects'
+    );
+    await assertRejects(
+      () => fetchLinkPreview(`${origin}/hop/1`, { ...fixtureOptions, maxRedirects: 0 }),
+      LinkPreviewError,
+      'Too many redirects'
+    );
+  })
+);
+
+Deno.test('reads no more than maxBytes', () =>
+  withFixture(async (origin) => {
+    const full = await fetchLinkPreview(`${origin}/large`, fixtureOptions);
+    assertEquals(full.title, 'Past the limit');
+
+    const cut = await fetchLinkPreview(`${origin}/large`, { ...fixtureOptions, maxBytes: 1024 });
+    assertEquals(cut.title, null);
+  })
+);
+
+Deno.test('gives up on slow pages', () =>
+  withFixture(async (origin) => {
+    await assertRejects(
+      () => fetchLinkPreview(`${origin}/slow`, { ...fixtureOptions, timeoutMs: 100 }),
+      LinkPreviewError,
+      'Page took too long to respond'
+    );
+  })
+);
+
+Deno.test('reports error statuses', () =>
+  withFixture(async (origin) => {
+    await assertRejects(
+      () => fetchLinkPreview(`${origin}/missing`, fixtureOptions),
+      LinkPreviewError,
+      'Page responded with 404'
+    );
+  })
+);
+
+Deno.test('connects to the address that was checked', () =>
+  withFixture(async (origin) => {
+    const { port } = new URL(origin);
+    const lookups: string[] = [];
+    const preview = await fetchLinkPreview(`http://preview.test:${port}/host`, {
+      ...fixtureOptions,
+      resolveHost: async (hostname) => {
+        lookups.push(hostname);
+        return ['127.0.0.1'];
+      },
+    });
+
+    // Sent to the pinned address while still naming the original host
+    assertEquals(preview.title, `preview.test:${port}`);
+    assertEquals(lookups, ['preview.test']);
+  })
+);
+
+Deno.test('refuses private hosts', () =>
+  withFixture(async (origin) => {
+    const { port } = new URL(origin);
+    const urls = [
+      `${origin}/og`,
+      `http://localhost:${port}/og`,
+      // The URL parser turns these into ::ffff:7f00:1 and ::ffff:a9fe:a9fe
+      `http://[::ffff:127.0.0.1]:${port}/og`,
+      'http://[::ffff:169.254.169.254]/latest/meta-data/',
+      `http://[::1]:${port}/og`,
+      // Decimal and hex IPv4 forms are normalized by the URL parser too
+      `http://2130706433:${port}/og`,
+      `http://0x7f.1:${port}/og`,
+    ];
+
+    for (const url of urls) {
+      await assertRejects(() => fetchLinkPreview(url), LinkPreviewError, 'Refusing to fetch a private host');
+    }
+
+    await assertRejects(
+      () => fetchLinkPreview(`http://rebind.test:${port}/og`, { resolveHost: async () => ['93.184.216.34', '10.0.0.5'] }),
+      LinkPreviewError,
+      'Refusing to fetch a private host'
+    );
+    await assertRejects(
+      () => fetchLinkPreview(`http://nowhere.test:${port}/og`, { resolveHost: async () => [] }),
+      LinkPreviewError,
+      'Host did not resolve'
+    );
+  })
+);
+
+Deno.test('classifies private addresses in every form', () => {
+  const privateAddresses = [
+    '127.0.0.1',
+    '10.1.2.3',
+    '169.254.169.254',
+    '172.16.0.1',
+    '192.168.1.1',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::',
+    '::1',
+    '[::1]',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '[::ffff:a9fe:a9fe]',
+    '0:0:0:0:0:ffff:0a00:0001',
+    '::ffff:0:7f00:1',
+    '::127.0.0.1',
+    '64:ff9b::a9fe:a9fe',
+    '64:ff9b::127.0.0.1',
+    '64:ff9b:1::1',
+    '2002:7f00:1::',
+    '2002:a9fe:a9fe::1',
+    '2001:0:4136:e378:8000:63bf:80ff:fffe',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1',
+    'fe80::1%eth0',
+    'fec0::1',
+    'ff02::1',
+    '2001:db8::1',
+    'not-an-address',
+    '1::2::3',
+  ];
+  const publicAddresses = [
+    '93.184.216.34',
+    '8.8.8.8',
+    '2606:4700:4700::1111',
+    '::ffff:8.8.8.8',
+    '::ffff:808:808',
+    '64:ff9b::808:808',
+    '2002:808:808::1',
+  ];
+
+  for (const address of privateAddresses) {
+    assert(isPrivateAddress(address), `${address} should be private`);
+  }
+  for (const address of publicAddresses) {
+    assert(!isPrivateAddress(address), `${address} should be public`);
+  }
+});
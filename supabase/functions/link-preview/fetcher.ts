@@ -0,0 +1,559 @@
+/**
+ * Fetches a page and reads its OpenGraph metadata.
+ *
+ * Kept free of Supabase so it can run against any HTTP server: pass
+ * `allowPrivateHosts` to point it at a fixture server on localhost, and
+ * `resolveHost` to stand in for DNS. See fetcher.test.ts.
+ */
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+export interface FetchLinkPreviewOptions {
+  // Resolves a hostname to its IP addresses, used to refuse private networks
+  resolveHost?: (hostname: string) => Promise<string[]>;
+  // Allows localhost and private addresses, only meant for fixture servers
+  allowPrivateHosts?: boolean;
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+}
+
+export class LinkPreviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LinkPreviewError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_BYTES = 512 * 1024;
+const DEFAULT_MAX_REDIRECTS = 3;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_HEAD_BYTES = 64 * 1024;
+const USER_AGENT = 'SocialChatLinkPreview/1.0 (+https://socialchat.app)';
+
+/**
+ * Drops the fragment and lets URL normalize the rest.
+ * Mirrors `normalizeLinkUrl` in the app so cache lookups match.
+ */
+export const normalizeLinkUrl = (raw: string): string | null => {
+  try {
+    const url = new URL(raw.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+};
+
+const parseIPv4 = (address: string): Uint8Array | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return Uint8Array.from(parts.map(Number));
+};
+
+/**
+ * Parses any textual IPv6 form, including `::` and a dotted IPv4 tail, into its 16 bytes
+ */
+const parseIPv6 = (address: string): Uint8Array | null => {
+  let text = address.replace(/%.*$/, '');
+
+  // A dotted tail like ::ffff:127.0.0.1 stands for the last two groups
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = parseIPv4(dotted[2]);
+    if (!ipv4) return null;
+    text = `${dotted[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (half: string) => (half === '' ? [] : half.split(':'));
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  const bytes = new Uint8Array(16);
+  groups.forEach((group, index) => {
+    const value = parseInt(group, 16);
+    bytes[index * 2] = value >> 8;
+    bytes[index * 2 + 1] = value & 0xff;
+  });
+  return bytes;
+};
+
+const isPrivateIPv4 = ([a, b, c]: Uint8Array): boolean =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 0 && c === 0) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19)) ||
+  a >= 224;
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) =>
+  prefix.every((value, index) => bytes[index] === value);
+
+const isPrivateIPv6 = (bytes: Uint8Array): boolean => {
+  const zeros = (count: number) => Array(count).fill(0);
+
+  // ::/96 covers :: and ::1 as well as the deprecated IPv4-compatible form
+  if (startsWith(bytes, zeros(12))) return true;
+  // IPv4-mapped (::ffff:0:0/96), IPv4-translated (::ffff:0:0:0/96) and NAT64 (64:ff9b::/96)
+  // reach the embedded IPv4 address, however it was written
+  if (
+    startsWith(bytes, [...zeros(10), 0xff, 0xff]) ||
+    startsWith(bytes, [...zeros(8), 0xff, 0xff, 0, 0]) ||
+    startsWith(bytes, [0x00, 0x64, 0xff, 0x9b, ...zeros(8)])
+  ) {
+    return isPrivateIPv4(bytes.subarray(12));
+  }
+  // 6to4 (2002::/16) carries the IPv4 address right after the prefix
+  if (startsWith(bytes, [0x20, 0x02])) return isPrivateIPv4(bytes.subarray(2, 6));
+  // Teredo (2001::/32) carries the client's IPv4 address inverted in the last four bytes
+  if (startsWith(bytes, [0x20, 0x01, 0x00, 0x00])) {
+    return isPrivateIPv4(bytes.subarray(12).map(byte => byte ^ 0xff));
+  }
+
+  return (
+    // Local-use NAT64 (64:ff9b:1::/48)
+    startsWith(bytes, [0x00, 0x64, 0xff, 0x9b, 0x00, 0x01]) ||
+    // Discard-only (100::/64)
+    startsWith(bytes, [0x01, 0x00, ...zeros(6)]) ||
+    // Documentation (2001:db8::/32)
+    startsWith(bytes, [0x20, 0x01, 0x0d, 0xb8]) ||
+    // Unique local (fc00::/7)
+    (bytes[0] & 0xfe) === 0xfc ||
+    // Link-local (fe80::/10) and the deprecated site-local (fec0::/10)
+    (bytes[0] === 0xfe && (bytes[1] & 0x80) === 0x80) ||
+    // Multicast (ff00::/8)
+    bytes[0] === 0xff
+  );
+};
+
+/**
+ * True for loopback, private, link-local and other non-public addresses.
+ * Anything that doesn't parse as an IP address counts as private.
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (normalized.includes(':')) {
+    const bytes = parseIPv6(normalized);
+    return !bytes || isPrivateIPv6(bytes);
+  }
+  const bytes = parseIPv4(normalized);
+  return !bytes || isPrivateIPv4(bytes);
+};
+
+const defaultResolveHost = async (hostname: string): Promise<string[]> => {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  return lookups.flatMap(lookup => (lookup.status === 'fulfilled' ? lookup.value : []));
+};
+
+/**
+ * Checks the host and returns the address to connect to.
+ * The caller connects to that exact address so a second lookup can't rebind the name.
+ */
+const resolvePublicAddress = async (url: URL, options: FetchLinkPreviewOptions): Promise<string> => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  if (!options.allowPrivateHosts) {
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+      throw new LinkPreviewError('Refusing to fetch a private host');
+    }
+  }
+
+  const isLiteral = /^[\d.]+$/.test(hostname) || hostname.includes(':');
+  const addresses = isLiteral ? [hostname] : await (options.resolveHost ?? defaultResolveHost)(hostname);
+
+  if (options.allowPrivateHosts) {
+    // Names like localhost may only resolve through the system resolver, let connect look them up
+    return addresses[0] ?? hostname;
+  }
+
+  if (addresses.length === 0) {
+    throw new LinkPreviewError('Host did not resolve');
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new LinkPreviewError('Refusing to fetch a private host');
+  }
+  return addresses[0];
+};
+
+/**
+ * Reads at most `maxBytes` of the body, pages rarely need more for their head
+ */
+const readLimited = async (response: Response, maxBytes: number): Promise<string> => {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  const bytes = new Uint8Array(Math.min(received, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const slice = chunk.subarray(0, bytes.length - offset);
+    bytes.set(slice, offset);
+    offset += slice.length;
+    if (offset >= bytes.length) break;
+  }
+  return new TextDecoder().decode(bytes);
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? whole;
+  });
+
+const clean = (value: string | undefined, maxLength: number): string | null => {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
+
+const readAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([a-zA-Z_:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+};
+
+/**
+ * Reads OpenGraph tags, falling back to Twitter cards, <title> and the meta description
+ */
+export const parseOpenGraph = (html: string, pageUrl: string): LinkPreview => {
+  // Metadata lives in the head, skipping the body avoids matching tags in content
+  const head = html.split(/<body[\s>]/i)[0];
+  const meta: Record<string, string> = {};
+
+  for (const match of head.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = readAttributes(match[0]);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && meta[key] === undefined) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const titleTag = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const rawImage = meta['og:image'] || meta['og:image:url'] || meta['twitter:image'];
+
+  let imageUrl: string | null = null;
+  if (rawImage) {
+    try {
+      const resolved = new URL(decodeEntities(rawImage.trim()), pageUrl);
+      if (resolved.protocol === 'http:' || resolved.protocol === 'https:') {
+        imageUrl = resolved.href;
+      }
+    } catch {
+      imageUrl = null;
+    }
+  }
+
+  return {
+    url: pageUrl,
+    title: clean(meta['og:title'] || meta['twitter:title'] || titleTag, MAX_TITLE_LENGTH),
+    description: clean(
+      meta['og:description'] || meta['twitter:description'] || meta['description'],
+      MAX_DESCRIPTION_LENGTH
+    ),
+    image_url: imageUrl,
+    site_name: clean(meta['og:site_name'], MAX_TITLE_LENGTH) ?? new URL(pageUrl).hostname.replace(/^www\./, ''),
+  };
+};
+
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+};
+
+/**
+ * Buffered reads over a connection, enough to parse an HTTP/1.1 response
+ */
+class ConnReader {
+  private buffer: Uint8Array = new Uint8Array(0);
+
+  constructor(private reader: ReadableStreamDefaultReader<Uint8Array>) {}
+
+  private async fill(): Promise<boolean> {
+    const { done, value } = await this.reader.read();
+    if (done) return false;
+    this.buffer = concatBytes(this.buffer, value);
+    return true;
+  }
+
+  async readLine(): Promise<string | null> {
+    for (;;) {
+      const end = this.buffer.findIndex((byte, index) => byte === 10 && this.buffer[index - 1] === 13);
+      if (end !== -1) {
+        const line = new TextDecoder().decode(this.buffer.subarray(0, end - 1));
+        this.buffer = this.buffer.subarray(end + 1);
+        return line;
+      }
+      if (this.buffer.length > MAX_HEAD_BYTES) {
+        throw new LinkPreviewError('Response headers are too large');
+      }
+      if (!(await this.fill())) return null;
+    }
+  }
+
+  async read(maxLength: number): Promise<Uint8Array | null> {
+    if (this.buffer.length === 0 && !(await this.fill())) return null;
+    const bytes = this.buffer.subarray(0, maxLength);
+    this.buffer = this.buffer.subarray(bytes.length);
+    return bytes;
+  }
+}
+
+// Statuses that can't carry a body, Response throws when given one
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Sends a GET for `url` over a connection to `address`, the address that passed the private host check.
+ * fetch would look the name up again, which lets a short-lived DNS record swap in a private address.
+ * Speaks just enough HTTP/1.1 for reading a page: no keep-alive, no compression.
+ */
+const fetchPinned = async (
+  url: URL,
+  address: string,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<Response> => {
+  const isHttps = url.protocol === 'https:';
+  const connect = async () => {
+    const tcp = await Deno.connect({ hostname: address, port: Number(url.port) || (isHttps ? 443 : 80), signal });
+    if (signal.aborted) {
+      tcp.close();
+      throw new LinkPreviewError('Page took too long to respond');
+    }
+    // The certificate is still checked against the name from the link
+    return isHttps ? await Deno.startTls(tcp, { hostname: url.hostname.replace(/^\[|\]$/g, '') }) : tcp;
+  };
+
+  // Closing the connection is what interrupts a pending read once the timeout fires
+  let conn: Deno.Conn | null = null;
+  const close = () => {
+    try {
+      conn?.close();
+    } catch {
+      // Already closed
+    }
+    conn = null;
+  };
+  signal.addEventListener('abort', close, { once: true });
+
+  try {
+    conn = await Promise.race([
+      connect(),
+      new Promise<never>((_, reject) => {
+        signal.addEventListener('abort', () => reject(new LinkPreviewError('Page took too long to respond')), { once: true });
+      }),
+    ]);
+
+    const request = [
+      `GET ${url.pathname}${url.search} HTTP/1.1`,
+      `Host: ${url.host}`,
+      ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+      'Accept-Encoding: identity',
+      'Connection: close',
+      '',
+      '',
+    ].join('\r\n');
+    const writer = conn.writable.getWriter();
+    await writer.write(new TextEncoder().encode(request));
+    writer.releaseLock();
+
+    const reader = new ConnReader(conn.readable.getReader());
+
+    // Skip informational responses such as 103 Early Hints
+    let status: number;
+    const responseHeaders = new Headers();
+    do {
+      const statusLine = await reader.readLine();
+      const match = statusLine?.match(/^HTTP\/1\.[01] (\d{3})/);
+      if (!match) throw new LinkPreviewError('Malformed response');
+      status = Number(match[1]);
+
+      for (;;) {
+        const line = await reader.readLine();
+        if (line === null) throw new LinkPreviewError('Malformed response');
+        if (line === '') break;
+        const separator = line.indexOf(':');
+        if (separator <= 0) continue;
+        try {
+          responseHeaders.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+        } catch {
+          // Headers rejects invalid names and values, they're nothing we read anyway
+        }
+      }
+    } while (status < 200);
+
+    if (status > 599) throw new LinkPreviewError('Malformed response');
+
+    const chunked = /chunked/i.test(responseHeaders.get('transfer-encoding') ?? '');
+    const contentLength = Number(responseHeaders.get('content-length') ?? NaN);
+    let remaining = chunked ? 0 : Number.isFinite(contentLength) ? contentLength : Infinity;
+
+    const nextBytes = async (): Promise<Uint8Array | null> => {
+      if (chunked && remaining === 0) {
+        const sizeLine = await reader.readLine();
+        const size = sizeLine === null ? NaN : parseInt(sizeLine, 16);
+        if (!Number.isFinite(size)) throw new LinkPreviewError('Malformed response');
+        if (size === 0) return null;
+        remaining = size;
+      }
+      if (remaining === 0) return null;
+
+      const bytes = await reader.read(remaining);
+      if (!bytes) {
+        if (remaining === Infinity) return null;
+        throw new LinkPreviewError('Connection closed early');
+      }
+      remaining -= bytes.length;
+      // Each chunk ends with its own line break
+      if (chunked && remaining === 0) await reader.readLine();
+      return bytes;
+    };
+
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const bytes = await nextBytes();
+          if (bytes) {
+            controller.enqueue(bytes);
+          } else {
+            controller.close();
+            close();
+          }
+        } catch (error) {
+          controller.error(error);
+          close();
+        }
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    if (NULL_BODY_STATUSES.includes(status)) {
+      close();
+      return new Response(null, { status, headers: responseHeaders });
+    }
+    return new Response(body, { status, headers: responseHeaders });
+  } catch (error) {
+    close();
+    throw error;
+  }
+};
+
+/**
+ * Fetches the page behind `rawUrl` and returns its preview.
+ * Redirects are followed by hand so every hop is checked against private hosts.
+ */
+export const fetchLinkPreview = async (
+  rawUrl: string,
+  options: FetchLinkPreviewOptions = {}
+): Promise<LinkPreview> => {
+  const normalized = normalizeLinkUrl(rawUrl);
+  if (!normalized) {
+    throw new LinkPreviewError('Only http and https links have previews');
+  }
+
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  try {
+    let url = new URL(normalized);
+
+    for (let redirects = 0; ; redirects++) {
+      const address = await resolvePublicAddress(url, options);
+
+      const response = await fetchPinned(url, address, {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml',
+      }, controller.signal);
+
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get('location');
+        await response.body?.cancel();
+        if (!location || redirects >= maxRedirects) {
+          throw new LinkPreviewError('Too many redirects');
+        }
+        url = new URL(location, url);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          throw new LinkPreviewError('Redirected to an unsupported protocol');
+        }
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new LinkPreviewError(`Page responded with ${response.status}`);
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+        await response.body?.cancel();
+        throw new LinkPreviewError('Page is not HTML');
+      }
+
+      const html = await readLimited(response, options.maxBytes ?? DEFAULT_MAX_BYTES);
+      // Cache under the link that was shared, not where it redirected to
+      return { ...parseOpenGraph(html, url.href), url: normalized };
+    }
+  } catch (error) {
+    if (controller.signal.aborted && !(error instanceof LinkPreviewError)) {
+      throw new LinkPreviewError('Page took too long to respond');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
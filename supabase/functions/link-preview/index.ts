@@ -0,0 +1,95 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { fetchLinkPreview, LinkPreviewError, normalizeLinkUrl } from './fetcher.ts';
+
+// Previews are refreshed after a week, failed fetches are retried after a day
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_TTL_MS = 24 * 60 * 60 * 1000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+// Only for local runs against a fixture server
+const allowPrivateHosts = Deno.env.get('LINK_PREVIEW_ALLOW_PRIVATE_HOSTS') === 'true';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  let rawUrl: unknown;
+  try {
+    ({ url: rawUrl } = await req.json());
+  } catch {
+    return json({ error: 'Expected a JSON body with a url' }, 400);
+  }
+
+  const url = typeof rawUrl === 'string' ? normalizeLinkUrl(rawUrl) : null;
+  if (!url) {
+    return json({ error: 'Only http and https links have previews' }, 400);
+  }
+
+  const { data: cached, error: cacheError } = await supabase
+    .from('link_previews')
+    .select('url, title, description, image_url, site_name, status, fetched_at')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (cacheError) {
+    console.error('Error reading link preview cache:', cacheError);
+  }
+
+  if (cached) {
+    const age = Date.now() - new Date(cached.fetched_at).getTime();
+    if (age < (cached.status === 'ok' ? PREVIEW_TTL_MS : FAILED_TTL_MS)) {
+      return json(cached);
+    }
+  }
+
+  let row;
+  try {
+    const preview = await fetchLinkPreview(url, { allowPrivateHosts });
+    row = { ...preview, status: 'ok', fetched_at: new Date().toISOString() };
+  } catch (error) {
+    // Remember failures too so a broken link is not fetched on every view
+    if (!(error instanceof LinkPreviewError)) {
+      console.error('Error fetching link preview:', error);
+    }
+    row = {
+      url,
+      title: null,
+      description: null,
+      image_url: null,
+      site_name: null,
+      status: 'failed',
+      fetched_at: new Date().toISOString(),
+    };
+  }
+
+  const { error: saveError } = await supabase
+    .from('link_previews')
+    .upsert(row);
+
+  if (saveError) {
+    console.error('Error saving link preview:', saveError);
+  }
+
+  return json(row);
+});
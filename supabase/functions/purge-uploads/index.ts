@@ -0,0 +1,70 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Paths per Storage API call, and how many are taken from the queue per run
+const BATCH_SIZE = 100;
+const MAX_REMOVALS = 1000;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  serviceRoleKey
+);
+
+/**
+ * Removes uploads queued by `purge_deleted_items` and draft changes from the posts bucket.
+ * Called nightly by pg_cron, see the tidy_sweep migration.
+ */
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // Any signed-in user passes the gateway's JWT check, only the scheduled job may purge
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { data: queued, error: queueError } = await supabase.rpc('get_upload_removals', {
+    max_results: MAX_REMOVALS,
+  });
+
+  if (queueError) {
+    console.error('Error reading queued upload removals:', queueError);
+    return json({ error: 'Failed to read queued uploads' }, 500);
+  }
+
+  const paths: string[] = (queued ?? []).map((row: { path: string }) => row.path);
+  let removed = 0;
+
+  for (let start = 0; start < paths.length; start += BATCH_SIZE) {
+    const batch = paths.slice(start, start + BATCH_SIZE);
+
+    // Files that are already gone don't fail the call, so they leave the queue too
+    const { error: removeError } = await supabase.storage.from('posts').remove(batch);
+    if (removeError) {
+      console.error('Error removing uploads:', removeError);
+      continue;
+    }
+
+    const { error: dequeueError } = await supabase
+      .from('upload_removals')
+      .delete()
+      .in('path', batch);
+
+    if (dequeueError) {
+      console.error('Error dequeuing removed uploads:', dequeueError);
+      continue;
+    }
+
+    removed += batch.length;
+  }
+
+  return json({ removed, remaining: paths.length - removed });
+});
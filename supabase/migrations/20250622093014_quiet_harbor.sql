@@ -0,0 +1,101 @@
+/*
+  # Feed pagination and post counters
+
+  1. Schema Updates
+    - Add `likes_count` column to posts table (integer, default 0)
+    - Add `comments_count` column to posts table (integer, default 0)
+    - Backfill both counters from existing likes and comments
+
+  2. Functions
+    - `sync_post_likes_count` keeps `likes_count` in step with the likes table
+    - `sync_post_comments_count` keeps `comments_count` in step with the comments table
+
+  3. Indexes
+    - Add `(created_at DESC, id DESC)` index for keyset pagination of the feed
+*/
+
+-- Add counter columns to posts table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'likes_count'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN likes_count integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'comments_count'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN comments_count integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- Backfill counters for existing posts
+UPDATE public.posts p
+SET
+  likes_count = (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id),
+  comments_count = (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id);
+
+-- Keep likes_count in sync
+CREATE OR REPLACE FUNCTION sync_post_likes_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts
+    SET likes_count = likes_count + 1
+    WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.posts
+    SET likes_count = GREATEST(likes_count - 1, 0)
+    WHERE id = OLD.post_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_post_likes_count ON public.likes;
+CREATE TRIGGER trigger_sync_post_likes_count
+  AFTER INSERT OR DELETE ON public.likes
+  FOR EACH ROW EXECUTE FUNCTION sync_post_likes_count();
+
+-- Keep comments_count in sync
+CREATE OR REPLACE FUNCTION sync_post_comments_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts
+    SET comments_count = comments_count + 1
+    WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.posts
+    SET comments_count = GREATEST(comments_count - 1, 0)
+    WHERE id = OLD.post_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_post_comments_count ON public.comments;
+CREATE TRIGGER trigger_sync_post_comments_count
+  AFTER INSERT OR DELETE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION sync_post_comments_count();
+
+-- Index for keyset pagination on (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_posts_created_at_id ON public.posts(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_likes_post_user ON public.likes(post_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_comments_post_created ON public.comments(post_id, created_at);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,121 @@
+/*
+  # Comment likes
+
+  1. Tables
+    - Ensure `comment_likes` exists with one like per user per comment
+    - Add `likes_count` column to comments table (integer, default 0)
+
+  2. Security
+    - Authenticated users can view comment likes
+    - Users can only like and unlike as themselves
+
+  3. Functions
+    - `sync_comment_likes_count` keeps `likes_count` in step with the comment_likes table
+
+  4. Realtime
+    - Enable realtime for comment_likes
+*/
+
+-- Create comment_likes table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.comment_likes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One like per user per comment
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = 'public'
+    AND table_name = 'comment_likes'
+    AND constraint_name = 'comment_likes_comment_id_user_id_key'
+  ) THEN
+    ALTER TABLE public.comment_likes
+      ADD CONSTRAINT comment_likes_comment_id_user_id_key UNIQUE (comment_id, user_id);
+  END IF;
+END $$;
+
+-- Add counter column to comments table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'comments'
+    AND column_name = 'likes_count'
+  ) THEN
+    ALTER TABLE public.comments ADD COLUMN likes_count integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- Backfill counter for existing comments
+UPDATE public.comments c
+SET likes_count = (SELECT count(*) FROM public.comment_likes cl WHERE cl.comment_id = c.id);
+
+-- Enable RLS
+ALTER TABLE public.comment_likes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view comment likes" ON public.comment_likes;
+DROP POLICY IF EXISTS "Users can like comments" ON public.comment_likes;
+DROP POLICY IF EXISTS "Users can unlike comments" ON public.comment_likes;
+
+CREATE POLICY "Users can view comment likes"
+  ON public.comment_likes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can like comments"
+  ON public.comment_likes FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unlike comments"
+  ON public.comment_likes FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Keep likes_count in sync
+CREATE OR REPLACE FUNCTION sync_comment_likes_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.comments
+    SET likes_count = likes_count + 1
+    WHERE id = NEW.comment_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.comments
+    SET likes_count = GREATEST(likes_count - 1, 0)
+    WHERE id = OLD.comment_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_comment_likes_count ON public.comment_likes;
+CREATE TRIGGER trigger_sync_comment_likes_count
+  AFTER INSERT OR DELETE ON public.comment_likes
+  FOR EACH ROW EXECUTE FUNCTION sync_comment_likes_count();
+
+CREATE INDEX IF NOT EXISTS idx_comment_likes_comment_user ON public.comment_likes(comment_id, user_id);
+
+-- Enable realtime
+ALTER TABLE public.comment_likes REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.comment_likes;
+  EXCEPTION
+    WHEN duplicate_object THEN
+      NULL; -- Table already in publication
+  END;
+END $$;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,67 @@
+/*
+  # Threaded comment replies
+
+  1. Schema Updates
+    - Add `parent_id` column to comments table (uuid, references comments, null for top-level comments)
+    - Add `replies_count` column to comments table (integer, default 0)
+
+  2. Functions
+    - `sync_comment_replies_count` keeps `replies_count` in step with direct replies
+
+  3. Indexes
+    - Add `(parent_id, created_at)` index for paging through replies
+*/
+
+-- Add threading columns to comments table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'comments'
+    AND column_name = 'parent_id'
+  ) THEN
+    ALTER TABLE public.comments
+      ADD COLUMN parent_id uuid REFERENCES public.comments(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'comments'
+    AND column_name = 'replies_count'
+  ) THEN
+    ALTER TABLE public.comments ADD COLUMN replies_count integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- Keep replies_count in sync
+CREATE OR REPLACE FUNCTION sync_comment_replies_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL THEN
+    UPDATE public.comments
+    SET replies_count = replies_count + 1
+    WHERE id = NEW.parent_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.parent_id IS NOT NULL THEN
+    UPDATE public.comments
+    SET replies_count = GREATEST(replies_count - 1, 0)
+    WHERE id = OLD.parent_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_comment_replies_count ON public.comments;
+CREATE TRIGGER trigger_sync_comment_replies_count
+  AFTER INSERT OR DELETE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION sync_comment_replies_count();
+
+-- Index for loading replies oldest first
+CREATE INDEX IF NOT EXISTS idx_comments_parent_created ON public.comments(parent_id, created_at);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,32 @@
+/*
+  # Video post posters
+
+  1. Schema Updates
+    - Ensure `video_url` column exists on posts table (text, nullable)
+    - Add `video_poster_url` column to posts table (text, nullable)
+      - Holds the still frame captured in the browser before upload
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'video_url'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN video_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'video_poster_url'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN video_poster_url text;
+  END IF;
+END $$;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
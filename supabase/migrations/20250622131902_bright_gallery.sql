@@ -0,0 +1,44 @@
+/*
+  # Multi-image posts
+
+  1. Schema Updates
+    - Add `images` column to posts table (jsonb array, default empty)
+      - Ordered list of `{ "url": text, "alt": text }` objects, up to 10 per post
+      - `image_url` keeps the first image for older clients
+    - Backfill `images` from existing `image_url` values
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'images'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN images jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+-- Limit posts to 10 images
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND constraint_name = 'posts_images_check'
+  ) THEN
+    ALTER TABLE public.posts ADD CONSTRAINT posts_images_check
+      CHECK (jsonb_typeof(images) = 'array' AND jsonb_array_length(images) <= 10);
+  END IF;
+END $$;
+
+-- Backfill single-image posts
+UPDATE public.posts
+SET images = jsonb_build_array(jsonb_build_object('url', image_url, 'alt', ''))
+WHERE image_url IS NOT NULL
+AND images = '[]'::jsonb;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,96 @@
+/*
+  # Hashtags
+
+  1. New Tables
+    - `post_hashtags`
+      - `post_id` (uuid, foreign key to posts)
+      - `tag` (text, lowercase tag without the leading #)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `post_hashtags`
+    - Tags are visible whenever the underlying post is visible
+
+  3. Functions
+    - `sync_post_hashtags` parses `#tags` out of post content on insert and edit
+    - `get_trending_hashtags` ranks tags by usage on public posts in a recent window
+*/
+
+CREATE TABLE IF NOT EXISTS public.post_hashtags (
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  tag text NOT NULL CHECK (char_length(tag) BETWEEN 1 AND 50),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (post_id, tag)
+);
+
+-- Enable RLS
+ALTER TABLE public.post_hashtags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view hashtags of visible posts" ON public.post_hashtags;
+
+-- The subquery runs under the posts policies, so friends-only tags stay hidden
+CREATE POLICY "Users can view hashtags of visible posts"
+  ON public.post_hashtags FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = post_hashtags.post_id
+    )
+  );
+
+-- Keep hashtags in step with post content
+CREATE OR REPLACE FUNCTION sync_post_hashtags()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM public.post_hashtags WHERE post_id = NEW.id;
+  END IF;
+
+  INSERT INTO public.post_hashtags (post_id, tag, created_at)
+  SELECT DISTINCT NEW.id, lower(match[2]), NEW.created_at
+  FROM regexp_matches(COALESCE(NEW.content, ''), '(^|\s)#([[:alnum:]_]{1,50})', 'g') AS match
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_post_hashtags ON public.posts;
+CREATE TRIGGER trigger_sync_post_hashtags
+  AFTER INSERT OR UPDATE OF content ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION sync_post_hashtags();
+
+-- Backfill hashtags for existing posts
+INSERT INTO public.post_hashtags (post_id, tag, created_at)
+SELECT DISTINCT p.id, lower(match[2]), p.created_at
+FROM public.posts p,
+  regexp_matches(COALESCE(p.content, ''), '(^|\s)#([[:alnum:]_]{1,50})', 'g') AS match
+ON CONFLICT DO NOTHING;
+
+-- Trending tags over public posts
+CREATE OR REPLACE FUNCTION get_trending_hashtags(since_hours integer DEFAULT 48, max_results integer DEFAULT 10)
+RETURNS TABLE (tag text, post_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT ph.tag, count(*) AS post_count
+  FROM public.post_hashtags ph
+  JOIN public.posts p ON p.id = ph.post_id
+  WHERE ph.created_at > now() - make_interval(hours => since_hours)
+  AND p.visibility = 'public'
+  GROUP BY ph.tag
+  ORDER BY post_count DESC, max(ph.created_at) DESC
+  LIMIT LEAST(max_results, 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_trending_hashtags(integer, integer) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_post_hashtags_tag ON public.post_hashtags(tag, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_hashtags_created_at ON public.post_hashtags(created_at DESC);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,163 @@
+/*
+  # Mentions
+
+  1. New Tables
+    - `mentions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, the mentioned user)
+      - `author_id` (uuid, who wrote the mention)
+      - `post_id` (uuid, set for post and comment mentions)
+      - `comment_id` (uuid, set for comment mentions)
+      - `message_id` (uuid, set for message mentions)
+      - `created_at` (timestamp)
+
+  2. Storage format
+    - Mentions are stored in content as `@[username](user-id)` tokens
+    - The user id is authoritative, the username is only a fallback label
+
+  3. Security
+    - Enable RLS on `mentions`
+    - Users can see mentions of themselves and mentions they wrote
+
+  4. Functions
+    - `extract_mentioned_user_ids` parses mention tokens out of content
+    - Triggers on posts, comments and messages keep `mentions` in step with content
+    - Message mentions are only recorded for the receiver of the message
+
+  5. Realtime
+    - Enable realtime for mentions
+*/
+
+CREATE TABLE IF NOT EXISTS public.mentions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id uuid REFERENCES public.posts(id) ON DELETE CASCADE,
+  comment_id uuid REFERENCES public.comments(id) ON DELETE CASCADE,
+  message_id uuid REFERENCES public.messages(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT mentions_source_check CHECK (
+    (post_id IS NOT NULL AND message_id IS NULL)
+    OR (post_id IS NULL AND comment_id IS NULL AND message_id IS NOT NULL)
+  )
+);
+
+-- One mention per user per post, comment or message
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mentions_post_user
+  ON public.mentions(post_id, user_id) WHERE comment_id IS NULL AND post_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mentions_comment_user
+  ON public.mentions(comment_id, user_id) WHERE comment_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mentions_message_user
+  ON public.mentions(message_id, user_id) WHERE message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_mentions_user_created ON public.mentions(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.mentions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their mentions" ON public.mentions;
+
+CREATE POLICY "Users can view their mentions"
+  ON public.mentions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR auth.uid() = author_id);
+
+-- Mentioned users that exist, from `@[username](user-id)` tokens
+CREATE OR REPLACE FUNCTION extract_mentioned_user_ids(body text)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT p.id
+  FROM regexp_matches(COALESCE(body, ''), '@\[[^]]*\]\(([0-9a-fA-F-]{36})\)', 'g') AS match
+  JOIN public.profiles p ON p.id = match[1]::uuid;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_post_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.mentions
+  WHERE post_id = NEW.id
+  AND comment_id IS NULL
+  AND user_id NOT IN (SELECT extract_mentioned_user_ids(NEW.content));
+
+  INSERT INTO public.mentions (user_id, author_id, post_id)
+  SELECT mentioned_id, NEW.user_id, NEW.id
+  FROM extract_mentioned_user_ids(NEW.content) AS mentioned_id
+  WHERE mentioned_id <> NEW.user_id
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END $$;
+
+CREATE OR REPLACE FUNCTION sync_comment_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.mentions
+  WHERE comment_id = NEW.id
+  AND user_id NOT IN (SELECT extract_mentioned_user_ids(NEW.content));
+
+  INSERT INTO public.mentions (user_id, author_id, post_id, comment_id)
+  SELECT mentioned_id, NEW.user_id, NEW.post_id, NEW.id
+  FROM extract_mentioned_user_ids(NEW.content) AS mentioned_id
+  WHERE mentioned_id <> NEW.user_id
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END $$;
+
+-- Only the receiver can read a message, so nobody else is recorded
+CREATE OR REPLACE FUNCTION sync_message_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.mentions
+  WHERE message_id = NEW.id
+  AND user_id NOT IN (SELECT extract_mentioned_user_ids(NEW.content));
+
+  INSERT INTO public.mentions (user_id, author_id, message_id)
+  SELECT mentioned_id, NEW.sender_id, NEW.id
+  FROM extract_mentioned_user_ids(NEW.content) AS mentioned_id
+  WHERE mentioned_id = NEW.receiver_id
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_post_mentions ON public.posts;
+CREATE TRIGGER trigger_sync_post_mentions
+  AFTER INSERT OR UPDATE OF content ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION sync_post_mentions();
+
+DROP TRIGGER IF EXISTS trigger_sync_comment_mentions ON public.comments;
+CREATE TRIGGER trigger_sync_comment_mentions
+  AFTER INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION sync_comment_mentions();
+
+DROP TRIGGER IF EXISTS trigger_sync_message_mentions ON public.messages;
+CREATE TRIGGER trigger_sync_message_mentions
+  AFTER INSERT OR UPDATE OF content ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION sync_message_mentions();
+
+-- Enable realtime for mentions
+ALTER TABLE public.mentions REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.mentions;
+  EXCEPTION
+    WHEN duplicate_object THEN
+      NULL; -- Table already in publication
+  END;
+END $$;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
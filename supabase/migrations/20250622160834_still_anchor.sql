@@ -0,0 +1,22 @@
+/*
+  # Post permalinks
+
+  1. Functions
+    - `post_exists` tells whether a post exists regardless of the caller's access
+      - Lets the post page tell a deleted post apart from one the viewer can't see
+      - Reveals nothing beyond existence
+*/
+
+CREATE OR REPLACE FUNCTION post_exists(post_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.posts WHERE id = post_uuid);
+$$;
+
+GRANT EXECUTE ON FUNCTION post_exists(uuid) TO authenticated;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
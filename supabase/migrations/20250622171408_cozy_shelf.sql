@@ -0,0 +1,113 @@
+/*
+  # Bookmarks
+
+  1. New Tables
+    - `bookmark_collections`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner)
+      - `name` (text, unique per user)
+      - `created_at` (timestamp)
+    - `bookmarks`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner)
+      - `post_id` (uuid, foreign key to posts)
+      - `collection_id` (uuid, optional, foreign key to bookmark_collections)
+      - `created_at` (timestamp)
+      - One bookmark per user per post
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can only see and manage their own bookmarks and collections
+    - Bookmarks don't grant access to posts, a post that becomes hidden stays
+      bookmarked but its content is no longer returned
+*/
+
+CREATE TABLE IF NOT EXISTS public.bookmark_collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.bookmarks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  collection_id uuid REFERENCES public.bookmark_collections(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, post_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.bookmark_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bookmarks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own collections" ON public.bookmark_collections;
+DROP POLICY IF EXISTS "Users can create their own collections" ON public.bookmark_collections;
+DROP POLICY IF EXISTS "Users can update their own collections" ON public.bookmark_collections;
+DROP POLICY IF EXISTS "Users can delete their own collections" ON public.bookmark_collections;
+
+CREATE POLICY "Users can view their own collections"
+  ON public.bookmark_collections FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+  ON public.bookmark_collections FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collections"
+  ON public.bookmark_collections FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+  ON public.bookmark_collections FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can create their own bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can update their own bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can delete their own bookmarks" ON public.bookmarks;
+
+CREATE POLICY "Users can view their own bookmarks"
+  ON public.bookmarks FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Only posts the user can currently see can be bookmarked
+CREATE POLICY "Users can create their own bookmarks"
+  ON public.bookmarks FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.posts WHERE posts.id = bookmarks.post_id)
+    AND (
+      collection_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.bookmark_collections
+        WHERE bookmark_collections.id = bookmarks.collection_id
+        AND bookmark_collections.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update their own bookmarks"
+  ON public.bookmarks FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bookmarks"
+  ON public.bookmarks FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_created ON public.bookmarks(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_collection_created ON public.bookmarks(collection_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_bookmark_collections_user ON public.bookmark_collections(user_id, name);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
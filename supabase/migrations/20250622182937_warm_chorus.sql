@@ -0,0 +1,146 @@
+/*
+  # Post reactions
+
+  1. Schema Updates
+    - Add `reaction_type` column to likes table (text, default 'like')
+      - One of like, love, laugh, wow, sad, angry
+      - Existing likes become 'like' reactions
+    - Keep one reaction per user per post, dropping duplicate rows first
+    - Add `reaction_counts` column to posts table (jsonb, reaction type to count)
+      - `likes_count` stays the total number of reactions
+
+  2. Security
+    - Users can change the type of their own reaction
+
+  3. Functions
+    - `sync_post_reaction_counts` keeps `reaction_counts` in step with the likes table
+*/
+
+-- Add reaction type to likes
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'likes'
+    AND column_name = 'reaction_type'
+  ) THEN
+    ALTER TABLE public.likes ADD COLUMN reaction_type text NOT NULL DEFAULT 'like';
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = 'public'
+    AND table_name = 'likes'
+    AND constraint_name = 'likes_reaction_type_check'
+  ) THEN
+    ALTER TABLE public.likes ADD CONSTRAINT likes_reaction_type_check
+      CHECK (reaction_type IN ('like', 'love', 'laugh', 'wow', 'sad', 'angry'));
+  END IF;
+END $$;
+
+-- Drop duplicate likes, keeping the earliest one per user per post
+DELETE FROM public.likes l
+USING public.likes earlier
+WHERE l.post_id = earlier.post_id
+AND l.user_id = earlier.user_id
+AND (l.created_at, l.id) > (earlier.created_at, earlier.id);
+
+-- One reaction per user per post
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = 'public'
+    AND table_name = 'likes'
+    AND constraint_name = 'likes_post_id_user_id_key'
+  ) THEN
+    ALTER TABLE public.likes
+      ADD CONSTRAINT likes_post_id_user_id_key UNIQUE (post_id, user_id);
+  END IF;
+END $$;
+
+-- Add per-reaction counters to posts
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'reaction_counts'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN reaction_counts jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+-- Backfill counters, duplicates may have been removed above
+UPDATE public.posts p
+SET
+  likes_count = (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id),
+  reaction_counts = COALESCE(
+    (
+      SELECT jsonb_object_agg(counts.reaction_type, counts.total)
+      FROM (
+        SELECT l.reaction_type, count(*) AS total
+        FROM public.likes l
+        WHERE l.post_id = p.id
+        GROUP BY l.reaction_type
+      ) counts
+    ),
+    '{}'::jsonb
+  );
+
+-- Keep reaction_counts in sync
+CREATE OR REPLACE FUNCTION sync_post_reaction_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.reaction_type = NEW.reaction_type THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.posts
+    SET reaction_counts = jsonb_set(
+      reaction_counts,
+      ARRAY[OLD.reaction_type],
+      to_jsonb(GREATEST(COALESCE((reaction_counts->>OLD.reaction_type)::integer, 0) - 1, 0))
+    )
+    WHERE id = OLD.post_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE public.posts
+    SET reaction_counts = jsonb_set(
+      reaction_counts,
+      ARRAY[NEW.reaction_type],
+      to_jsonb(COALESCE((reaction_counts->>NEW.reaction_type)::integer, 0) + 1)
+    )
+    WHERE id = NEW.post_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_post_reaction_counts ON public.likes;
+CREATE TRIGGER trigger_sync_post_reaction_counts
+  AFTER INSERT OR UPDATE OF reaction_type OR DELETE ON public.likes
+  FOR EACH ROW EXECUTE FUNCTION sync_post_reaction_counts();
+
+DROP POLICY IF EXISTS "Users can update their own likes" ON public.likes;
+
+CREATE POLICY "Users can update their own likes"
+  ON public.likes FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_likes_post_reaction ON public.likes(post_id, reaction_type, created_at DESC);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,273 @@
+/*
+  # Polls
+
+  1. New Tables
+    - `polls`
+      - `id` (uuid, primary key)
+      - `post_id` (uuid, foreign key to posts, one poll per post)
+      - `allow_multiple` (boolean, voters may pick more than one option)
+      - `hide_results` (boolean, results stay hidden until the viewer votes)
+      - `closes_at` (timestamp, null for polls that never close)
+      - `created_at` (timestamp)
+    - `poll_options`
+      - `id` (uuid, primary key)
+      - `poll_id` (uuid, foreign key to polls)
+      - `position` (integer, display order)
+      - `label` (text, up to 80 characters)
+    - `poll_option_results`
+      - `option_id` (uuid, primary key, foreign key to poll_options)
+      - `poll_id` (uuid, foreign key to polls)
+      - `votes_count` (integer)
+    - `poll_votes`
+      - `id` (uuid, primary key)
+      - `poll_id` (uuid, foreign key to polls)
+      - `option_id` (uuid, foreign key to poll_options)
+      - `user_id` (uuid, foreign key to profiles)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Polls and options are visible whenever the underlying post is visible
+    - Results are visible to the author, to voters, once the poll closes, or
+      always when the author didn't hide them
+    - Users see and cast only their own votes, while the poll is open
+    - Single-choice polls accept one vote per user, multiple-choice polls one per option
+
+  3. Functions
+    - `create_poll_post` creates a post together with its poll in one transaction
+    - `sync_poll_votes_count` keeps `poll_option_results.votes_count` in step with votes
+*/
+
+CREATE TABLE IF NOT EXISTS public.polls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL UNIQUE REFERENCES public.posts(id) ON DELETE CASCADE,
+  allow_multiple boolean NOT NULL DEFAULT false,
+  hide_results boolean NOT NULL DEFAULT false,
+  closes_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  label text NOT NULL CHECK (char_length(label) BETWEEN 1 AND 80),
+  UNIQUE (poll_id, position)
+);
+
+-- Counts live apart from the options so RLS can hide them until the viewer votes
+CREATE TABLE IF NOT EXISTS public.poll_option_results (
+  option_id uuid PRIMARY KEY REFERENCES public.poll_options(id) ON DELETE CASCADE,
+  poll_id uuid NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  votes_count integer NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  option_id uuid NOT NULL REFERENCES public.poll_options(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (option_id, user_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_option_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view polls of visible posts" ON public.polls;
+DROP POLICY IF EXISTS "Users can view options of visible polls" ON public.poll_options;
+DROP POLICY IF EXISTS "Users can view results they are allowed to see" ON public.poll_option_results;
+DROP POLICY IF EXISTS "Users can view their own votes" ON public.poll_votes;
+DROP POLICY IF EXISTS "Users can vote in open polls" ON public.poll_votes;
+DROP POLICY IF EXISTS "Users can remove their own votes from open polls" ON public.poll_votes;
+
+-- The subquery runs under the posts policies, so friends-only polls stay hidden
+CREATE POLICY "Users can view polls of visible posts"
+  ON public.polls FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = polls.post_id
+    )
+  );
+
+CREATE POLICY "Users can view options of visible polls"
+  ON public.poll_options FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.polls
+      WHERE polls.id = poll_options.poll_id
+    )
+  );
+
+CREATE POLICY "Users can view results they are allowed to see"
+  ON public.poll_option_results FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.polls
+      JOIN public.posts ON posts.id = polls.post_id
+      WHERE polls.id = poll_option_results.poll_id
+      AND (
+        NOT polls.hide_results
+        OR posts.user_id = auth.uid()
+        OR polls.closes_at <= now()
+        OR EXISTS (
+          SELECT 1 FROM public.poll_votes
+          WHERE poll_votes.poll_id = polls.id
+          AND poll_votes.user_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can view their own votes"
+  ON public.poll_votes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- One vote per user unless the poll allows several, the unique key stops repeats per option
+CREATE POLICY "Users can vote in open polls"
+  ON public.poll_votes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.polls
+      JOIN public.poll_options ON poll_options.poll_id = polls.id
+      WHERE polls.id = poll_votes.poll_id
+      AND poll_options.id = poll_votes.option_id
+      AND (polls.closes_at IS NULL OR polls.closes_at > now())
+      AND (
+        polls.allow_multiple
+        OR NOT EXISTS (
+          SELECT 1 FROM public.poll_votes existing
+          WHERE existing.poll_id = polls.id
+          AND existing.user_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can remove their own votes from open polls"
+  ON public.poll_votes FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.polls
+      WHERE polls.id = poll_votes.poll_id
+      AND (polls.closes_at IS NULL OR polls.closes_at > now())
+    )
+  );
+
+-- Create a post with its poll so feeds never see the post without its options
+CREATE OR REPLACE FUNCTION create_poll_post(
+  post_content text,
+  post_visibility text,
+  post_comments_disabled boolean,
+  poll_option_labels text[],
+  poll_allow_multiple boolean DEFAULT false,
+  poll_hide_results boolean DEFAULT false,
+  poll_closes_at timestamptz DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_post_id uuid;
+  new_poll_id uuid;
+  option_label text;
+  option_position integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(trim(post_content), '') = '' THEN
+    RAISE EXCEPTION 'A poll needs a question';
+  END IF;
+
+  IF COALESCE(array_length(poll_option_labels, 1), 0) NOT BETWEEN 2 AND 6 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 6 options';
+  END IF;
+
+  IF poll_closes_at IS NOT NULL AND poll_closes_at <= now() THEN
+    RAISE EXCEPTION 'A poll must close in the future';
+  END IF;
+
+  INSERT INTO public.posts (content, user_id, visibility, comments_disabled)
+  VALUES (post_content, auth.uid(), post_visibility, post_comments_disabled)
+  RETURNING id INTO new_post_id;
+
+  INSERT INTO public.polls (post_id, allow_multiple, hide_results, closes_at)
+  VALUES (new_post_id, poll_allow_multiple, poll_hide_results, poll_closes_at)
+  RETURNING id INTO new_poll_id;
+
+  FOREACH option_label IN ARRAY poll_option_labels LOOP
+    WITH new_option AS (
+      INSERT INTO public.poll_options (poll_id, position, label)
+      VALUES (new_poll_id, option_position, trim(option_label))
+      RETURNING id
+    )
+    INSERT INTO public.poll_option_results (option_id, poll_id)
+    SELECT id, new_poll_id FROM new_option;
+
+    option_position := option_position + 1;
+  END LOOP;
+
+  RETURN new_post_id;
+END $$;
+
+GRANT EXECUTE ON FUNCTION create_poll_post(text, text, boolean, text[], boolean, boolean, timestamptz) TO authenticated;
+
+-- Keep vote counts in step with poll_votes
+CREATE OR REPLACE FUNCTION sync_poll_votes_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.poll_option_results
+    SET votes_count = votes_count + 1
+    WHERE option_id = NEW.option_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.poll_option_results
+    SET votes_count = GREATEST(votes_count - 1, 0)
+    WHERE option_id = OLD.option_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_poll_votes_count ON public.poll_votes;
+CREATE TRIGGER trigger_sync_poll_votes_count
+  AFTER INSERT OR DELETE ON public.poll_votes
+  FOR EACH ROW EXECUTE FUNCTION sync_poll_votes_count();
+
+CREATE INDEX IF NOT EXISTS idx_poll_options_poll_id ON public.poll_options(poll_id, position);
+CREATE INDEX IF NOT EXISTS idx_poll_option_results_poll_id ON public.poll_option_results(poll_id);
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_id_user_id ON public.poll_votes(poll_id, user_id);
+
+-- Enable realtime for live results, delivered only to viewers allowed to see them
+ALTER TABLE public.poll_option_results REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_option_results;
+  EXCEPTION
+    WHEN duplicate_object THEN
+      NULL; -- Table already in publication
+  END;
+END $$;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
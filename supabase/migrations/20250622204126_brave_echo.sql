@@ -0,0 +1,102 @@
+/*
+  # Reposts and quotes
+
+  1. Schema Updates
+    - Add `shared_post_id` column to posts table (uuid, foreign key to posts)
+      - Set to null when the original post is deleted
+    - Add `share_type` column to posts table (text, 'repost' or 'quote')
+      - Stays set after the original is deleted so the share can show a tombstone
+    - One repost per user per original post
+
+  2. Security
+    - `check_shared_post` runs as the caller, so only posts the user can see can be shared
+    - Shares of friends-only posts must be friends-only as well
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'shared_post_id'
+  ) THEN
+    ALTER TABLE public.posts
+      ADD COLUMN shared_post_id uuid REFERENCES public.posts(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'share_type'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN share_type text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND constraint_name = 'posts_share_type_check'
+  ) THEN
+    ALTER TABLE public.posts ADD CONSTRAINT posts_share_type_check
+      CHECK (share_type IN ('repost', 'quote'));
+  END IF;
+END $$;
+
+-- Validate shares against the original post
+CREATE OR REPLACE FUNCTION check_shared_post()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  original_visibility text;
+BEGIN
+  -- Cleared by ON DELETE SET NULL once the original is gone
+  IF NEW.shared_post_id IS NULL THEN
+    IF TG_OP = 'INSERT' AND NEW.share_type IS NOT NULL THEN
+      RAISE EXCEPTION 'A shared post needs the post it shares';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.share_type IS NULL THEN
+    RAISE EXCEPTION 'A shared post needs a share type';
+  END IF;
+
+  -- Runs under the posts policies, so hidden posts look missing
+  SELECT visibility INTO original_visibility
+  FROM public.posts
+  WHERE id = NEW.shared_post_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can''t share this post';
+  END IF;
+
+  IF original_visibility = 'friends' AND NEW.visibility <> 'friends' THEN
+    RAISE EXCEPTION 'Friends-only posts can only be shared with friends';
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_check_shared_post ON public.posts;
+CREATE TRIGGER trigger_check_shared_post
+  BEFORE INSERT OR UPDATE OF shared_post_id, share_type, visibility ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION check_shared_post();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_one_repost_per_user
+  ON public.posts(user_id, shared_post_id)
+  WHERE share_type = 'repost';
+
+CREATE INDEX IF NOT EXISTS idx_posts_shared_post_id ON public.posts(shared_post_id);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
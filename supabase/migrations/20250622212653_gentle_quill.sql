@@ -0,0 +1,89 @@
+/*
+  # Post edit history
+
+  1. New Tables
+    - `post_revisions`
+      - `id` (uuid, primary key)
+      - `post_id` (uuid, foreign key to posts)
+      - `content` (text, the post content before an edit)
+      - `created_at` (timestamp, when this version was first posted)
+      - `replaced_at` (timestamp, when an edit replaced this version)
+
+  2. Schema Updates
+    - Add `edited_at` column to posts table (timestamp, null until the first edit)
+
+  3. Security
+    - Enable RLS on `post_revisions`
+    - Revisions are visible whenever the underlying post is visible
+    - Revisions are only written by the trigger
+
+  4. Functions
+    - `record_post_revision` stores the previous content whenever a post's content changes
+      and keeps `edited_at` from being set by hand
+*/
+
+CREATE TABLE IF NOT EXISTS public.post_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  created_at timestamptz NOT NULL,
+  replaced_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'edited_at'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN edited_at timestamptz;
+  END IF;
+END $$;
+
+-- Enable RLS
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view revisions of visible posts" ON public.post_revisions;
+
+-- The subquery runs under the posts policies, so friends-only history stays hidden
+CREATE POLICY "Users can view revisions of visible posts"
+  ON public.post_revisions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.posts
+      WHERE posts.id = post_revisions.post_id
+    )
+  );
+
+-- Keep the replaced content whenever a post is edited
+CREATE OR REPLACE FUNCTION record_post_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.post_revisions (post_id, content, created_at, replaced_at)
+    VALUES (OLD.id, OLD.content, COALESCE(OLD.edited_at, OLD.created_at), now());
+
+    NEW.edited_at := now();
+  ELSE
+    -- Only content edits move the edited marker
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_record_post_revision ON public.posts;
+CREATE TRIGGER trigger_record_post_revision
+  BEFORE UPDATE ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION record_post_revision();
+
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post_id ON public.post_revisions(post_id, replaced_at DESC);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
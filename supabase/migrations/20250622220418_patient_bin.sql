@@ -0,0 +1,345 @@
+/*
+  # Soft-deleted posts and comments
+
+  1. Schema Updates
+    - Add `deleted_at` column to posts table (timestamp, null while the post is live)
+    - Add `deleted_at` column to comments table (timestamp, null while the comment is live)
+    - Add `deleted_by` column to comments table (uuid, the author or the post owner who removed it)
+
+  2. Security
+    - Deleted posts and comments are hidden from every select, including their owners
+    - Deleting and restoring go through functions that check ownership
+
+  3. Functions
+    - `soft_delete_post` / `restore_post` move a post in and out of the trash
+    - `soft_delete_comment` / `restore_comment` do the same for a comment and its replies
+    - `get_recently_deleted` lists the caller's trash
+    - `purge_deleted_items` removes items deleted more than 30 days ago with their uploads
+      - Scheduled nightly through pg_cron when the extension is enabled
+    - Comment counters treat soft deletion like deletion
+    - `post_exists` and `get_trending_hashtags` skip deleted posts
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'deleted_at'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN deleted_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'comments'
+    AND column_name = 'deleted_at'
+  ) THEN
+    ALTER TABLE public.comments ADD COLUMN deleted_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'comments'
+    AND column_name = 'deleted_by'
+  ) THEN
+    ALTER TABLE public.comments
+      ADD COLUMN deleted_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Restrictive policies apply on top of the existing visibility rules
+DROP POLICY IF EXISTS "Deleted posts are hidden" ON public.posts;
+DROP POLICY IF EXISTS "Deleted comments are hidden" ON public.comments;
+
+CREATE POLICY "Deleted posts are hidden"
+  ON public.posts AS RESTRICTIVE FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Deleted comments are hidden"
+  ON public.comments AS RESTRICTIVE FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+-- Soft deletion counts as deletion for comments_count
+CREATE OR REPLACE FUNCTION sync_post_comments_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts
+    SET comments_count = comments_count + 1
+    WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.deleted_at IS NULL THEN
+    UPDATE public.posts
+    SET comments_count = GREATEST(comments_count - 1, 0)
+    WHERE id = OLD.post_id;
+  ELSIF TG_OP = 'UPDATE' AND OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    UPDATE public.posts
+    SET comments_count = GREATEST(comments_count - 1, 0)
+    WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'UPDATE' AND OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    UPDATE public.posts
+    SET comments_count = comments_count + 1
+    WHERE id = NEW.post_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_post_comments_count ON public.comments;
+CREATE TRIGGER trigger_sync_post_comments_count
+  AFTER INSERT OR DELETE OR UPDATE OF deleted_at ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION sync_post_comments_count();
+
+-- Same for replies_count
+CREATE OR REPLACE FUNCTION sync_comment_replies_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL THEN
+    UPDATE public.comments
+    SET replies_count = replies_count + 1
+    WHERE id = NEW.parent_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.parent_id IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    UPDATE public.comments
+    SET replies_count = GREATEST(replies_count - 1, 0)
+    WHERE id = OLD.parent_id;
+  ELSIF TG_OP = 'UPDATE' AND NEW.parent_id IS NOT NULL AND OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    UPDATE public.comments
+    SET replies_count = GREATEST(replies_count - 1, 0)
+    WHERE id = NEW.parent_id;
+  ELSIF TG_OP = 'UPDATE' AND NEW.parent_id IS NOT NULL AND OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    UPDATE public.comments
+    SET replies_count = replies_count + 1
+    WHERE id = NEW.parent_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_comment_replies_count ON public.comments;
+CREATE TRIGGER trigger_sync_comment_replies_count
+  AFTER INSERT OR DELETE OR UPDATE OF deleted_at ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION sync_comment_replies_count();
+
+-- Move a post to the trash
+CREATE OR REPLACE FUNCTION soft_delete_post(post_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.posts
+  SET deleted_at = now()
+  WHERE id = post_uuid
+  AND user_id = auth.uid()
+  AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION restore_post(post_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.posts
+  SET deleted_at = NULL
+  WHERE id = post_uuid
+  AND user_id = auth.uid()
+  AND deleted_at > now() - interval '30 days';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found in the trash';
+  END IF;
+END $$;
+
+-- Move a comment and its replies to the trash, allowed for its author and the post owner
+CREATE OR REPLACE FUNCTION soft_delete_comment(comment_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  deleted_time timestamptz := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.comments c
+    JOIN public.posts p ON p.id = c.post_id
+    WHERE c.id = comment_uuid
+    AND c.deleted_at IS NULL
+    AND (c.user_id = auth.uid() OR p.user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  -- Replies share the timestamp so restoring the comment brings them back too
+  WITH RECURSIVE thread AS (
+    SELECT id FROM public.comments WHERE id = comment_uuid
+    UNION ALL
+    SELECT c.id FROM public.comments c
+    JOIN thread ON c.parent_id = thread.id
+    WHERE c.deleted_at IS NULL
+  )
+  UPDATE public.comments
+  SET deleted_at = deleted_time, deleted_by = auth.uid()
+  WHERE id IN (SELECT id FROM thread);
+END $$;
+
+CREATE OR REPLACE FUNCTION restore_comment(comment_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  deleted_time timestamptz;
+BEGIN
+  SELECT deleted_at INTO deleted_time
+  FROM public.comments
+  WHERE id = comment_uuid
+  AND deleted_by = auth.uid()
+  AND deleted_at > now() - interval '30 days';
+
+  IF deleted_time IS NULL THEN
+    RAISE EXCEPTION 'Comment not found in the trash';
+  END IF;
+
+  -- Replies deleted separately before stay in the trash
+  WITH RECURSIVE thread AS (
+    SELECT id FROM public.comments WHERE id = comment_uuid
+    UNION ALL
+    SELECT c.id FROM public.comments c
+    JOIN thread ON c.parent_id = thread.id
+    WHERE c.deleted_at = deleted_time
+  )
+  UPDATE public.comments
+  SET deleted_at = NULL, deleted_by = NULL
+  WHERE id IN (SELECT id FROM thread);
+END $$;
+
+-- The caller's trash, replies removed along with their comment are listed under it
+CREATE OR REPLACE FUNCTION get_recently_deleted()
+RETURNS TABLE (
+  item_type text,
+  id uuid,
+  post_id uuid,
+  content text,
+  created_at timestamptz,
+  deleted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT 'post', p.id, p.id, p.content, p.created_at, p.deleted_at
+  FROM public.posts p
+  WHERE p.user_id = auth.uid()
+  AND p.deleted_at > now() - interval '30 days'
+  UNION ALL
+  SELECT 'comment', c.id, c.post_id, c.content, c.created_at, c.deleted_at
+  FROM public.comments c
+  WHERE c.deleted_by = auth.uid()
+  AND c.deleted_at > now() - interval '30 days'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.comments parent
+    WHERE parent.id = c.parent_id
+    AND parent.deleted_at = c.deleted_at
+  )
+  ORDER BY deleted_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION soft_delete_post(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_post(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION soft_delete_comment(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_comment(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_recently_deleted() TO authenticated;
+
+-- Permanently remove expired trash, along with the uploads of purged posts
+CREATE OR REPLACE FUNCTION purge_deleted_items()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  cutoff timestamptz := now() - interval '30 days';
+  purged_posts integer;
+  purged_comments integer;
+BEGIN
+  -- Uploads are stored under public URLs like .../object/public/posts/<path>
+  DELETE FROM storage.objects
+  WHERE bucket_id = 'posts'
+  AND name IN (
+    SELECT substring(url FROM '/object/public/posts/(.+)$')
+    FROM public.posts p,
+      LATERAL (
+        SELECT p.image_url
+        UNION SELECT p.video_url
+        UNION SELECT p.video_poster_url
+        UNION SELECT image->>'url' FROM jsonb_array_elements(p.images) AS image
+      ) AS uploads(url)
+    WHERE p.deleted_at < cutoff
+    AND url IS NOT NULL
+  );
+
+  DELETE FROM public.posts WHERE deleted_at < cutoff;
+  GET DIAGNOSTICS purged_posts = ROW_COUNT;
+
+  DELETE FROM public.comments WHERE deleted_at < cutoff;
+  GET DIAGNOSTICS purged_comments = ROW_COUNT;
+
+  RETURN purged_posts + purged_comments;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION purge_deleted_items() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('purge-deleted-items', '30 3 * * *', 'SELECT public.purge_deleted_items()');
+  END IF;
+END $$;
+
+-- Deleted posts read as missing on their permalink
+CREATE OR REPLACE FUNCTION post_exists(post_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.posts WHERE id = post_uuid AND deleted_at IS NULL);
+$$;
+
+CREATE OR REPLACE FUNCTION get_trending_hashtags(since_hours integer DEFAULT 48, max_results integer DEFAULT 10)
+RETURNS TABLE (tag text, post_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT ph.tag, count(*) AS post_count
+  FROM public.post_hashtags ph
+  JOIN public.posts p ON p.id = ph.post_id
+  WHERE ph.created_at > now() - make_interval(hours => since_hours)
+  AND p.visibility = 'public'
+  AND p.deleted_at IS NULL
+  GROUP BY ph.tag
+  ORDER BY post_count DESC, max(ph.created_at) DESC
+  LIMIT LEAST(max_results, 50);
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_posts_deleted_at ON public.posts(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_deleted_at ON public.comments(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,130 @@
+/*
+  # Post drafts and scheduled posts
+
+  1. New Tables
+    - `post_drafts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `content` (text, mentions already serialized)
+      - `images` (jsonb, uploaded `{ "url": text, "alt": text }` objects)
+      - `video_url` (text, uploaded video)
+      - `video_poster_url` (text, uploaded poster frame)
+      - `visibility` (text, 'public' or 'friends')
+      - `comments_disabled` (boolean)
+      - `scheduled_at` (timestamp, null for plain drafts)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `post_drafts`
+    - Users can only see and change their own drafts
+
+  3. Functions
+    - `publish_scheduled_posts` turns due scheduled drafts into posts
+      - Scheduled every minute through pg_cron when the extension is enabled
+*/
+
+CREATE TABLE IF NOT EXISTS public.post_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  content text NOT NULL DEFAULT '',
+  images jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(images) = 'array' AND jsonb_array_length(images) <= 10),
+  video_url text,
+  video_poster_url text,
+  visibility text NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'friends')),
+  comments_disabled boolean NOT NULL DEFAULT false,
+  scheduled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.post_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own drafts" ON public.post_drafts;
+DROP POLICY IF EXISTS "Users can create their own drafts" ON public.post_drafts;
+DROP POLICY IF EXISTS "Users can update their own drafts" ON public.post_drafts;
+DROP POLICY IF EXISTS "Users can delete their own drafts" ON public.post_drafts;
+
+CREATE POLICY "Users can view their own drafts"
+  ON public.post_drafts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own drafts"
+  ON public.post_drafts FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own drafts"
+  ON public.post_drafts FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own drafts"
+  ON public.post_drafts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Publish scheduled drafts that are due, oldest first
+CREATE OR REPLACE FUNCTION publish_scheduled_posts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  published integer;
+BEGIN
+  WITH due AS (
+    DELETE FROM public.post_drafts
+    WHERE id IN (
+      SELECT id FROM public.post_drafts
+      WHERE scheduled_at <= now()
+      ORDER BY scheduled_at
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  )
+  INSERT INTO public.posts (
+    content,
+    user_id,
+    image_url,
+    images,
+    video_url,
+    video_poster_url,
+    comments_disabled,
+    visibility,
+    created_at
+  )
+  SELECT
+    content,
+    user_id,
+    images->0->>'url',
+    images,
+    video_url,
+    video_poster_url,
+    comments_disabled,
+    visibility,
+    scheduled_at
+  FROM due
+  ORDER BY scheduled_at;
+
+  GET DIAGNOSTICS published = ROW_COUNT;
+  RETURN published;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION publish_scheduled_posts() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('publish-scheduled-posts', '* * * * *', 'SELECT public.publish_scheduled_posts()');
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_post_drafts_user_updated ON public.post_drafts(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_drafts_scheduled_at ON public.post_drafts(scheduled_at) WHERE scheduled_at IS NOT NULL;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,184 @@
+/*
+  # Content warnings
+
+  1. Schema Updates
+    - Add `content_warning` column to posts table (text, null when the post is not sensitive)
+      - Short label shown in place of the post until the viewer chooses to see it
+    - Images can be marked sensitive on their own through a `sensitive` flag in `posts.images`
+    - Add `content_warning` column to post_drafts table so scheduled posts keep it
+    - Add `sensitive_content` column to profiles table (text, 'show', 'blur' or 'hide')
+      - How the user wants sensitive posts and images displayed, defaults to 'blur'
+
+  2. Functions
+    - `create_poll_post` takes an optional content warning
+    - `publish_scheduled_posts` carries the content warning over to the post
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'content_warning'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN content_warning text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND constraint_name = 'posts_content_warning_check'
+  ) THEN
+    ALTER TABLE public.posts ADD CONSTRAINT posts_content_warning_check
+      CHECK (char_length(trim(content_warning)) BETWEEN 1 AND 80);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'post_drafts'
+    AND column_name = 'content_warning'
+  ) THEN
+    ALTER TABLE public.post_drafts ADD COLUMN content_warning text
+      CHECK (char_length(trim(content_warning)) BETWEEN 1 AND 80);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'profiles'
+    AND column_name = 'sensitive_content'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN sensitive_content text NOT NULL DEFAULT 'blur'
+      CHECK (sensitive_content IN ('show', 'blur', 'hide'));
+  END IF;
+END $$;
+
+-- Replace the poll RPC so polls can carry a content warning too
+DROP FUNCTION IF EXISTS create_poll_post(text, text, boolean, text[], boolean, boolean, timestamptz);
+
+CREATE OR REPLACE FUNCTION create_poll_post(
+  post_content text,
+  post_visibility text,
+  post_comments_disabled boolean,
+  poll_option_labels text[],
+  poll_allow_multiple boolean DEFAULT false,
+  poll_hide_results boolean DEFAULT false,
+  poll_closes_at timestamptz DEFAULT NULL,
+  post_content_warning text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_post_id uuid;
+  new_poll_id uuid;
+  option_label text;
+  option_position integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(trim(post_content), '') = '' THEN
+    RAISE EXCEPTION 'A poll needs a question';
+  END IF;
+
+  IF COALESCE(array_length(poll_option_labels, 1), 0) NOT BETWEEN 2 AND 6 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 6 options';
+  END IF;
+
+  IF poll_closes_at IS NOT NULL AND poll_closes_at <= now() THEN
+    RAISE EXCEPTION 'A poll must close in the future';
+  END IF;
+
+  INSERT INTO public.posts (content, user_id, visibility, comments_disabled, content_warning)
+  VALUES (post_content, auth.uid(), post_visibility, post_comments_disabled, NULLIF(trim(post_content_warning), ''))
+  RETURNING id INTO new_post_id;
+
+  INSERT INTO public.polls (post_id, allow_multiple, hide_results, closes_at)
+  VALUES (new_post_id, poll_allow_multiple, poll_hide_results, poll_closes_at)
+  RETURNING id INTO new_poll_id;
+
+  FOREACH option_label IN ARRAY poll_option_labels LOOP
+    WITH new_option AS (
+      INSERT INTO public.poll_options (poll_id, position, label)
+      VALUES (new_poll_id, option_position, trim(option_label))
+      RETURNING id
+    )
+    INSERT INTO public.poll_option_results (option_id, poll_id)
+    SELECT id, new_poll_id FROM new_option;
+
+    option_position := option_position + 1;
+  END LOOP;
+
+  RETURN new_post_id;
+END $$;
+
+GRANT EXECUTE ON FUNCTION create_poll_post(text, text, boolean, text[], boolean, boolean, timestamptz, text) TO authenticated;
+
+-- Publish scheduled drafts that are due, oldest first
+CREATE OR REPLACE FUNCTION publish_scheduled_posts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  published integer;
+BEGIN
+  WITH due AS (
+    DELETE FROM public.post_drafts
+    WHERE id IN (
+      SELECT id FROM public.post_drafts
+      WHERE scheduled_at <= now()
+      ORDER BY scheduled_at
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  )
+  INSERT INTO public.posts (
+    content,
+    user_id,
+    image_url,
+    images,
+    video_url,
+    video_poster_url,
+    comments_disabled,
+    visibility,
+    content_warning,
+    created_at
+  )
+  SELECT
+    content,
+    user_id,
+    images->0->>'url',
+    images,
+    video_url,
+    video_poster_url,
+    comments_disabled,
+    visibility,
+    content_warning,
+    scheduled_at
+  FROM due
+  ORDER BY scheduled_at;
+
+  GET DIAGNOSTICS published = ROW_COUNT;
+  RETURN published;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION publish_scheduled_posts() FROM PUBLIC, anon, authenticated;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
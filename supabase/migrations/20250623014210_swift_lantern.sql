@@ -0,0 +1,194 @@
+/*
+  # Full-text search
+
+  1. Schema Updates
+    - Add generated `search_vector` columns (tsvector) to posts, comments and profiles
+      - Posts and comments use the english configuration so word forms match
+      - Profiles use the simple configuration, usernames weighted above names
+    - GIN indexes on each `search_vector`
+
+  2. Functions
+    - `search_posts`, `search_comments` and `search_people` return ranked matches
+      with the matched terms wrapped in \x02 and \x03 for highlighting
+    - They run as the caller so row level security decides what can be found
+      - Comments are only found when their post is visible as well
+    - People search matches word prefixes so results show up while typing
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'comments'
+    AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE public.comments ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'profiles'
+    AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(username, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(name, '')), 'B')
+      ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_posts_search_vector ON public.posts USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_comments_search_vector ON public.comments USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_profiles_search_vector ON public.profiles USING gin(search_vector);
+
+-- Ranked posts matching the query, limited to what the caller can see
+CREATE OR REPLACE FUNCTION search_posts(
+  search_query text,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  created_at timestamptz,
+  headline text,
+  rank real,
+  name text,
+  username text,
+  avatar text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.created_at,
+    ts_headline('english', p.content, query.q, 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2'),
+    ts_rank_cd(p.search_vector, query.q),
+    pr.name,
+    pr.username,
+    pr.avatar
+  FROM public.posts p
+  CROSS JOIN query
+  JOIN public.profiles pr ON pr.id = p.user_id
+  WHERE p.search_vector @@ query.q
+  ORDER BY ts_rank_cd(p.search_vector, query.q) DESC, p.created_at DESC
+  LIMIT LEAST(result_limit, 50)
+  OFFSET result_offset;
+$$;
+
+-- Ranked comments matching the query, only on posts the caller can see
+CREATE OR REPLACE FUNCTION search_comments(
+  search_query text,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  user_id uuid,
+  created_at timestamptz,
+  headline text,
+  rank real,
+  name text,
+  username text,
+  avatar text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  )
+  SELECT
+    c.id,
+    c.post_id,
+    c.user_id,
+    c.created_at,
+    ts_headline('english', c.content, query.q, 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2'),
+    ts_rank_cd(c.search_vector, query.q),
+    pr.name,
+    pr.username,
+    pr.avatar
+  FROM public.comments c
+  CROSS JOIN query
+  JOIN public.profiles pr ON pr.id = c.user_id
+  WHERE c.search_vector @@ query.q
+  AND EXISTS (SELECT 1 FROM public.posts p WHERE p.id = c.post_id)
+  ORDER BY ts_rank_cd(c.search_vector, query.q) DESC, c.created_at DESC
+  LIMIT LEAST(result_limit, 50)
+  OFFSET result_offset;
+$$;
+
+-- People whose username or name starts with every word of the query
+CREATE OR REPLACE FUNCTION search_people(
+  search_query text,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  username text,
+  avatar text,
+  name_headline text,
+  username_headline text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & ')) AS q
+    FROM regexp_split_to_table(
+      lower(trim(regexp_replace(search_query, '[^[:alnum:]_[:space:]]', ' ', 'g'))),
+      '\s+'
+    ) AS word
+    WHERE word <> ''
+  )
+  SELECT
+    pr.id,
+    pr.name,
+    pr.username,
+    pr.avatar,
+    ts_headline('simple', pr.name, query.q, 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', HighlightAll=true'),
+    ts_headline('simple', pr.username, query.q, 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', HighlightAll=true'),
+    ts_rank(pr.search_vector, query.q)
+  FROM public.profiles pr
+  CROSS JOIN query
+  WHERE pr.search_vector @@ query.q
+  ORDER BY ts_rank(pr.search_vector, query.q) DESC, pr.username
+  LIMIT LEAST(result_limit, 50)
+  OFFSET result_offset;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_posts(text, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_comments(text, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_people(text, integer, integer) TO authenticated;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
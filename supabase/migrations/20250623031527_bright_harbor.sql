@@ -0,0 +1,43 @@
+/*
+  # Link previews
+
+  1. New Tables
+    - `link_previews`
+      - `url` (text, primary key, normalized without the fragment)
+      - `title` (text)
+      - `description` (text)
+      - `image_url` (text)
+      - `site_name` (text)
+      - `status` (text, 'ok' or 'failed')
+      - `fetched_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `link_previews`
+    - Authenticated users can read cached previews
+    - Only the `link-preview` edge function writes, using the service role
+*/
+
+CREATE TABLE IF NOT EXISTS public.link_previews (
+  url text PRIMARY KEY,
+  title text,
+  description text,
+  image_url text,
+  site_name text,
+  status text NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'failed')),
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view link previews" ON public.link_previews;
+
+CREATE POLICY "Users can view link previews"
+  ON public.link_previews FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_link_previews_fetched_at ON public.link_previews(fetched_at);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
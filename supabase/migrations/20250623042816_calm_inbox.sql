@@ -0,0 +1,98 @@
+/*
+  # Conversation list in one query
+
+  1. Functions
+    - `get_conversations` lists the caller's accepted friendships with the partner's profile,
+      the last message in the conversation and how many of the partner's messages are unread
+      - Ordered by the last message, falling back to when the friendship started
+
+  2. Indexes
+    - `messages (sender_id, receiver_id, created_at)` for the latest message per direction
+    - Partial index on unread messages for the unread counts
+*/
+
+CREATE OR REPLACE FUNCTION get_conversations()
+RETURNS TABLE (
+  friendship_id uuid,
+  partner_id uuid,
+  partner_name text,
+  partner_username text,
+  partner_avatar text,
+  friends_since timestamptz,
+  last_message_id uuid,
+  last_message_content text,
+  last_message_sender_id uuid,
+  last_message_at timestamptz,
+  unread_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH conversations AS (
+    SELECT
+      f.id,
+      f.created_at,
+      CASE WHEN f.sender_id = auth.uid() THEN f.receiver_id ELSE f.sender_id END AS partner_id
+    FROM public.friends f
+    WHERE f.status = 'accepted'
+    AND (f.sender_id = auth.uid() OR f.receiver_id = auth.uid())
+  )
+  SELECT
+    c.id,
+    c.partner_id,
+    pr.name,
+    pr.username,
+    pr.avatar,
+    c.created_at,
+    last_message.id,
+    last_message.content,
+    last_message.sender_id,
+    last_message.created_at,
+    unread.count
+  FROM conversations c
+  JOIN public.profiles pr ON pr.id = c.partner_id
+  LEFT JOIN LATERAL (
+    -- Newest message of each direction, so both halves can use the index
+    SELECT latest.id, latest.content, latest.sender_id, latest.created_at
+    FROM (
+      (
+        SELECT m.id, m.content, m.sender_id, m.created_at
+        FROM public.messages m
+        WHERE m.sender_id = auth.uid() AND m.receiver_id = c.partner_id
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT 1
+      )
+      UNION ALL
+      (
+        SELECT m.id, m.content, m.sender_id, m.created_at
+        FROM public.messages m
+        WHERE m.sender_id = c.partner_id AND m.receiver_id = auth.uid()
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT 1
+      )
+    ) latest
+    ORDER BY latest.created_at DESC, latest.id DESC
+    LIMIT 1
+  ) last_message ON true
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS count
+    FROM public.messages m
+    WHERE m.sender_id = c.partner_id
+    AND m.receiver_id = auth.uid()
+    AND m.read = false
+  ) unread
+  ORDER BY COALESCE(last_message.created_at, c.created_at) DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_conversations() TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation
+  ON public.messages(sender_id, receiver_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_messages_unread
+  ON public.messages(receiver_id, sender_id)
+  WHERE read = false;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
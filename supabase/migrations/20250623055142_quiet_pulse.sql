@@ -0,0 +1,68 @@
+/*
+  # Online presence
+
+  1. Schema Updates
+    - Add `last_seen_at` column to profiles table (timestamp, null when presence is hidden)
+      - Refreshed by the app while the user has it open
+    - Add `show_presence` column to profiles table (boolean, default true)
+      - When off, friends don't see the user online, typing or when they were last seen
+      - Turning it off clears `last_seen_at`
+
+  2. Functions
+    - `touch_last_seen` records that the caller is active, unless they hide their presence
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'profiles'
+    AND column_name = 'last_seen_at'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN last_seen_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'profiles'
+    AND column_name = 'show_presence'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN show_presence boolean NOT NULL DEFAULT true;
+  END IF;
+END $$;
+
+-- Hiding presence also hides when the user was last around
+CREATE OR REPLACE FUNCTION clear_hidden_last_seen()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT NEW.show_presence THEN
+    NEW.last_seen_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_clear_hidden_last_seen ON public.profiles;
+CREATE TRIGGER trigger_clear_hidden_last_seen
+  BEFORE UPDATE OF show_presence, last_seen_at ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION clear_hidden_last_seen();
+
+CREATE OR REPLACE FUNCTION touch_last_seen()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE public.profiles
+  SET last_seen_at = now()
+  WHERE id = auth.uid()
+  AND show_presence;
+$$;
+
+GRANT EXECUTE ON FUNCTION touch_last_seen() TO authenticated;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
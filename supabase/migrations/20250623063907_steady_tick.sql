@@ -0,0 +1,96 @@
+/*
+  # Message delivery and read receipts
+
+  1. Schema Updates
+    - Add `delivered_at` column to messages table (timestamp, set once the receiver's app has it)
+    - Add `read_at` column to messages table (timestamp, set when the receiver opens the conversation)
+      - Only recorded when both people have read receipts turned on
+      - `read` stays the receiver's own unread flag
+    - Add `read_receipts` column to profiles table (boolean, default true)
+      - Turning it off stops sending read receipts and seeing other people's
+
+  2. Functions
+    - `mark_messages_delivered` marks everything waiting for the caller as delivered
+    - `mark_messages_read` marks a conversation as read, replacing the bulk update from the app
+
+  3. Backfill
+    - Messages that were already read count as delivered when they were sent
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'messages'
+    AND column_name = 'delivered_at'
+  ) THEN
+    ALTER TABLE public.messages ADD COLUMN delivered_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'messages'
+    AND column_name = 'read_at'
+  ) THEN
+    ALTER TABLE public.messages ADD COLUMN read_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'profiles'
+    AND column_name = 'read_receipts'
+  ) THEN
+    ALTER TABLE public.profiles ADD COLUMN read_receipts boolean NOT NULL DEFAULT true;
+  END IF;
+END $$;
+
+UPDATE public.messages
+SET delivered_at = created_at
+WHERE read = true
+AND delivered_at IS NULL;
+
+CREATE OR REPLACE FUNCTION mark_messages_delivered()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE public.messages
+  SET delivered_at = now()
+  WHERE receiver_id = auth.uid()
+  AND delivered_at IS NULL;
+$$;
+
+-- Receipts are reciprocal, a read time is only kept when neither side has turned them off
+CREATE OR REPLACE FUNCTION mark_messages_read(partner_uuid uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE public.messages m
+  SET
+    read = true,
+    delivered_at = COALESCE(m.delivered_at, now()),
+    read_at = CASE
+      WHEN (
+        SELECT bool_and(p.read_receipts)
+        FROM public.profiles p
+        WHERE p.id IN (auth.uid(), partner_uuid)
+      ) THEN now()
+    END
+  WHERE m.sender_id = partner_uuid
+  AND m.receiver_id = auth.uid()
+  AND m.read = false;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_messages_delivered() TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_messages_read(uuid) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_messages_undelivered
+  ON public.messages(receiver_id)
+  WHERE delivered_at IS NULL;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,118 @@
+/*
+  # Edit, unsend and reply in direct messages
+
+  1. Schema Updates
+    - Add `edited_at` column to messages table (timestamp, null until the sender edits it)
+    - Add `unsent_at` column to messages table (timestamp, null unless the sender unsent it)
+      - Unsent messages keep their row so replies can still point at them, the content is cleared
+    - Add `reply_to_id` column to messages table (uuid, the message being replied to)
+      - Must be in the same conversation, checked on insert
+
+  2. Functions
+    - `edit_message` lets the sender change the content of a message they haven't unsent
+    - `unsend_message` lets the sender remove a message for everyone within 15 minutes of sending it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'messages'
+    AND column_name = 'edited_at'
+  ) THEN
+    ALTER TABLE public.messages ADD COLUMN edited_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'messages'
+    AND column_name = 'unsent_at'
+  ) THEN
+    ALTER TABLE public.messages ADD COLUMN unsent_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'messages'
+    AND column_name = 'reply_to_id'
+  ) THEN
+    ALTER TABLE public.messages
+      ADD COLUMN reply_to_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to_id ON public.messages(reply_to_id);
+
+-- Replies stay inside their conversation
+CREATE OR REPLACE FUNCTION check_message_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.messages parent
+    WHERE parent.id = NEW.reply_to_id
+    AND (
+      (parent.sender_id = NEW.sender_id AND parent.receiver_id = NEW.receiver_id)
+      OR (parent.sender_id = NEW.receiver_id AND parent.receiver_id = NEW.sender_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'You can only reply to a message in the same conversation';
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_check_message_reply ON public.messages;
+CREATE TRIGGER trigger_check_message_reply
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION check_message_reply();
+
+CREATE OR REPLACE FUNCTION edit_message(message_uuid uuid, new_content text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF char_length(trim(COALESCE(new_content, ''))) = 0 THEN
+    RAISE EXCEPTION 'A message can''t be empty';
+  END IF;
+
+  UPDATE public.messages
+  SET content = new_content, edited_at = now()
+  WHERE id = message_uuid
+  AND sender_id = auth.uid()
+  AND unsent_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION unsend_message(message_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.messages
+  SET content = '', unsent_at = now()
+  WHERE id = message_uuid
+  AND sender_id = auth.uid()
+  AND unsent_at IS NULL
+  AND created_at > now() - interval '15 minutes';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This message can no longer be unsent';
+  END IF;
+END $$;
+
+GRANT EXECUTE ON FUNCTION edit_message(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION unsend_message(uuid) TO authenticated;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
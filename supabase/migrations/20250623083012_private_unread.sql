@@ -0,0 +1,175 @@
+/*
+  # Keep unread state away from the sender
+
+  `messages.read` was readable by the sender and every read updated the message row, so a sender
+  could tell when their message was read even when read receipts were off on either side.
+
+  1. New Tables
+    - `message_unreads` holds one row per message the receiver hasn't read yet
+      - Only the receiver can see their rows
+      - Filled by a trigger on new messages, cleared by `mark_messages_read`
+
+  2. Schema Updates
+    - Backfill `message_unreads` from `messages.read`, then drop the column
+
+  3. Functions
+    - `mark_messages_read` only touches the messages themselves when both people have receipts on
+    - `get_conversations` counts unread messages from `message_unreads`
+*/
+
+CREATE TABLE IF NOT EXISTS public.message_unreads (
+  message_id uuid PRIMARY KEY REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.message_unreads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own unread messages" ON public.message_unreads;
+CREATE POLICY "Users can view their own unread messages"
+  ON public.message_unreads FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_message_unreads_user_id ON public.message_unreads(user_id);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'messages'
+    AND column_name = 'read'
+  ) THEN
+    INSERT INTO public.message_unreads (message_id, user_id)
+    SELECT m.id, m.receiver_id
+    FROM public.messages m
+    WHERE m.read = false
+    ON CONFLICT (message_id) DO NOTHING;
+
+    DROP INDEX IF EXISTS public.idx_messages_unread;
+    ALTER TABLE public.messages DROP COLUMN read;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION track_message_unread()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO public.message_unreads (message_id, user_id)
+  VALUES (NEW.id, NEW.receiver_id)
+  ON CONFLICT (message_id) DO NOTHING;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_track_message_unread ON public.messages;
+CREATE TRIGGER trigger_track_message_unread
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION track_message_unread();
+
+-- Reading only shows up on the message rows, and to the sender, when neither side has turned receipts off
+CREATE OR REPLACE FUNCTION mark_messages_read(partner_uuid uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  WITH read_now AS (
+    DELETE FROM public.message_unreads u
+    USING public.messages m
+    WHERE u.message_id = m.id
+    AND u.user_id = auth.uid()
+    AND m.sender_id = partner_uuid
+    RETURNING m.id
+  )
+  UPDATE public.messages m
+  SET
+    delivered_at = COALESCE(m.delivered_at, now()),
+    read_at = now()
+  FROM read_now
+  WHERE m.id = read_now.id
+  AND (
+    SELECT bool_and(p.read_receipts)
+    FROM public.profiles p
+    WHERE p.id IN (auth.uid(), partner_uuid)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION get_conversations()
+RETURNS TABLE (
+  friendship_id uuid,
+  partner_id uuid,
+  partner_name text,
+  partner_username text,
+  partner_avatar text,
+  friends_since timestamptz,
+  last_message_id uuid,
+  last_message_content text,
+  last_message_sender_id uuid,
+  last_message_at timestamptz,
+  unread_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH conversations AS (
+    SELECT
+      f.id,
+      f.created_at,
+      CASE WHEN f.sender_id = auth.uid() THEN f.receiver_id ELSE f.sender_id END AS partner_id
+    FROM public.friends f
+    WHERE f.status = 'accepted'
+    AND (f.sender_id = auth.uid() OR f.receiver_id = auth.uid())
+  )
+  SELECT
+    c.id,
+    c.partner_id,
+    pr.name,
+    pr.username,
+    pr.avatar,
+    c.created_at,
+    last_message.id,
+    last_message.content,
+    last_message.sender_id,
+    last_message.created_at,
+    unread.count
+  FROM conversations c
+  JOIN public.profiles pr ON pr.id = c.partner_id
+  LEFT JOIN LATERAL (
+    -- Newest message of each direction, so both halves can use the index
+    SELECT latest.id, latest.content, latest.sender_id, latest.created_at
+    FROM (
+      (
+        SELECT m.id, m.content, m.sender_id, m.created_at
+        FROM public.messages m
+        WHERE m.sender_id = auth.uid() AND m.receiver_id = c.partner_id
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT 1
+      )
+      UNION ALL
+      (
+        SELECT m.id, m.content, m.sender_id, m.created_at
+        FROM public.messages m
+        WHERE m.sender_id = c.partner_id AND m.receiver_id = auth.uid()
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT 1
+      )
+    ) latest
+    ORDER BY latest.created_at DESC, latest.id DESC
+    LIMIT 1
+  ) last_message ON true
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS count
+    FROM public.message_unreads u
+    JOIN public.messages m ON m.id = u.message_id
+    WHERE u.user_id = auth.uid()
+    AND m.sender_id = c.partner_id
+  ) unread
+  ORDER BY COALESCE(last_message.created_at, c.created_at) DESC;
+$$;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,178 @@
+/*
+  # Remove purged uploads through the Storage API
+
+  Deleting from `storage.objects` only removed the metadata row and left the file in the storage
+  backend. Uploads that may no longer be used are now queued, and the `purge-uploads` edge function
+  removes them through the Storage API.
+
+  1. New Tables
+    - `upload_removals` (paths in the `posts` bucket waiting to be removed)
+      - No policies, only the service role reads it
+
+  2. Functions
+    - `upload_path` turns a public `posts` bucket URL into its object path
+    - `purge_deleted_items` queues the uploads of expired posts instead of deleting storage rows
+    - `get_upload_removals` lists queued paths that no post or draft refers to anymore
+    - Draft uploads are queued when a draft is deleted or its media changes
+      - They stay while a post or another draft uses them, e.g. once the draft is published
+
+  3. Scheduling
+    - Enable pg_cron and pg_net so the purge always runs
+    - `purge_deleted_items` runs nightly, the edge function is called a little later
+      - The call reads `project_url` and `service_role_key` from Vault
+*/
+
+CREATE TABLE IF NOT EXISTS public.upload_removals (
+  path text PRIMARY KEY,
+  queued_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.upload_removals ENABLE ROW LEVEL SECURITY;
+
+-- Uploads are stored under public URLs like .../object/public/posts/<path>
+CREATE OR REPLACE FUNCTION upload_path(url text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT substring(url FROM '/object/public/posts/(.+)$');
+$$;
+
+CREATE OR REPLACE FUNCTION queue_upload_removals(urls text[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  INSERT INTO public.upload_removals (path)
+  SELECT DISTINCT public.upload_path(url)
+  FROM unnest(urls) AS url
+  WHERE public.upload_path(url) IS NOT NULL
+  ON CONFLICT (path) DO UPDATE SET queued_at = now();
+$$;
+
+CREATE OR REPLACE FUNCTION queue_draft_uploads()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Autosave rewrites every column, only queue when the media actually changed
+  IF TG_OP = 'UPDATE'
+    AND NEW.images = OLD.images
+    AND NEW.video_url IS NOT DISTINCT FROM OLD.video_url
+    AND NEW.video_poster_url IS NOT DISTINCT FROM OLD.video_poster_url
+  THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.queue_upload_removals(
+    ARRAY[OLD.video_url, OLD.video_poster_url]
+    || ARRAY(SELECT image->>'url' FROM jsonb_array_elements(OLD.images) AS image)
+  );
+
+  RETURN OLD;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_queue_draft_uploads ON public.post_drafts;
+CREATE TRIGGER trigger_queue_draft_uploads
+  AFTER DELETE OR UPDATE OF images, video_url, video_poster_url ON public.post_drafts
+  FOR EACH ROW EXECUTE FUNCTION queue_draft_uploads();
+
+-- Permanently remove expired trash, queueing the uploads of purged posts
+CREATE OR REPLACE FUNCTION purge_deleted_items()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  cutoff timestamptz := now() - interval '30 days';
+  purged_posts integer;
+  purged_comments integer;
+BEGIN
+  PERFORM public.queue_upload_removals(ARRAY(
+    SELECT url
+    FROM public.posts p,
+      LATERAL (
+        SELECT p.image_url
+        UNION SELECT p.video_url
+        UNION SELECT p.video_poster_url
+        UNION SELECT image->>'url' FROM jsonb_array_elements(p.images) AS image
+      ) AS uploads(url)
+    WHERE p.deleted_at < cutoff
+    AND url IS NOT NULL
+  ));
+
+  DELETE FROM public.posts WHERE deleted_at < cutoff;
+  GET DIAGNOSTICS purged_posts = ROW_COUNT;
+
+  DELETE FROM public.comments WHERE deleted_at < cutoff;
+  GET DIAGNOSTICS purged_comments = ROW_COUNT;
+
+  RETURN purged_posts + purged_comments;
+END $$;
+
+-- Queued paths that are safe to remove, anything a post (trashed ones included) or draft uses is dropped from the queue
+CREATE OR REPLACE FUNCTION get_upload_removals(max_results integer DEFAULT 1000)
+RETURNS TABLE (path text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.upload_removals r
+  WHERE EXISTS (
+    SELECT 1
+    FROM public.posts p,
+      LATERAL (
+        SELECT p.image_url
+        UNION SELECT p.video_url
+        UNION SELECT p.video_poster_url
+        UNION SELECT image->>'url' FROM jsonb_array_elements(p.images) AS image
+      ) AS uploads(url)
+    WHERE public.upload_path(url) = r.path
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM public.post_drafts d,
+      LATERAL (
+        SELECT d.video_url
+        UNION SELECT d.video_poster_url
+        UNION SELECT image->>'url' FROM jsonb_array_elements(d.images) AS image
+      ) AS uploads(url)
+    WHERE public.upload_path(url) = r.path
+  );
+
+  -- The grace period covers a composer that deletes its draft just before the post lands
+  RETURN QUERY
+  SELECT r.path
+  FROM public.upload_removals r
+  WHERE r.queued_at < now() - interval '1 hour'
+  ORDER BY r.queued_at
+  LIMIT max_results;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION queue_upload_removals(text[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_deleted_items() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_upload_removals(integer) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule('purge-deleted-items', '30 3 * * *', 'SELECT public.purge_deleted_items()');
+
+SELECT cron.schedule(
+  'purge-uploads',
+  '45 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-uploads',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,19 @@
+/*
+  # Always schedule the post publisher
+
+  Scheduled posts were only published when pg_cron happened to be enabled already,
+  otherwise they stayed drafts forever while the composer promised when they'd be shared.
+
+  1. Extensions
+    - Enable pg_cron
+
+  2. Scheduling
+    - `publish_scheduled_posts` runs every minute
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('publish-scheduled-posts', '* * * * *', 'SELECT public.publish_scheduled_posts()');
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
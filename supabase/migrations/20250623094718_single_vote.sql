@@ -0,0 +1,40 @@
+/*
+  # Enforce single-choice polls on concurrent votes
+
+  The insert policy checks for an earlier vote, but two votes for different options sent at the
+  same time both pass it and the unique key only covers repeats of the same option.
+
+  1. Functions
+    - `check_single_vote` serializes a user's votes in a poll and rejects a second one
+      when the poll doesn't allow multiple choices
+*/
+
+CREATE OR REPLACE FUNCTION check_single_vote()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Held until commit, so a concurrent vote by the same user waits and then sees this one
+  PERFORM pg_advisory_xact_lock(hashtextextended(NEW.poll_id::text || ':' || NEW.user_id::text, 0));
+
+  IF NOT (SELECT allow_multiple FROM public.polls WHERE id = NEW.poll_id)
+    AND EXISTS (
+      SELECT 1 FROM public.poll_votes
+      WHERE poll_id = NEW.poll_id
+      AND user_id = NEW.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'You have already voted in this poll';
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_check_single_vote ON public.poll_votes;
+CREATE TRIGGER trigger_check_single_vote
+  BEFORE INSERT ON public.poll_votes
+  FOR EACH ROW EXECUTE FUNCTION check_single_vote();
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
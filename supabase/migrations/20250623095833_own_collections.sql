@@ -0,0 +1,30 @@
+/*
+  # Keep bookmarks in the user's own collections
+
+  The update policy had no check on the new row, so a bookmark could be moved into another
+  user's collection even though creating it there is refused.
+
+  1. Security
+    - Updated bookmarks must still belong to the user and point at one of their collections
+*/
+
+DROP POLICY IF EXISTS "Users can update their own bookmarks" ON public.bookmarks;
+
+CREATE POLICY "Users can update their own bookmarks"
+  ON public.bookmarks FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      collection_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.bookmark_collections
+        WHERE bookmark_collections.id = bookmarks.collection_id
+        AND bookmark_collections.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
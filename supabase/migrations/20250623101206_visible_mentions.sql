@@ -0,0 +1,131 @@
+/*
+  # Only record mentions people can see
+
+  Mentions in friends-only posts, and in comments on them, were recorded for anyone, so people who
+  weren't friends with the author got a notification for a post they couldn't open.
+
+  1. Functions
+    - `can_view_post` mirrors the posts policies for a given viewer
+    - `sync_post_mentions` and `sync_comment_mentions` skip users who can't see the post
+    - Changing a post's visibility re-syncs the mentions of the post and its comments
+
+  2. Cleanup
+    - Remove existing mentions, and their notifications, that point at posts the user can't see
+*/
+
+CREATE OR REPLACE FUNCTION can_view_post(author uuid, post_visibility text, viewer uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT viewer = author
+    OR post_visibility = 'public'
+    OR (
+      post_visibility = 'friends'
+      AND EXISTS (
+        SELECT 1 FROM public.friends
+        WHERE status = 'accepted'
+        AND (
+          (sender_id = viewer AND receiver_id = author)
+          OR (sender_id = author AND receiver_id = viewer)
+        )
+      )
+    );
+$$;
+
+-- Answers for any pair of users, so it stays with the triggers
+REVOKE EXECUTE ON FUNCTION can_view_post(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION sync_post_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.mentions
+  WHERE post_id = NEW.id
+  AND comment_id IS NULL
+  AND (
+    user_id NOT IN (SELECT extract_mentioned_user_ids(NEW.content))
+    OR NOT can_view_post(NEW.user_id, NEW.visibility, user_id)
+  );
+
+  INSERT INTO public.mentions (user_id, author_id, post_id)
+  SELECT mentioned_id, NEW.user_id, NEW.id
+  FROM extract_mentioned_user_ids(NEW.content) AS mentioned_id
+  WHERE mentioned_id <> NEW.user_id
+  AND can_view_post(NEW.user_id, NEW.visibility, mentioned_id)
+  ON CONFLICT DO NOTHING;
+
+  -- Comments on the post follow its visibility too
+  IF TG_OP = 'UPDATE' AND NEW.visibility IS DISTINCT FROM OLD.visibility THEN
+    DELETE FROM public.mentions
+    WHERE post_id = NEW.id
+    AND comment_id IS NOT NULL
+    AND NOT can_view_post(NEW.user_id, NEW.visibility, user_id);
+
+    INSERT INTO public.mentions (user_id, author_id, post_id, comment_id)
+    SELECT mentioned_id, c.user_id, c.post_id, c.id
+    FROM public.comments c,
+      LATERAL extract_mentioned_user_ids(c.content) AS mentioned_id
+    WHERE c.post_id = NEW.id
+    AND c.deleted_at IS NULL
+    AND mentioned_id <> c.user_id
+    AND can_view_post(NEW.user_id, NEW.visibility, mentioned_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+CREATE OR REPLACE FUNCTION sync_comment_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  post_author uuid;
+  post_visibility text;
+BEGIN
+  SELECT user_id, visibility INTO post_author, post_visibility
+  FROM public.posts
+  WHERE id = NEW.post_id;
+
+  DELETE FROM public.mentions
+  WHERE comment_id = NEW.id
+  AND (
+    user_id NOT IN (SELECT extract_mentioned_user_ids(NEW.content))
+    OR NOT can_view_post(post_author, post_visibility, user_id)
+  );
+
+  INSERT INTO public.mentions (user_id, author_id, post_id, comment_id)
+  SELECT mentioned_id, NEW.user_id, NEW.post_id, NEW.id
+  FROM extract_mentioned_user_ids(NEW.content) AS mentioned_id
+  WHERE mentioned_id <> NEW.user_id
+  AND can_view_post(post_author, post_visibility, mentioned_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_post_mentions ON public.posts;
+CREATE TRIGGER trigger_sync_post_mentions
+  AFTER INSERT OR UPDATE OF content, visibility ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION sync_post_mentions();
+
+DELETE FROM public.notifications n
+USING public.mentions m
+JOIN public.posts p ON p.id = m.post_id
+WHERE n.type = 'mention'
+AND n.user_id = m.user_id
+AND n.reference_id::text = p.id::text
+AND NOT can_view_post(p.user_id, p.visibility, m.user_id);
+
+DELETE FROM public.mentions m
+USING public.posts p
+WHERE m.post_id = p.id
+AND NOT can_view_post(p.user_id, p.visibility, m.user_id);
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,68 @@
+/*
+  # Private presence and typing channels
+
+  Everyone used to join one public presence channel, so any signed-in user could list every online
+  user and each client received the presence of the whole user base. The typing channels were
+  public too, under names anyone could work out.
+
+  1. Channels
+    - `presence:<user id>` is tracked by that user only, their accepted friends can join it to see them online
+    - `typing:<user id>:<user id>`, ids sorted, is only open to the two friends it names
+
+  2. Security
+    - Realtime Authorization policies on `realtime.messages`, the app joins both as private channels
+*/
+
+-- Ids are compared as text, in the same order the app's sort puts them
+CREATE OR REPLACE FUNCTION typing_topic(first_user uuid, second_user uuid)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 'typing:'
+    || least(first_user::text COLLATE "C", second_user::text COLLATE "C")
+    || ':'
+    || greatest(first_user::text COLLATE "C", second_user::text COLLATE "C");
+$$;
+
+DROP POLICY IF EXISTS "Friends can see presence and typing" ON realtime.messages;
+DROP POLICY IF EXISTS "Users can share their presence and typing" ON realtime.messages;
+
+CREATE POLICY "Friends can see presence and typing"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND (
+      realtime.topic() = 'presence:' || auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM public.friends f
+        WHERE f.status = 'accepted'
+        AND (
+          (f.sender_id = auth.uid() AND realtime.topic() = 'presence:' || f.receiver_id::text)
+          OR (f.receiver_id = auth.uid() AND realtime.topic() = 'presence:' || f.sender_id::text)
+          OR (auth.uid() IN (f.sender_id, f.receiver_id) AND realtime.topic() = public.typing_topic(f.sender_id, f.receiver_id))
+        )
+      )
+    )
+  );
+
+-- Only the owner is tracked in a presence channel, both friends in their typing channel
+CREATE POLICY "Users can share their presence and typing"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND (
+      realtime.topic() = 'presence:' || auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM public.friends f
+        WHERE f.status = 'accepted'
+        AND auth.uid() IN (f.sender_id, f.receiver_id)
+        AND realtime.topic() = public.typing_topic(f.sender_id, f.receiver_id)
+      )
+    )
+  );
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,40 @@
+/*
+  # Unsent messages don't count as unread
+
+  Unsending cleared the content but left the message unread, so the partner kept an unread badge
+  for a message that only shows as unsent.
+
+  1. Functions
+    - `unsend_message` also clears the message from the receiver's unread messages
+
+  2. Cleanup
+    - Clear messages that were already unsent
+*/
+
+CREATE OR REPLACE FUNCTION unsend_message(message_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.messages
+  SET content = '', unsent_at = now()
+  WHERE id = message_uuid
+  AND sender_id = auth.uid()
+  AND unsent_at IS NULL
+  AND created_at > now() - interval '15 minutes';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This message can no longer be unsent';
+  END IF;
+
+  DELETE FROM public.message_unreads WHERE message_id = message_uuid;
+END $$;
+
+DELETE FROM public.message_unreads u
+USING public.messages m
+WHERE u.message_id = m.id
+AND m.unsent_at IS NOT NULL;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
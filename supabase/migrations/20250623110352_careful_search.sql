@@ -0,0 +1,64 @@
+/*
+  # Content warnings in post search
+
+  Post search only returned a headline of the text, so posts behind a content warning showed up in
+  full and the viewer's `sensitive_content` setting was ignored.
+
+  1. Functions
+    - `search_posts` also returns the post's `content_warning`
+    - `sensitive` is set when the post has a content warning or a sensitive image, like the feed checks
+*/
+
+DROP FUNCTION IF EXISTS search_posts(text, integer, integer);
+
+-- Ranked posts matching the query, limited to what the caller can see
+CREATE FUNCTION search_posts(
+  search_query text,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  created_at timestamptz,
+  headline text,
+  rank real,
+  name text,
+  username text,
+  avatar text,
+  content_warning text,
+  sensitive boolean
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.created_at,
+    ts_headline('english', p.content, query.q, 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2'),
+    ts_rank_cd(p.search_vector, query.q),
+    pr.name,
+    pr.username,
+    pr.avatar,
+    p.content_warning,
+    p.content_warning IS NOT NULL OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p.images) AS image
+      WHERE (image->>'sensitive')::boolean
+    )
+  FROM public.posts p
+  CROSS JOIN query
+  JOIN public.profiles pr ON pr.id = p.user_id
+  WHERE p.search_vector @@ query.q
+  ORDER BY ts_rank_cd(p.search_vector, query.q) DESC, p.created_at DESC
+  LIMIT LEAST(result_limit, 50)
+  OFFSET result_offset;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_posts(text, integer, integer) TO authenticated;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,57 @@
+/*
+  # Posts always have a visibility
+
+  `posts.visibility` was added with a default but stayed nullable, and a NULL passed the
+  `visibility <> 'friends'` check in `check_shared_post`, so a friends-only post could be shared
+  publicly by leaving the visibility out.
+
+  1. Schema Updates
+    - Backfill NULL visibility to 'public' and make the column NOT NULL
+
+  2. Functions
+    - `check_shared_post` treats anything but 'friends' as wider than friends-only
+*/
+
+UPDATE public.posts SET visibility = 'public' WHERE visibility IS NULL;
+
+ALTER TABLE public.posts ALTER COLUMN visibility SET DEFAULT 'public';
+ALTER TABLE public.posts ALTER COLUMN visibility SET NOT NULL;
+
+-- Validate shares against the original post
+CREATE OR REPLACE FUNCTION check_shared_post()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  original_visibility text;
+BEGIN
+  -- Cleared by ON DELETE SET NULL once the original is gone
+  IF NEW.shared_post_id IS NULL THEN
+    IF TG_OP = 'INSERT' AND NEW.share_type IS NOT NULL THEN
+      RAISE EXCEPTION 'A shared post needs the post it shares';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.share_type IS NULL THEN
+    RAISE EXCEPTION 'A shared post needs a share type';
+  END IF;
+
+  -- Runs under the posts policies, so hidden posts look missing
+  SELECT visibility INTO original_visibility
+  FROM public.posts
+  WHERE id = NEW.shared_post_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can''t share this post';
+  END IF;
+
+  IF original_visibility = 'friends' AND NEW.visibility IS DISTINCT FROM 'friends' THEN
+    RAISE EXCEPTION 'Friends-only posts can only be shared with friends';
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
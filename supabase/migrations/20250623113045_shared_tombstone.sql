@@ -0,0 +1,78 @@
+/*
+  # Tombstones for shares of trashed posts
+
+  Trashing a post keeps it for 30 days and reposts and quotes keep pointing at it, but the trashed
+  post is hidden from everyone. Shares showed it as not available instead of deleted until the
+  purge cleared `shared_post_id`.
+
+  1. Schema Updates
+    - Add `shared_post_deleted` column to posts table (boolean, set while the shared post is in the trash)
+    - Backfill it for shares of posts that are already in the trash
+
+  2. Functions
+    - `soft_delete_post` and `restore_post` keep the shares of the post in step
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'posts'
+    AND column_name = 'shared_post_deleted'
+  ) THEN
+    ALTER TABLE public.posts ADD COLUMN shared_post_deleted boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+UPDATE public.posts s
+SET shared_post_deleted = true
+FROM public.posts o
+WHERE s.shared_post_id = o.id
+AND o.deleted_at IS NOT NULL;
+
+-- Move a post to the trash
+CREATE OR REPLACE FUNCTION soft_delete_post(post_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.posts
+  SET deleted_at = now()
+  WHERE id = post_uuid
+  AND user_id = auth.uid()
+  AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  UPDATE public.posts
+  SET shared_post_deleted = true
+  WHERE shared_post_id = post_uuid;
+END $$;
+
+CREATE OR REPLACE FUNCTION restore_post(post_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.posts
+  SET deleted_at = NULL
+  WHERE id = post_uuid
+  AND user_id = auth.uid()
+  AND deleted_at > now() - interval '30 days';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found in the trash';
+  END IF;
+
+  UPDATE public.posts
+  SET shared_post_deleted = false
+  WHERE shared_post_id = post_uuid;
+END $$;
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,35 @@
+/*
+  # Replies stay on their post
+
+  Nothing checked that a reply's parent comment belongs to the same post, so a crafted insert could
+  hang a reply on another post's thread and throw off `replies_count`.
+
+  1. Functions
+    - `check_comment_reply` rejects replies whose parent is on a different post
+      - Runs as the definer so hidden or trashed parents are still found
+*/
+
+CREATE OR REPLACE FUNCTION check_comment_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.comments parent
+    WHERE parent.id = NEW.parent_id
+    AND parent.post_id = NEW.post_id
+  ) THEN
+    RAISE EXCEPTION 'You can only reply to a comment on the same post';
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_check_comment_reply ON public.comments;
+CREATE TRIGGER trigger_check_comment_reply
+  BEFORE INSERT OR UPDATE OF parent_id, post_id ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION check_comment_reply();
+
+-- Refresh the schema cache
+NOTIFY pgrst, 'reload schema';